@@ -1,15 +1,35 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { ViewState, Language } from './types';
-import type { Book, ShelfData } from './types';
+import type { Book, ShelfData, ReaderTarget, ShelfViewSettings, PaletteColor, FlashCard, ReadingSession } from './types';
 import { Layout } from './components/Layout';
 import { Shelf } from './components/Shelf';
 import { Reader } from './components/Reader';
+import { ReflowReader } from './components/ReflowReader';
 import { Dashboard } from './components/Dashboard';
+import { Vault } from './components/Vault';
+import { BackupModal } from './components/BackupModal';
+import { LibrarySearch } from './components/LibrarySearch';
+import { BookImport } from './components/BookImport';
+import { StoragePanel } from './components/StoragePanel';
+import { BookDetails, BookDetailsUpdate } from './components/BookDetails';
+import { ShelfEditor } from './components/ShelfEditor';
+import { ShelfList } from './components/ShelfList';
+import { ShelfToolbar } from './components/ShelfToolbar';
+import { AnnotationExport } from './components/AnnotationExport';
+import { AnnotationBrowser } from './components/AnnotationBrowser';
+import { PaletteEditor } from './components/PaletteEditor';
 import { CelebrationOverlay } from './components/CelebrationOverlay';
 import { translations } from './i18n/translations';
 import { storageService } from './services/storageService';
 import { pdfStorage } from './services/pdfStorage';
+import { srsService } from './services/srsService';
+import { dateUtils } from './services/dateUtils';
+import { backupService, LibraryBackup } from './services/backupService';
+import { pdfMetadata } from './services/pdfMetadata';
+import { reflowDocument } from './services/reflowDocument';
+import { storageUsage } from './services/storageUsage';
+import { shelfRules, ShelfFilter } from './services/shelfRules';
 import { 
   Plus, 
   Library, 
@@ -18,7 +38,6 @@ import {
   Sparkles, 
   Trash2, 
   Loader2, 
-  BookOpen, 
   Globe, 
   LayoutDashboard,
   Clock,
@@ -26,7 +45,15 @@ import {
   Upload,
   Zap,
   ShieldCheck,
-  BrainCircuit
+  BrainCircuit,
+  Layers,
+  Archive,
+  Download,
+  Search,
+  HardDrive,
+  Undo2,
+  Highlighter,
+  Palette
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -36,6 +63,8 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs
 const MotionDiv = motion.div as any;
 const MotionAside = motion.aside as any;
 
+const UNDO_DELETE_MS = 8000;
+
 const App: React.FC = () => {
   const [view, setView] = useState<ViewState>(ViewState.SHELF);
   const [lang, setLang] = useState<Language>('ar');
@@ -44,16 +73,30 @@ const App: React.FC = () => {
   const [activeShelfId, setActiveShelfId] = useState<string>('default');
   const [activeBookIndex, setActiveBookIndex] = useState(0); // رفع الحالة للتحكم في الإحصائيات العلوية
   const [selectedBook, setSelectedBook] = useState<Book | null>(null);
+  const [readerTarget, setReaderTarget] = useState<ReaderTarget | undefined>(undefined);
+  // Where leaving the Reader returns to
+  const [readerReturnView, setReaderReturnView] = useState<ViewState>(ViewState.SHELF);
+  const [isLibrarySearchOpen, setIsLibrarySearchOpen] = useState(false);
   const [isAddingBook, setIsAddingBook] = useState(false);
-  const [isAddingShelf, setIsAddingShelf] = useState(false);
+  // 'new' while a shelf is being created
+  const [editingShelf, setEditingShelf] = useState<ShelfData | 'new' | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [isExtracting, setIsExtracting] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const [newBookTitle, setNewBookTitle] = useState('');
-  const [newBookAuthor, setNewBookAuthor] = useState('');
-  const [newShelfName, setNewShelfName] = useState('');
-  const [pendingFileData, setPendingFileData] = useState<ArrayBuffer | null>(null);
   const [celebrationStar, setCelebrationStar] = useState<number | null>(null);
+  const [dueCardCount, setDueCardCount] = useState(0);
+  const [pendingBackup, setPendingBackup] = useState<LibraryBackup | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
+  // Cards and sessions go with the book and come back with it on undo
+  const [deletedBook, setDeletedBook] = useState<{ book: Book, index: number, cards: FlashCard[], sessions: ReadingSession[] } | null>(null);
+  const deleteTimerRef = useRef<number | null>(null);
+  const [detailBookId, setDetailBookId] = useState<string | null>(null);
+  const [idleTimeoutMinutes, setIdleTimeoutMinutes] = useState(() => storageService.getSettings().idleTimeoutMinutes);
+  const [dayStartHour, setDayStartHour] = useState(() => storageService.getSettings().dayStartHour);
+  const [palette, setPalette] = useState(() => storageService.getSettings().palette);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [shelfView, setShelfView] = useState<ShelfViewSettings>(() => storageService.getSettings().shelf);
+  const [shelfFilter, setShelfFilter] = useState<ShelfFilter>({ status: 'all', tag: null });
 
   useEffect(() => {
     const loadedBooks = storageService.getBooks();
@@ -62,8 +105,49 @@ const App: React.FC = () => {
     setShelves(loadedShelves);
   }, []);
 
+  // Books added before covers were extracted still point at placeholder images
+  useEffect(() => {
+    const placeholders = storageService.getBooks().filter(b => b.cover.startsWith('https://picsum.photos/'));
+    (async () => {
+      for (const book of placeholders) {
+        try {
+          const data = await pdfStorage.getFile(book.id);
+          if (!data) continue;
+          const { cover, pageCount } = await pdfMetadata.read(data);
+          storageService.updateBookDetails(book.id, { cover, pageCount });
+        } catch (err) {
+          console.warn(`Unable to extract a cover for "${book.title}":`, err);
+        }
+      }
+    })();
+  }, []);
+
+  // Reading progress is pushed from storage instead of re-reading the whole library
+  useEffect(() => storageService.subscribeToBooks(changed => {
+    const byId = new Map(changed.map(b => [b.id, b]));
+    setBooks(prev => prev.map(b => byId.get(b.id) || b));
+  }), []);
+
+  const refreshDueCards = React.useCallback(() => {
+    setDueCardCount(srsService.getDueCards(storageService.getCards()).length);
+  }, []);
+
+  useEffect(() => { refreshDueCards(); }, [view, isSidebarOpen, refreshDueCards]);
+
   const t = translations[lang];
-  const filteredBooks = books.filter(b => b.shelfId === activeShelfId);
+  const activeShelf = shelves.find(s => s.id === activeShelfId);
+  const shelfBooks = activeShelf ? shelfRules.booksOn(activeShelf, books) : books.filter(b => b.shelfId === activeShelfId);
+  // The books shown on the active shelf, in the order the cover flow and grid use
+  const booksOnActiveShelf = (list: Book[]) => {
+    const onShelf = activeShelf ? shelfRules.booksOn(activeShelf, list) : list.filter(b => b.shelfId === activeShelfId);
+    return shelfRules.sort(shelfRules.filter(onShelf, shelfFilter), shelfView.sort);
+  };
+  const filteredBooks = booksOnActiveShelf(books);
+  const isShelfFiltered = shelfFilter.status !== 'all' || !!shelfFilter.tag;
+  // Books can only be placed on regular shelves
+  const placeableShelves = shelves.filter(s => !shelfRules.isSmart(s));
+  const shelfBookCounts = useMemo(() => Object.fromEntries(shelves.map(s => [s.id, shelfRules.booksOn(s, books).length])), [shelves, books]);
+  const detailBook = detailBookId ? books.find(b => b.id === detailBookId) : undefined;
   const fontClass = lang === 'ar' ? 'font-ar' : 'font-en';
 
   // حساب إحصائيات الكتاب النشط حالياً في العرض
@@ -79,80 +163,200 @@ const App: React.FC = () => {
   }, [filteredBooks, activeBookIndex]);
 
   const totalTodayMinutes = useMemo(() => {
-    const today = new Date().toISOString().split('T')[0];
+    const today = dateUtils.today();
     return Math.floor(books.reduce((acc, b) => {
       if (b.lastReadDate === today) return acc + (b.dailyTimeSeconds || 0);
       return acc;
     }, 0) / 60);
-  }, [books]);
+  }, [books, dayStartHour]);
 
   const habitStreak = useMemo(() => storageService.getHabitData().streak, [books]);
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file && file.type === "application/pdf") {
-      setIsExtracting(true);
-      setNewBookTitle(file.name.replace(/\.[^/.]+$/, ""));
-      try {
-        const arrayBuffer = await file.arrayBuffer();
-        setPendingFileData(arrayBuffer);
-      } catch (err) {
-        alert("Error loading PDF");
-      } finally {
-        setIsExtracting(false);
-      }
+  const handleImport = (added: Book[]) => {
+    if (added.length === 0) return;
+    const updated = [...added, ...books];
+    setBooks(updated);
+    storageService.saveBooks(updated);
+  };
+
+  const purgeBookFile = (bookId: string) => {
+    pdfStorage.deleteFile(bookId).catch(err => console.warn('Unable to delete a manuscript file:', err));
+  };
+
+  // The record goes at once but the file is kept until the undo window closes. If the
+  // app is closed first, the file is left for the storage panel's clean up.
+  const handleDeleteBook = (book: Book) => {
+    const index = books.findIndex(b => b.id === book.id);
+    if (index === -1) return;
+    if (deleteTimerRef.current) window.clearTimeout(deleteTimerRef.current);
+    if (deletedBook) purgeBookFile(deletedBook.book.id);
+
+    const updated = books.filter(b => b.id !== book.id);
+    setBooks(updated);
+    storageService.saveBooks(updated);
+    const remainingOnShelf = booksOnActiveShelf(updated).length;
+    setActiveBookIndex(i => Math.max(0, Math.min(i, remainingOnShelf - 1)));
+
+    const allCards = storageService.getCards();
+    const cards = allCards.filter(c => c.bookId === book.id);
+    const sessions = storageService.getSessions(book.id);
+    storageService.saveCards(allCards.filter(c => c.bookId !== book.id));
+    storageService.deleteSessions(book.id);
+    refreshDueCards();
+
+    setDeletedBook({ book, index, cards, sessions });
+    deleteTimerRef.current = window.setTimeout(() => {
+      purgeBookFile(book.id);
+      setDeletedBook(null);
+      deleteTimerRef.current = null;
+    }, UNDO_DELETE_MS);
+  };
+
+  const handleUndoDelete = () => {
+    if (!deletedBook) return;
+    if (deleteTimerRef.current) window.clearTimeout(deleteTimerRef.current);
+    deleteTimerRef.current = null;
+    const updated = [...books];
+    updated.splice(Math.min(deletedBook.index, updated.length), 0, deletedBook.book);
+    setBooks(updated);
+    storageService.saveBooks(updated);
+    storageService.saveCards([...deletedBook.cards, ...storageService.getCards()]);
+    if (deletedBook.sessions.length > 0) {
+      storageService.saveSessions([...storageService.getSessions(), ...deletedBook.sessions].sort((a, b) => a.startedAt - b.startedAt));
     }
+    refreshDueCards();
+    setDeletedBook(null);
+  };
+
+  const handleSaveDetails = (bookId: string, updates: BookDetailsUpdate) => {
+    storageService.updateBookDetails(bookId, updates);
+    setDetailBookId(null);
+    // The book may have left the shelf on screen
+    const remainingOnShelf = booksOnActiveShelf(books.map(b => b.id === bookId ? { ...b, ...updates } : b)).length;
+    setActiveBookIndex(i => Math.max(0, Math.min(i, remainingOnShelf - 1)));
   };
 
-  const handleAddBook = async () => {
-    if (!newBookTitle || !pendingFileData) return;
-    const bookId = Math.random().toString(36).substr(2, 9);
-    await pdfStorage.saveFile(bookId, pendingFileData);
-    const newBook: Book = {
-      id: bookId, shelfId: activeShelfId, title: newBookTitle,
-      author: newBookAuthor || (lang === 'ar' ? 'مؤلف مجهول' : 'Unknown Scribe'),
-      cover: `https://picsum.photos/seed/${newBookTitle}/800/1200`,
-      content: "[VISUAL_PDF_MODE]", timeSpentSeconds: 0, dailyTimeSeconds: 0,
-      lastReadDate: new Date().toISOString().split('T')[0], stars: 0,
-      addedAt: Date.now(), lastPage: 0, annotations: []
+  // The copy shares the file contents and annotations but starts with fresh reading stats
+  const handleDuplicateBook = async (book: Book) => {
+    const id = Math.random().toString(36).substr(2, 9);
+    if (book.format !== 'text' && book.format !== 'markdown') {
+      const data = await pdfStorage.getFile(book.id);
+      if (!data) throw new Error(t.fileMissing);
+      await pdfStorage.saveFile(id, data);
+    }
+    const copy: Book = {
+      ...book,
+      id,
+      title: t.copyOf.replace('{title}', book.title),
+      addedAt: Date.now(),
+      timeSpentSeconds: 0, dailyTimeSeconds: 0, stars: 0,
+      lastPage: 0, readingPosition: undefined, lastReadAt: undefined,
+      annotations: (book.annotations || []).map(a => ({ ...a, id: Math.random().toString(36).substr(2, 9) }))
     };
-    const updated = [newBook, ...books];
+    const updated = [copy, ...storageService.getBooks()];
     setBooks(updated);
     storageService.saveBooks(updated);
-    setNewBookTitle(''); setNewBookAuthor(''); setPendingFileData(null); setIsAddingBook(false);
+    if (copy.shelfId === activeShelfId) setActiveBookIndex(0);
+    setDetailBookId(null);
   };
 
-  const handleAddShelf = () => {
-    if (!newShelfName) return;
-    const newShelf: ShelfData = { id: Math.random().toString(36).substr(2, 9), name: newShelfName, color: '#ff0000' };
-    const updated = [...shelves, newShelf];
+  const handleSaveShelf = (shelf: ShelfData) => {
+    const exists = shelves.some(s => s.id === shelf.id);
+    const updated = exists ? shelves.map(s => s.id === shelf.id ? shelf : s) : [...shelves, shelf];
     setShelves(updated);
     storageService.saveShelves(updated);
-    setNewShelfName(''); setIsAddingShelf(false);
+    setEditingShelf(null);
+    if (!exists) { setActiveShelfId(shelf.id); setActiveBookIndex(0); }
   };
 
-  const handleDeleteShelf = (e: React.MouseEvent, shelfId: string) => {
-    e.stopPropagation();
+  // Books on a deleted shelf are moved, never deleted with it
+  const handleDeleteShelf = (shelfId: string, moveBooksTo: string) => {
     if (shelfId === 'default') return;
+    const target = shelves.some(s => s.id === moveBooksTo && !s.rule) ? moveBooksTo : 'default';
     const updatedShelves = shelves.filter(s => s.id !== shelfId);
     setShelves(updatedShelves);
     storageService.saveShelves(updatedShelves);
-    const updatedBooks = books.map(b => b.shelfId === shelfId ? { ...b, shelfId: 'default' } : b);
+    const updatedBooks = books.map(b => b.shelfId === shelfId ? { ...b, shelfId: target } : b);
     setBooks(updatedBooks);
     storageService.saveBooks(updatedBooks);
-    if (activeShelfId === shelfId) setActiveShelfId('default');
+    if (activeShelfId === shelfId) { setActiveShelfId(target); setActiveBookIndex(0); }
+    setEditingShelf(null);
   };
 
-  const handleReaderBack = React.useCallback(() => {
-    setBooks(storageService.getBooks());
-    setView(ViewState.SHELF);
-  }, []);
+  const handleShelfViewChange = (updates: Partial<ShelfViewSettings>) => {
+    const next = { ...shelfView, ...updates };
+    setShelfView(next);
+    storageService.saveSettings({ shelf: next });
+    if (updates.sort) setActiveBookIndex(0);
+  };
 
-  const handleStatsUpdate = React.useCallback((starReached?: number | null) => {
-    setBooks(storageService.getBooks());
-    if (starReached) {
-      setCelebrationStar(starReached);
+  const handleShelfFilterChange = (filter: ShelfFilter) => {
+    setShelfFilter(filter);
+    setActiveBookIndex(0);
+  };
+
+  const handleIdleTimeoutChange = (minutes: number) => {
+    setIdleTimeoutMinutes(minutes);
+    storageService.saveSettings({ idleTimeoutMinutes: minutes });
+  };
+
+  const handleDayStartChange = (hour: number) => {
+    setDayStartHour(hour);
+    storageService.saveSettings({ dayStartHour: hour });
+  };
+
+  const handleSavePalette = (colors: PaletteColor[]) => {
+    setPalette(colors);
+    storageService.saveSettings({ palette: colors });
+    setIsPaletteOpen(false);
+  };
+
+  const handleExportLibrary = async () => {
+    setIsExporting(true);
+    try {
+      await backupService.exportLibrary();
+    } catch (err) {
+      alert(lang === 'ar' ? 'تعذر تصدير المكتبة' : 'Error exporting library');
+    } finally {
+      setIsExporting(false);
     }
+  };
+
+  const handleArchiveChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setPendingBackup(await backupService.readArchive(file));
+      setIsSidebarOpen(false);
+    } catch (err) {
+      alert(t.archiveInvalid);
+    }
+  };
+
+  const handleLibraryRestored = () => {
+    const restoredShelves = storageService.getShelves();
+    setBooks(storageService.getBooks());
+    setShelves(restoredShelves);
+    if (!restoredShelves.some(s => s.id === activeShelfId)) setActiveShelfId(restoredShelves[0]?.id || 'default');
+    setActiveBookIndex(0);
+    refreshDueCards();
+  };
+
+  const openBook = (book: Book, target?: ReaderTarget) => {
+    setSelectedBook(book);
+    setReaderTarget(target);
+    setReaderReturnView(view === ViewState.ANNOTATIONS ? ViewState.ANNOTATIONS : ViewState.SHELF);
+    setIsLibrarySearchOpen(false);
+    setView(ViewState.READER);
+  };
+
+  const handleReaderBack = React.useCallback(() => {
+    setView(readerReturnView);
+  }, [readerReturnView]);
+
+  const handleStarReached = React.useCallback((star: number) => {
+    setCelebrationStar(star);
   }, []);
 
   const handleCelebrationComplete = React.useCallback(() => {
@@ -195,6 +399,17 @@ const App: React.FC = () => {
                     <div className="p-2 md:p-3 rounded-lg md:rounded-xl bg-white/10 group-hover:bg-white/20"><LayoutDashboard size={20} className="text-[#ff0000] group-hover:text-white" /></div>
                     <div className="flex flex-col items-start"><span className="text-[10px] md:text-xs font-black uppercase tracking-widest group-hover:text-white">{t.dashboard}</span><span className="text-[8px] md:text-[9px] uppercase font-black opacity-30 group-hover:opacity-60 group-hover:text-white">{t.cognitiveMetrics}</span></div>
                   </button>
+
+                  <button onClick={() => { setView(ViewState.VAULT); setIsSidebarOpen(false); }} className="w-full flex items-center gap-4 p-4 md:p-5 rounded-[1.5rem] md:rounded-[2rem] bg-white/5 border border-white/10 hover:bg-[#ff0000] hover:border-[#ff0000] transition-all group">
+                    <div className="p-2 md:p-3 rounded-lg md:rounded-xl bg-white/10 group-hover:bg-white/20"><Layers size={20} className="text-[#ff0000] group-hover:text-white" /></div>
+                    <div className="flex flex-col items-start flex-1"><span className="text-[10px] md:text-xs font-black uppercase tracking-widest group-hover:text-white">{t.vault}</span><span className="text-[8px] md:text-[9px] uppercase font-black opacity-30 group-hover:opacity-60 group-hover:text-white">{t.dueCards}</span></div>
+                    {dueCardCount > 0 && <span className="min-w-[24px] h-6 px-2 rounded-full bg-[#ff0000] text-white text-[10px] font-black flex items-center justify-center shadow-[0_0_15px_rgba(255,0,0,0.4)] group-hover:bg-white group-hover:text-[#ff0000]">{dueCardCount}</span>}
+                  </button>
+                  
+                  <button onClick={() => { setView(ViewState.ANNOTATIONS); setIsSidebarOpen(false); }} className="w-full flex items-center gap-4 p-4 md:p-5 rounded-[1.5rem] md:rounded-[2rem] bg-white/5 border border-white/10 hover:bg-[#ff0000] hover:border-[#ff0000] transition-all group">
+                    <div className="p-2 md:p-3 rounded-lg md:rounded-xl bg-white/10 group-hover:bg-white/20"><Highlighter size={20} className="text-[#ff0000] group-hover:text-white" /></div>
+                    <div className="flex flex-col items-start"><span className="text-[10px] md:text-xs font-black uppercase tracking-widest group-hover:text-white">{t.annotationsView}</span><span className="text-[8px] md:text-[9px] uppercase font-black opacity-30 group-hover:opacity-60 group-hover:text-white">{t.annotationsSubtitle}</span></div>
+                  </button>
                   
                   <section className="space-y-3 md:space-y-4">
                     <div className="flex items-center gap-3 opacity-20 px-2"><Globe size={12} className="text-white" /><span className="text-[9px] font-black uppercase tracking-widest text-white">{t.language}</span></div>
@@ -208,6 +423,32 @@ const App: React.FC = () => {
                     </div>
                   </section>
                   
+                  <section className="space-y-3 md:space-y-4">
+                    <div className="flex items-center gap-3 opacity-20 px-2"><Clock size={12} className="text-white" /><span className="text-[9px] font-black uppercase tracking-widest text-white">{t.idlePause}</span></div>
+                    <div className="grid grid-cols-5 gap-1.5">
+                      {[0, 2, 5, 10, 15].map(minutes => (
+                        <button key={minutes} onClick={() => handleIdleTimeoutChange(minutes)} className={`py-2.5 rounded-xl border text-[9px] font-black uppercase transition-all ${idleTimeoutMinutes === minutes ? 'bg-white text-black border-white' : 'bg-white/5 border-white/5 text-white/40 hover:bg-white/10'}`}>
+                          {minutes === 0 ? t.idleOff : `${minutes}${lang === 'ar' ? 'د' : 'm'}`}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-3 opacity-20 px-2 pt-2"><Sparkles size={12} className="text-white" /><span className="text-[9px] font-black uppercase tracking-widest text-white">{t.dayStartsAt}</span></div>
+                    <div className="grid grid-cols-2 gap-1.5">
+                      {[0, 4].map(hour => (
+                        <button key={hour} onClick={() => handleDayStartChange(hour)} className={`py-2.5 rounded-xl border text-[9px] font-black uppercase transition-all ${dayStartHour === hour ? 'bg-white text-black border-white' : 'bg-white/5 border-white/5 text-white/40 hover:bg-white/10'}`}>
+                          {hour === 0 ? t.midnight : `${hour}:00`}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-3 opacity-20 px-2 pt-2"><Palette size={12} className="text-white" /><span className="text-[9px] font-black uppercase tracking-widest text-white">{t.annotationPalette}</span></div>
+                    <button onClick={() => { setIsPaletteOpen(true); setIsSidebarOpen(false); }} className="w-full p-3 md:p-4 rounded-xl md:rounded-2xl bg-white/5 border border-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-all flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-1.5">
+                        {palette.map(c => <span key={c.hex} title={c.label} className="w-3.5 h-3.5 rounded-full" style={{ backgroundColor: c.hex }} />)}
+                      </div>
+                      <span className="text-[8px] md:text-[9px] font-black uppercase tracking-widest">{t.editPalette}</span>
+                    </button>
+                  </section>
+
                   <section className="space-y-3 md:space-y-4">
                     <div className="flex items-center gap-3 opacity-20 px-2"><BrainCircuit size={12} className="text-white" /><span className="text-[9px] font-black uppercase tracking-widest text-white">{lang === 'ar' ? 'طريقة عمل التطبيق' : 'How it Works'}</span></div>
                     <div className="p-4 rounded-2xl bg-white/5 border border-white/5 space-y-3">
@@ -239,19 +480,43 @@ const App: React.FC = () => {
                     </div>
                   </section>
 
+                  <section className="space-y-3 md:space-y-4">
+                    <div className="flex items-center gap-3 opacity-20 px-2"><Archive size={12} className="text-white" /><span className="text-[9px] font-black uppercase tracking-widest text-white">{t.archive}</span></div>
+                    <input type="file" ref={archiveInputRef} onChange={handleArchiveChange} className="hidden" accept=".sanctuary,application/octet-stream" />
+                    <div className="grid grid-cols-2 gap-2">
+                      <button onClick={handleExportLibrary} disabled={isExporting} className="p-3 md:p-4 rounded-xl md:rounded-2xl bg-white/5 border border-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-all flex flex-col items-center gap-2 disabled:opacity-40">
+                        {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+                        <span className="text-[8px] md:text-[9px] font-black uppercase tracking-widest">{t.exportLibrary}</span>
+                      </button>
+                      <button onClick={() => archiveInputRef.current?.click()} className="p-3 md:p-4 rounded-xl md:rounded-2xl bg-white/5 border border-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-all flex flex-col items-center gap-2">
+                        <Upload size={16} />
+                        <span className="text-[8px] md:text-[9px] font-black uppercase tracking-widest">{t.importLibrary}</span>
+                      </button>
+                    </div>
+                    <div className="space-y-2">
+                      <span className="block px-2 text-[8px] font-black uppercase tracking-widest text-white/30">{t.exportAnnotations}</span>
+                      <AnnotationExport books={books} lang={lang} isLibrary />
+                    </div>
+                    <button onClick={() => { setIsStorageOpen(true); setIsSidebarOpen(false); }} className="w-full p-3 md:p-4 rounded-xl md:rounded-2xl bg-white/5 border border-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-2">
+                      <HardDrive size={16} />
+                      <span className="text-[8px] md:text-[9px] font-black uppercase tracking-widest">{t.storage}</span>
+                    </button>
+                  </section>
+
                   <section className="space-y-3 md:space-y-4 pb-12">
                     <div className="flex items-center justify-between px-2">
                       <div className="flex items-center gap-3 opacity-20"><Library size={12} className="text-white" /><span className="text-[9px] font-black uppercase tracking-widest text-white">{t.collections}</span></div>
-                      <button onClick={() => setIsAddingShelf(true)} className="p-1.5 bg-[#ff0000]/20 rounded-full text-[#ff0000] hover:scale-110 transition-transform"><Plus size={12}/></button>
-                    </div>
-                    <div className="flex flex-col gap-1.5">
-                      {shelves.map(shelf => (
-                        <div key={shelf.id} onClick={() => { setActiveShelfId(shelf.id); setActiveBookIndex(0); setView(ViewState.SHELF); setIsSidebarOpen(false); }} className={`group w-full text-left px-4 md:px-5 py-3 md:py-4 rounded-xl md:rounded-2xl border transition-all text-[10px] md:text-xs font-bold flex items-center justify-between cursor-pointer ${activeShelfId === shelf.id ? 'bg-[#ff0000]/10 border-[#ff0000]/30 text-white' : 'bg-transparent border-transparent text-white/30 hover:bg-white/5'}`}>
-                          <div className="flex items-center gap-3 md:gap-4 truncate"><div className={`w-1.5 h-1.5 rounded-full shrink-0 ${activeShelfId === shelf.id ? 'bg-[#ff0000]' : 'bg-white/10'}`} /><span className="truncate">{shelf.name}</span></div>
-                          {shelf.id !== 'default' && <button onClick={(e) => handleDeleteShelf(e, shelf.id)} className="p-2 text-white/0 group-hover:text-white/20 hover:text-red-600 transition-all rounded-lg hover:bg-white/5"><Trash2 size={12} /></button>}
-                        </div>
-                      ))}
+                      <button onClick={() => setEditingShelf('new')} className="p-1.5 bg-[#ff0000]/20 rounded-full text-[#ff0000] hover:scale-110 transition-transform"><Plus size={12}/></button>
                     </div>
+                    <ShelfList
+                      shelves={shelves}
+                      activeShelfId={activeShelfId}
+                      bookCounts={shelfBookCounts}
+                      onSelect={(shelfId) => { setActiveShelfId(shelfId); setActiveBookIndex(0); setShelfFilter({ status: 'all', tag: null }); setView(ViewState.SHELF); setIsSidebarOpen(false); }}
+                      onEdit={setEditingShelf}
+                      onReorder={setShelves}
+                      onReorderEnd={() => storageService.saveShelves(shelves)}
+                    />
                   </section>
                 </div>
               </MotionAside>
@@ -288,6 +553,10 @@ const App: React.FC = () => {
                 </MotionDiv>
               )}
 
+              <button onClick={() => setIsLibrarySearchOpen(true)} className="p-3 md:p-4 rounded-full bg-black/60 backdrop-blur-xl border border-white/10 shadow-xl text-white/40 hover:bg-[#ff0000] hover:border-[#ff0000] hover:text-white transition-all active:scale-95" title={t.searchLibrary}>
+                <Search size={16} />
+              </button>
+
               <button onClick={() => setIsAddingBook(true)} className="px-5 md:px-8 py-3 md:py-4 rounded-full bg-white text-black text-[9px] md:text-[11px] font-black uppercase tracking-[0.3em] shadow-2xl hover:bg-[#ff0000] hover:text-white transition-all flex items-center gap-2.5 active:scale-95">
                 <Plus size={14} />{lang === 'ar' ? 'إضافة كتاب' : 'Add Work'}
               </button>
@@ -299,7 +568,7 @@ const App: React.FC = () => {
         <div className="flex-1 relative overflow-hidden flex flex-col">
           <AnimatePresence mode="wait">
             {view === ViewState.SHELF && (
-              <MotionDiv key="shelf" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="flex-1 flex flex-col relative">
+              <MotionDiv key="shelf" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="flex-1 min-h-0 flex flex-col relative">
                 <header className="flex flex-col items-center text-center pt-20 md:pt-4 pb-2 md:pb-1 shrink-0 overflow-visible">
                   <h1 className="text-[clamp(2.5rem,6vw,5rem)] font-black text-white uppercase big-title-white tracking-tighter px-4 leading-[1.0] text-center w-full max-w-full drop-shadow-2xl">{t.title}</h1>
                   <p className="shining-text text-[11px] md:text-xs font-bold mt-2 md:mt-1 px-8 md:px-12 max-w-2xl tracking-[0.4em] leading-relaxed opacity-90 italic">{t.philosophy}</p>
@@ -337,14 +606,30 @@ const App: React.FC = () => {
                   </div>
                 </header>
                 
-                <div className="flex-1 flex flex-col justify-center items-center">
+                {shelfBooks.length > 0 && (
+                  <ShelfToolbar
+                    lang={lang}
+                    view={shelfView}
+                    filter={shelfFilter}
+                    tags={shelfRules.tagsOf(shelfBooks)}
+                    onViewChange={handleShelfViewChange}
+                    onFilterChange={handleShelfFilterChange}
+                  />
+                )}
+
+                <div className={`flex-1 min-h-0 flex flex-col items-center ${shelfView.layout === 'grid' && filteredBooks.length > 0 ? 'justify-start' : 'justify-center'}`}>
                   <Shelf 
                     books={filteredBooks} 
                     lang={lang} 
                     activeIndex={activeBookIndex}
                     onActiveIndexChange={setActiveBookIndex}
-                    onSelectBook={(b) => { setSelectedBook(b); setView(ViewState.READER); }} 
+                    onSelectBook={(b) => openBook(b)} 
                     onAddBook={() => setIsAddingBook(true)} 
+                    onDeleteBook={handleDeleteBook}
+                    onShowDetails={(b) => setDetailBookId(b.id)}
+                    layout={shelfView.layout}
+                    isFiltered={isShelfFiltered}
+                    keyboardEnabled={!isSidebarOpen && !isAddingBook && !detailBook && !editingShelf && !isStorageOpen && !isPaletteOpen && !isLibrarySearchOpen && !pendingBackup && !celebrationStar}
                   />
                 </div>
                 <div className="absolute bottom-4 left-0 right-0 text-center pointer-events-none opacity-5">
@@ -357,14 +642,35 @@ const App: React.FC = () => {
                 <Dashboard books={books} shelves={shelves} lang={lang} onBack={() => setView(ViewState.SHELF)} />
               </MotionDiv>
             )}
+            {view === ViewState.VAULT && (
+              <MotionDiv key="vault" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="flex-1 overflow-y-auto custom-scroll">
+                <Vault lang={lang} onBack={() => setView(ViewState.SHELF)} onCardsChange={refreshDueCards} />
+              </MotionDiv>
+            )}
+            {view === ViewState.ANNOTATIONS && (
+              <MotionDiv key="annotations" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="flex-1 overflow-y-auto custom-scroll">
+                <AnnotationBrowser books={books} shelves={shelves} lang={lang} onBack={() => setView(ViewState.SHELF)} onOpen={openBook} />
+              </MotionDiv>
+            )}
             {view === ViewState.READER && selectedBook && (
               <MotionDiv key="reader" initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="fixed inset-0 z-[5000]">
-                <Reader 
-                  book={selectedBook} 
-                  lang={lang} 
-                  onBack={handleReaderBack} 
-                  onStatsUpdate={handleStatsUpdate} 
-                />
+                {reflowDocument.isReflowable(selectedBook) ? (
+                  <ReflowReader
+                    book={selectedBook}
+                    lang={lang}
+                    onBack={handleReaderBack}
+                    onStarReached={handleStarReached}
+                    openAt={readerTarget}
+                  />
+                ) : (
+                  <Reader 
+                    book={selectedBook} 
+                    lang={lang} 
+                    onBack={handleReaderBack} 
+                    onStarReached={handleStarReached} 
+                    openAt={readerTarget}
+                  />
+                )}
               </MotionDiv>
             )}
           </AnimatePresence>
@@ -374,35 +680,79 @@ const App: React.FC = () => {
         {/* Overlay Modals */}
         <AnimatePresence>
           {isAddingBook && (
-            <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] flex items-center justify-center p-0 md:p-6 bg-black/98 backdrop-blur-3xl">
-              <MotionDiv initial={{ scale: 0.95, y: 30 }} animate={{ scale: 1, y: 0 }} className="bg-[#0b140b] border border-white/5 p-8 md:p-12 rounded-none md:rounded-[4rem] w-full max-w-xl min-h-screen md:min-h-0 shadow-2xl relative flex flex-col justify-center">
-                <button onClick={() => setIsAddingBook(false)} className="absolute top-6 right-6 md:top-10 md:right-10 p-2 rounded-full bg-white/5 text-white/20 hover:text-white transition-colors"><X size={20} className="md:size-6" /></button>
-                <h2 className="text-xl md:text-3xl font-black mb-8 md:mb-12 text-white uppercase italic flex items-center gap-4 md:gap-5 leading-none"><BookOpen size={32} className="text-[#ff0000] md:size-11" /> {t.newIntake}</h2>
-                <div className="space-y-6 md:space-y-8">
-                  <div onClick={() => !isExtracting && fileInputRef.current?.click()} className="w-full aspect-video border-2 border-dashed border-white/10 rounded-[2rem] md:rounded-[3rem] flex flex-col items-center justify-center gap-4 md:gap-6 cursor-pointer hover:border-[#ff0000]/30 transition-all bg-white/5 group">
-                    <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept=".pdf" />
-                    {isExtracting ? <div className="animate-spin text-[#ff0000]"><Loader2 size={32} className="md:size-10" /></div> : <><div className="p-4 md:p-6 bg-white/5 rounded-full group-hover:bg-[#ff0000] group-hover:text-white transition-all"><Upload size={24} className="text-white/20 md:size-10" /></div><span className="text-[9px] md:text-[11px] uppercase font-black opacity-30 tracking-[0.2em] md:tracking-[0.3em]">{pendingFileData ? newBookTitle : t.uploadHint}</span></>}
-                  </div>
-                  <div className="grid gap-3 md:gap-4">
-                    <input type="text" value={newBookTitle} onChange={e => setNewBookTitle(e.target.value)} className="w-full bg-white/5 border border-white/10 rounded-xl md:rounded-2xl p-4 md:p-6 text-xs md:text-sm font-bold text-white outline-none focus:border-[#ff0000]/50" placeholder={t.bookTitle} />
-                    <input type="text" value={newBookAuthor} onChange={e => setNewBookAuthor(e.target.value)} className="w-full bg-white/5 border border-white/10 rounded-xl md:rounded-2xl p-4 md:p-6 text-xs md:text-sm font-bold text-white outline-none focus:border-[#ff0000]/50" placeholder={t.author} />
-                  </div>
-                  <button onClick={handleAddBook} disabled={!newBookTitle || !pendingFileData} className="w-full bg-white text-black py-4 md:py-6 rounded-[1.5rem] md:rounded-[2rem] font-black text-[10px] md:text-xs uppercase shadow-2xl hover:bg-[#ff0000] hover:text-white transition-all tracking-[0.3em] md:tracking-[0.5em]">{t.save}</button>
-                </div>
-              </MotionDiv>
-            </MotionDiv>
+            <BookImport
+              shelves={placeableShelves}
+              activeShelfId={activeShelf?.rule ? 'default' : activeShelfId}
+              lang={lang}
+              onClose={() => setIsAddingBook(false)}
+              onImport={handleImport}
+            />
           )}
 
-          {isAddingShelf && (
-            <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] flex items-center justify-center p-6 bg-black/95 backdrop-blur-2xl">
-              <MotionDiv initial={{ scale: 0.95 }} animate={{ scale: 1 }} className="bg-[#0b140b] border border-white/10 p-10 md:p-12 rounded-[2.5rem] md:rounded-[4rem] w-full max-w-md shadow-2xl text-center">
-                <h3 className="text-2xl md:text-3xl font-black uppercase italic text-white mb-8 md:mb-10">{lang === 'ar' ? 'إنشاء رف' : 'New Shelf'}</h3>
-                <input autoFocus type="text" value={newShelfName} onChange={e => setNewShelfName(e.target.value)} className="w-full bg-white/5 border border-white/10 rounded-xl md:rounded-2xl p-4 md:p-6 text-xs md:text-sm font-bold text-white outline-none mb-8 md:mb-10 focus:border-[#ff0000]/50" placeholder={lang === 'ar' ? 'اسم الرف...' : 'Shelf Name...'} />
-                <button onClick={handleAddShelf} className="w-full bg-[#ff0000] py-4 md:py-6 rounded-[1.5rem] md:rounded-[2rem] font-black text-[10px] md:text-xs uppercase shadow-2xl hover:scale-105 transition-transform text-white tracking-[0.3em] md:tracking-[0.4em]">{t.establish}</button>
-              </MotionDiv>
+          {editingShelf && (
+            <ShelfEditor
+              shelf={editingShelf === 'new' ? undefined : editingShelf}
+              shelves={shelves}
+              bookCount={editingShelf === 'new' ? 0 : books.filter(b => b.shelfId === editingShelf.id).length}
+              lang={lang}
+              onClose={() => setEditingShelf(null)}
+              onSave={handleSaveShelf}
+              onDelete={(moveBooksTo) => editingShelf !== 'new' && handleDeleteShelf(editingShelf.id, moveBooksTo)}
+            />
+          )}
+
+          {isLibrarySearchOpen && (
+            <LibrarySearch 
+              books={books} 
+              lang={lang} 
+              onClose={() => setIsLibrarySearchOpen(false)} 
+              onOpen={openBook} 
+            />
+          )}
+
+          {detailBook && (
+            <BookDetails
+              key={detailBook.id}
+              book={detailBook}
+              shelves={placeableShelves}
+              lang={lang}
+              onClose={() => setDetailBookId(null)}
+              onSave={(updates) => handleSaveDetails(detailBook.id, updates)}
+              onDuplicate={() => handleDuplicateBook(detailBook)}
+              onResetStats={() => storageService.resetBookStats(detailBook.id)}
+              onDelete={() => { setDetailBookId(null); handleDeleteBook(detailBook); }}
+            />
+          )}
+
+          {isPaletteOpen && (
+            <PaletteEditor palette={palette} lang={lang} onClose={() => setIsPaletteOpen(false)} onSave={handleSavePalette} />
+          )}
+
+          {isStorageOpen && (
+            <StoragePanel
+              lang={lang}
+              keepFileIds={deletedBook ? [deletedBook.book.id] : []}
+              onClose={() => setIsStorageOpen(false)}
+              onDeleteBook={handleDeleteBook}
+            />
+          )}
+
+          {deletedBook && (
+            <MotionDiv key={deletedBook.book.id} initial={{ opacity: 0, y: 30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: 30 }} className="fixed bottom-6 md:bottom-10 inset-x-0 mx-auto w-fit z-[7000] flex items-center gap-4 bg-black/80 backdrop-blur-xl px-5 md:px-6 py-3 rounded-full border border-white/10 shadow-2xl max-w-[90vw]">
+              <span className="text-[10px] md:text-[11px] font-black text-white/70 truncate">{t.bookDeleted.replace('{title}', deletedBook.book.title)}</span>
+              <button onClick={handleUndoDelete} className="flex items-center gap-2 px-4 py-1.5 rounded-full bg-white text-black text-[9px] font-black uppercase tracking-widest hover:bg-[#ff0000] hover:text-white transition-all shrink-0"><Undo2 size={12} />{t.undo}</button>
             </MotionDiv>
           )}
 
+          {pendingBackup && (
+            <BackupModal 
+              backup={pendingBackup} 
+              lang={lang} 
+              onClose={() => setPendingBackup(null)} 
+              onRestored={handleLibraryRestored} 
+            />
+          )}
+
           {celebrationStar && (
             <CelebrationOverlay 
               starCount={celebrationStar} 
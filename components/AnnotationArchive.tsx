@@ -0,0 +1,78 @@
+import React, { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Annotation, Language, PaletteColor } from '../types';
+import { translations } from '../i18n/translations';
+import { palette as paletteUtils } from '../services/palette';
+import { ColorGroupHeading } from './PaletteLegend';
+import { X, Layers, Edit3 } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+interface AnnotationArchiveProps {
+  annotations: Annotation[];
+  palette: PaletteColor[];
+  lang: Language;
+  // What pageIndex counts: pages of a PDF or chapters of a reflowable book
+  locationLabel: string;
+  cardAnnoIds: Set<string>;
+  onGoTo: (anno: Annotation) => void;
+  onEdit: (anno: Annotation) => void;
+  onMakeCard: (anno: Annotation) => void;
+  onClose: () => void;
+}
+
+// The Wisdom Index: a book's annotations by location or by color
+export const AnnotationArchive: React.FC<AnnotationArchiveProps> = ({ annotations, palette, lang, locationLabel, cardAnnoIds, onGoTo, onEdit, onMakeCard, onClose }) => {
+  const t = translations[lang];
+  const [grouping, setGrouping] = useState<'page' | 'color'>('page');
+
+  const sorted = useMemo(
+    () => [...annotations].sort((a, b) => a.pageIndex - b.pageIndex || (a.startOffset || 0) - (b.startOffset || 0)),
+    [annotations]
+  );
+
+  const renderEntry = (anno: Annotation) => (
+    <div key={anno.id} className="p-3.5 bg-white/[0.03] rounded-xl border border-white/5 hover:border-red-600/30 transition-all flex items-start justify-between gap-3">
+      <div className="cursor-pointer flex-1" onClick={() => onGoTo(anno)}>
+        <div className="flex items-center gap-2 mb-1">
+          <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: anno.color }} />
+          <span className="text-[8px] font-black text-red-600 uppercase tracking-widest">{locationLabel} {anno.pageIndex + 1}</span>
+          {anno.chapter && <span className="text-[8px] font-bold text-white/30 truncate">{anno.chapter}</span>}
+        </div>
+        <h4 className="text-[10px] font-black text-white/90 truncate">{anno.title || '...'}</h4>
+        {anno.quote && <p className="text-[9px] italic text-white/40 line-clamp-2 mt-1">“{anno.quote}”</p>}
+      </div>
+      <div className="flex items-center gap-1.5">
+        <button onClick={() => onMakeCard(anno)} title={t.makeCard} className={`p-2 transition-all rounded-lg bg-white/5 ${cardAnnoIds.has(anno.id) ? 'text-red-600' : 'text-white/20 hover:text-white'}`}><Layers size={12} /></button>
+        <button onClick={() => onEdit(anno)} className="p-2 text-white/20 hover:text-white transition-all rounded-lg bg-white/5"><Edit3 size={12} /></button>
+      </div>
+    </div>
+  );
+
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[2000] bg-black/40 backdrop-blur-[40px] p-6 flex items-center justify-center pointer-events-auto">
+       <MotionDiv initial={{ y: 50 }} animate={{ y: 0 }} className="w-full max-w-xl bg-[#0b140b] border border-white/10 rounded-[2.5rem] p-6 max-h-[70vh] overflow-hidden flex flex-col shadow-4xl">
+          <div className="flex justify-between items-center mb-6 shrink-0">
+            <h2 className="text-lg font-black italic uppercase tracking-tighter text-white/60">{t.wisdomIndex}</h2>
+            <div className="flex items-center gap-1 ms-auto me-3 bg-white/5 p-1 rounded-full">
+              {(['page', 'color'] as const).map(mode => (
+                <button key={mode} onClick={() => setGrouping(mode)} className={`px-3 py-1 rounded-full text-[8px] font-black uppercase tracking-widest transition-all ${grouping === mode ? 'bg-white text-black' : 'text-white/40 hover:text-white'}`}>{mode === 'page' ? t.byLocation : t.byColor}</button>
+              ))}
+            </div>
+            <button onClick={onClose} className="hover:text-red-600 transition-colors p-1.5 bg-white/5 rounded-full"><X size={16}/></button>
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scroll space-y-2 pr-1">
+            {annotations.length === 0 ? <p className="text-center opacity-20 py-20 uppercase font-black tracking-widest text-xs">{t.noAnnotations}</p>
+              : grouping === 'color'
+                ? paletteUtils.groupByColor(sorted, palette).map(group => (
+                  <div key={group.hex} className="space-y-2">
+                    <ColorGroupHeading group={group} />
+                    {group.annotations.map(renderEntry)}
+                  </div>
+                ))
+                : sorted.map(renderEntry)}
+          </div>
+       </MotionDiv>
+    </MotionDiv>
+  );
+};
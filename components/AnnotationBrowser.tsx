@@ -0,0 +1,200 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { AnnotationType, Book, Language, ReaderTarget, ShelfData } from '../types';
+import { translations } from '../i18n/translations';
+import { annotationIndex, AnnotationEntry, AnnotationFilter, EMPTY_ANNOTATION_FILTER } from '../services/annotationIndex';
+import { createAnnotationThumbnails, AnnotationThumbnails } from '../services/annotationThumbnails';
+import { palette as paletteUtils } from '../services/palette';
+import { storageService } from '../services/storageService';
+import { ChevronLeft, Highlighter, Search, X, MessageSquare, Calendar, Library, BookOpen } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+// Cards are added in batches so large libraries stay responsive
+const BATCH_SIZE = 60;
+const TYPES: (AnnotationType | 'all')[] = ['all', 'highlight', 'underline', 'box', 'note', 'ink', 'arrow', 'circle'];
+
+interface AnnotationBrowserProps {
+  books: Book[];
+  shelves: ShelfData[];
+  lang: Language;
+  onBack: () => void;
+  onOpen: (book: Book, target: ReaderTarget) => void;
+}
+
+// Renders once the card scrolls into view, since each thumbnail renders a PDF page
+const Thumbnail: React.FC<{ entry: AnnotationEntry; thumbnails: AnnotationThumbnails }> = ({ entry, thumbnails }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    let cancelled = false;
+    const observer = new IntersectionObserver(([item]) => {
+      if (!item.isIntersecting) return;
+      observer.disconnect();
+      thumbnails.get(entry.book, entry.annotation).then(url => { if (!cancelled) setSrc(url); });
+    }, { rootMargin: '200px' });
+    observer.observe(el);
+    return () => { cancelled = true; observer.disconnect(); };
+  }, [entry, thumbnails]);
+
+  return (
+    <div ref={ref} className="h-24 rounded-xl overflow-hidden bg-white/5 border-2 flex items-center justify-center" style={{ borderColor: `${entry.annotation.color}66` }}>
+      {src ? <img src={src} alt="" className="w-full h-full object-cover object-center bg-white" /> : <Highlighter size={18} style={{ color: entry.annotation.color }} className="opacity-40" />}
+    </div>
+  );
+};
+
+export const AnnotationBrowser: React.FC<AnnotationBrowserProps> = ({ books, shelves, lang, onBack, onOpen }) => {
+  const t = translations[lang];
+  const isRTL = lang === 'ar';
+  const [filter, setFilter] = useState<AnnotationFilter>(EMPTY_ANNOTATION_FILTER);
+  const [visibleCount, setVisibleCount] = useState(BATCH_SIZE);
+  const [thumbnails, setThumbnails] = useState<AnnotationThumbnails | null>(null);
+  const [palette] = useState(() => storageService.getSettings().palette);
+
+  useEffect(() => {
+    const created = createAnnotationThumbnails();
+    setThumbnails(created);
+    return () => created.destroy();
+  }, []);
+
+  const entries = useMemo(() => annotationIndex.entries(books), [books]);
+  const colors = useMemo(() => annotationIndex.colorsOf(entries, palette), [entries, palette]);
+  const annotatedBooks = useMemo(() => books.filter(b => b.annotations?.length).sort((a, b) => a.title.localeCompare(b.title)), [books]);
+  const results = useMemo(() => annotationIndex.filter(entries, filter, shelves), [entries, filter, shelves]);
+  const isFiltered = JSON.stringify(filter) !== JSON.stringify(EMPTY_ANNOTATION_FILTER);
+
+  const update = (updates: Partial<AnnotationFilter>) => {
+    setFilter(prev => ({ ...prev, ...updates }));
+    setVisibleCount(BATCH_SIZE);
+  };
+
+  const toggleColor = (color: string) => update({ colors: filter.colors.includes(color) ? filter.colors.filter(c => c !== color) : [...filter.colors, color] });
+
+  const locationOf = ({ book, annotation }: AnnotationEntry) => {
+    const isPdf = !book.format || book.format === 'pdf';
+    if (!isPdf) return annotation.chapter || `${t.chapter} ${annotation.pageIndex + 1}`;
+    return `${t.page} ${annotation.pageIndex + 1}${annotation.chapter ? ` · ${annotation.chapter}` : ''}`;
+  };
+
+  const selectClass = 'bg-white/5 border border-white/10 rounded-full px-4 py-2.5 text-[9px] font-black uppercase tracking-widest text-white/60 outline-none cursor-pointer';
+  const dateClass = 'bg-transparent text-[10px] font-bold text-white/60 outline-none [color-scheme:dark]';
+
+  return (
+    <div className="min-h-[80vh] py-12 px-4 md:px-8 pt-24 md:pt-28">
+      <header className="flex items-center justify-between mb-10">
+        <button onClick={onBack} className="p-2 hover:text-[#ff0000] transition-colors flex items-center gap-2">
+          <ChevronLeft className={isRTL ? 'rotate-180' : ''} />
+          <span className="font-bold text-sm tracking-widest uppercase">{t.backToShelf}</span>
+        </button>
+        <h2 className="text-3xl font-black italic uppercase tracking-tighter flex items-center gap-3">
+          <Highlighter className="text-[#ff0000]" />
+          {t.annotationsView}
+        </h2>
+      </header>
+
+      {entries.length > 0 && (
+        <div className="space-y-4 mb-10 p-6 bg-white/[0.02] border border-white/10 rounded-[2rem]">
+          <div className="flex items-center gap-3 bg-white/5 border border-white/10 rounded-2xl px-4 focus-within:border-[#ff0000]/50">
+            <Search size={14} className="text-white/30 shrink-0" />
+            <input type="text" value={filter.query} onChange={e => update({ query: e.target.value })} placeholder={t.searchAnnotations} className="flex-1 bg-transparent py-3.5 text-xs font-bold text-white outline-none" />
+            {filter.query && <button onClick={() => update({ query: '' })} className="text-white/30 hover:text-white"><X size={14} /></button>}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex items-center gap-1 bg-black/40 p-1 rounded-full border border-white/10">
+              {TYPES.map(type => (
+                <button key={type} onClick={() => update({ type })} className={`px-3 py-1.5 rounded-full text-[8px] md:text-[9px] font-black uppercase tracking-widest transition-all ${filter.type === type ? 'bg-white text-black' : 'text-white/40 hover:text-white'}`}>
+                  {type === 'all' ? t.allBooks : t[`kind_${type}`]}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1.5 px-2">
+              {colors.map(color => (
+                <button key={color} onClick={() => toggleColor(color)} className={`w-6 h-6 rounded-full border-2 transition-all ${filter.colors.includes(color) ? 'border-white scale-110' : 'border-transparent opacity-60 hover:opacity-100'}`} style={{ backgroundColor: color }} title={paletteUtils.labelFor(palette, color)} />
+              ))}
+            </div>
+            <button onClick={() => update({ hasNote: !filter.hasNote })} className={`px-4 py-2.5 rounded-full border text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-2 ${filter.hasNote ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'}`}>
+              <MessageSquare size={11} />{t.withNotes}
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2">
+              <Library size={12} className="text-white/30" />
+              <select value={filter.shelfId || ''} onChange={e => update({ shelfId: e.target.value || null })} className={selectClass}>
+                <option value="" className="bg-[#0b140b]">{t.allShelves}</option>
+                {shelves.map(s => <option key={s.id} value={s.id} className="bg-[#0b140b]">{s.name}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 min-w-0">
+              <BookOpen size={12} className="text-white/30" />
+              <select value={filter.bookId || ''} onChange={e => update({ bookId: e.target.value || null })} className={`${selectClass} max-w-[220px] truncate`}>
+                <option value="" className="bg-[#0b140b]">{t.allManuscripts}</option>
+                {annotatedBooks.map(b => <option key={b.id} value={b.id} className="bg-[#0b140b]">{b.title}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center gap-2 bg-white/5 border border-white/10 rounded-full px-4 py-2">
+              <Calendar size={12} className="text-white/30" />
+              <input type="date" value={filter.from || ''} max={filter.to || undefined} onChange={e => update({ from: e.target.value || null })} className={dateClass} aria-label={t.fromDate} />
+              <span className="text-white/20">–</span>
+              <input type="date" value={filter.to || ''} min={filter.from || undefined} onChange={e => update({ to: e.target.value || null })} className={dateClass} aria-label={t.toDate} />
+            </div>
+            {isFiltered && (
+              <button onClick={() => update(EMPTY_ANNOTATION_FILTER)} className="px-4 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest text-[#ff0000] hover:bg-[#ff0000]/10 transition-all">{t.clearFilters}</button>
+            )}
+            <span className="ms-auto text-[9px] font-black uppercase tracking-widest text-white/30">{results.length} / {entries.length}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {results.length === 0 ? (
+          <div className="col-span-full text-center py-20 opacity-30">
+            <Highlighter size={64} className="mx-auto mb-4" />
+            <p className="text-xl">{entries.length === 0 ? t.annotationsEmpty : t.noAnnotationMatches}</p>
+          </div>
+        ) : (
+          results.slice(0, visibleCount).map((entry, idx) => {
+            const { book, annotation: anno } = entry;
+            const note = annotationIndex.noteOf(anno);
+            return (
+              <MotionDiv
+                key={`${book.id}-${anno.id}`}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(idx % BATCH_SIZE, 10) * 0.05 }}
+                onClick={() => onOpen(book, { pageIndex: anno.pageIndex, annotationId: anno.id })}
+                className={`group cursor-pointer bg-[#001a00] border border-white/10 rounded-2xl p-4 flex flex-col gap-3 hover:border-[#ff0000]/40 transition-all ${isRTL ? 'text-right' : 'text-left'}`}
+              >
+                {!book.format || book.format === 'pdf'
+                  ? thumbnails && <Thumbnail entry={entry} thumbnails={thumbnails} />
+                  : anno.quote && <p className="text-sm italic text-white/70 line-clamp-3 ps-3 border-s-2" style={{ borderColor: anno.color }}>“{anno.quote}”</p>}
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: anno.color }} title={paletteUtils.labelFor(palette, anno.color)} />
+                  <span className="text-[8px] font-black uppercase tracking-widest text-[#ff0000] shrink-0">{t[`kind_${anno.type || 'note'}`]}</span>
+                  <span className="text-[8px] font-bold uppercase tracking-widest text-white/30 truncate">{locationOf(entry)}</span>
+                </div>
+                {anno.title && <h4 className="text-sm font-black text-white truncate">{anno.title}</h4>}
+                {note && <p className="text-xs text-white/50 line-clamp-3 whitespace-pre-wrap">{note}</p>}
+                <div className="flex items-center justify-between gap-3 mt-auto pt-3 border-t border-white/5 text-[9px] font-bold text-white/30">
+                  <span className="truncate">{book.title}</span>
+                  <span className="shrink-0">{anno.timestamp ? new Date(anno.timestamp).toLocaleDateString(isRTL ? 'ar' : undefined) : t.undated}</span>
+                </div>
+              </MotionDiv>
+            );
+          })
+        )}
+      </div>
+
+      {results.length > visibleCount && (
+        <button onClick={() => setVisibleCount(n => n + BATCH_SIZE)} className="mx-auto mt-8 block px-8 py-4 rounded-full bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-[0.3em] text-white/60 hover:bg-white hover:text-black transition-all">
+          {t.showMore}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Annotation, Language, PaletteColor } from '../types';
+import { translations } from '../i18n/translations';
+import { Highlighter, X, Trash2, Layers, Check } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+interface AnnotationEditorProps {
+  annotation: Annotation;
+  palette: PaletteColor[];
+  lang: Language;
+  hasCard: boolean;
+  // Direction of the book's text, for the quoted passage
+  quoteDirection?: 'ltr' | 'rtl';
+  onChange: (updates: Partial<Annotation>) => void;
+  onDelete: () => void;
+  onMakeCard: () => void;
+  onClose: () => void;
+  // Controls only some annotations have, shown under the colors
+  children?: React.ReactNode;
+}
+
+export const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ annotation, palette, lang, hasCard, quoteDirection, onChange, onDelete, onMakeCard, onClose, children }) => {
+  const t = translations[lang];
+  const isRTL = lang === 'ar';
+
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[4000] bg-black/60 backdrop-blur-xl flex items-center justify-center p-6 pointer-events-auto">
+      <MotionDiv initial={{ scale: 0.95, y: 20 }} animate={{ scale: 1, y: 0 }} className="bg-black/40 backdrop-blur-2xl border border-white/10 p-5 rounded-[2rem] w-full max-w-[300px] shadow-5xl flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+           <div className="flex items-center gap-2">
+              <div className="p-2 rounded-xl bg-white/5 border border-white/10" style={{ color: annotation.color }}><Highlighter size={16} /></div>
+              <h3 className="text-xs font-black uppercase text-white/90">{isRTL ? 'بيانات التعديل' : 'Modification Details'}</h3>
+           </div>
+           <button onClick={onClose} className="p-1.5 rounded-full bg-white/5 text-white/30 hover:text-white"><X size={14}/></button>
+        </div>
+        <div className="space-y-3 flex-1 overflow-y-auto no-scrollbar pr-1">
+          {annotation.quote && <p className="text-[10px] italic text-white/50 line-clamp-3" dir={quoteDirection}>“{annotation.quote}”</p>}
+          <input type="text" value={annotation.title || ''} onChange={(e) => onChange({ title: e.target.value })} className="w-full bg-white/5 border border-white/10 rounded-xl p-2.5 text-[10px] font-bold text-white outline-none focus:border-red-600/50" placeholder={isRTL ? 'عنوان التعديل...' : 'Entry Title...'} />
+          <textarea value={annotation.text || ''} onChange={(e) => onChange({ text: e.target.value })} className="w-full bg-white/5 border border-white/10 rounded-xl p-2.5 text-[10px] font-bold text-white outline-none focus:border-red-600/50 min-h-[70px] resize-none" placeholder={isRTL ? 'ملاحظات استخلاص الحكمة...' : 'Wisdom Notes...'} />
+          <div className="flex flex-wrap gap-1.5">{palette.map(c => (<button key={c.hex} onClick={() => onChange({ color: c.hex })} title={c.label} className={`w-5 h-5 rounded-full border transition-all ${annotation.color === c.hex ? 'border-white scale-110 shadow-[0_0_8px_white]' : 'border-transparent opacity-60'}`} style={{ backgroundColor: c.hex }} />))}</div>
+          {children}
+        </div>
+        <div className="flex gap-2 mt-4 pt-3 border-t border-white/5">
+          <button onClick={onDelete} className="w-9 h-9 bg-red-600/10 border border-red-600/20 text-red-600 rounded-lg flex items-center justify-center hover:bg-red-600 hover:text-white transition-all"><Trash2 size={14}/></button>
+          <button onClick={onMakeCard} title={t.makeCard} className={`w-9 h-9 border rounded-lg flex items-center justify-center transition-all ${hasCard ? 'bg-white/10 border-white/20 text-red-600' : 'bg-white/5 border-white/10 text-white/40 hover:bg-white hover:text-black'}`}><Layers size={14}/></button>
+          <button onClick={onClose} className="flex-1 bg-white text-black py-2 rounded-lg font-black uppercase text-[8px] tracking-widest hover:bg-red-600 hover:text-white transition-all flex items-center justify-center gap-2"><Check size={12}/>{isRTL ? 'حفظ بالفهرس' : 'Save to Index'}</button>
+        </div>
+      </MotionDiv>
+    </MotionDiv>
+  );
+};
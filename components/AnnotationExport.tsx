@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Book, Language } from '../types';
+import { translations } from '../i18n/translations';
+import { annotationExport, MarkdownGrouping } from '../services/annotationExport';
+import { storageService } from '../services/storageService';
+import { FileText, Braces, FileDown, Loader2, LucideIcon } from 'lucide-react';
+
+type ExportFormat = 'md' | 'json' | 'pdf';
+
+interface AnnotationExportProps {
+  books: Book[];
+  lang: Language;
+  // Library exports are named by date; a single book's by its title
+  isLibrary?: boolean;
+}
+
+export const AnnotationExport: React.FC<AnnotationExportProps> = ({ books, lang, isLibrary }) => {
+  const t = translations[lang];
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [groupBy, setGroupBy] = useState<MarkdownGrouping>('location');
+  const hasAnnotations = books.some(book => book.annotations?.length);
+  // Annotations can only be written back into PDF files
+  const pdfBook = !isLibrary && books.length === 1 && (!books[0].format || books[0].format === 'pdf') ? books[0] : null;
+  const fileName = (extension: string) => isLibrary ? annotationExport.libraryFileName(extension) : annotationExport.bookFileName(books[0], extension);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(format);
+    const { palette } = storageService.getSettings();
+    try {
+      if (format === 'md') {
+        const markdown = annotationExport.toMarkdown(books, {
+          page: t.page,
+          chapter: t.chapter,
+          kinds: {
+            highlight: t.kind_highlight, underline: t.kind_underline, box: t.kind_box, note: t.kind_note,
+            ink: t.kind_ink, arrow: t.kind_arrow, circle: t.kind_circle
+          }
+        }, palette, groupBy);
+        annotationExport.download(markdown, 'text/markdown', fileName('md'));
+      } else if (format === 'json') {
+        annotationExport.download(annotationExport.toJson(books, palette), 'application/json', fileName('json'));
+      } else if (pdfBook) {
+        annotationExport.download(await annotationExport.toAnnotatedPdf(pdfBook, palette), 'application/pdf', fileName('pdf'));
+      }
+    } catch (err) {
+      console.error('Annotation export failed:', err);
+      alert(err instanceof Error ? `${t.annotationExportFailed}: ${err.message}` : t.annotationExportFailed);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const options: { format: ExportFormat; icon: LucideIcon; label: string }[] = [
+    { format: 'md', icon: FileText, label: t.exportMarkdown },
+    { format: 'json', icon: Braces, label: t.exportJson }
+  ];
+  if (pdfBook) options.push({ format: 'pdf', icon: FileDown, label: t.exportAnnotatedPdf });
+
+  return (
+    <div className="space-y-2">
+      {/* Applies to the Markdown export; JSON and PDF keep every color's label */}
+      <div className="flex items-center gap-1 bg-black/40 p-1 rounded-full border border-white/10">
+        {(['location', 'color'] as MarkdownGrouping[]).map(mode => (
+          <button key={mode} onClick={() => setGroupBy(mode)} className={`flex-1 py-1.5 rounded-full text-[8px] font-black uppercase tracking-widest transition-all ${groupBy === mode ? 'bg-white text-black' : 'text-white/40 hover:text-white'}`}>
+            {mode === 'location' ? t.byLocation : t.byColor}
+          </button>
+        ))}
+      </div>
+      <div className={`grid gap-2 ${options.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+        {options.map(({ format, icon: Icon, label }) => (
+          <button key={format} onClick={() => handleExport(format)} disabled={!hasAnnotations || !!busy} className="p-3 rounded-2xl bg-white/5 border border-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-2 text-[9px] font-black uppercase tracking-widest disabled:opacity-30">
+            {busy === format ? <Loader2 size={14} className="animate-spin" /> : <Icon size={14} />}{label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
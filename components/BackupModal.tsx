@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Language } from '../types';
+import { translations } from '../i18n/translations';
+import { backupService, LibraryBackup, RestoreMode, RestoreReport, BookRestoreStatus } from '../services/backupService';
+import { X, Archive, Loader2, GitMerge, RefreshCcw, AlertTriangle, Check } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+interface BackupModalProps {
+  backup: LibraryBackup;
+  lang: Language;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const STATUS_STYLES: Record<BookRestoreStatus, string> = {
+  added: 'text-emerald-500 bg-emerald-500/10 border-emerald-500/20',
+  replaced: 'text-blue-500 bg-blue-500/10 border-blue-500/20',
+  merged: 'text-orange-500 bg-orange-500/10 border-orange-500/20',
+  unchanged: 'text-white/30 bg-white/5 border-white/10'
+};
+
+export const BackupModal: React.FC<BackupModalProps> = ({ backup, lang, onClose, onRestored }) => {
+  const t = translations[lang];
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const { manifest } = backup;
+
+  const statusLabel: Record<BookRestoreStatus, string> = {
+    added: t.statusAdded,
+    replaced: t.statusReplaced,
+    merged: t.statusMerged,
+    unchanged: t.statusUnchanged
+  };
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      const result = await backupService.restore(backup, mode);
+      setReport(result);
+      onRestored();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : t.archiveInvalid);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] flex items-center justify-center p-6 bg-black/95 backdrop-blur-2xl">
+      <MotionDiv initial={{ scale: 0.95 }} animate={{ scale: 1 }} className="bg-[#0b140b] border border-white/10 p-8 md:p-10 rounded-[2.5rem] md:rounded-[3rem] w-full max-w-lg shadow-2xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between mb-6 shrink-0">
+          <h3 className="text-xl md:text-2xl font-black uppercase italic text-white flex items-center gap-3"><Archive className="text-[#ff0000]" size={22} />{report ? t.restoreReport : t.restoreLibrary}</h3>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/30 hover:text-white transition-colors"><X size={16} /></button>
+        </div>
+
+        {!report ? (
+          <div className="space-y-6">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-white/40">
+              {t.archiveSummary
+                .replace('{books}', String(manifest.books.length))
+                .replace('{cards}', String(manifest.cards?.length || 0))
+                .replace('{date}', new Date(manifest.exportedAt).toLocaleDateString())}
+            </p>
+            <div className="grid gap-3">
+              {([['merge', GitMerge, t.mergeMode, t.mergeHint], ['replace', RefreshCcw, t.replaceMode, t.replaceHint]] as const).map(([id, Icon, label, hint]) => (
+                <button key={id} onClick={() => setMode(id)} className={`p-4 rounded-2xl border text-start flex items-start gap-4 transition-all ${mode === id ? 'bg-[#ff0000]/10 border-[#ff0000]/40' : 'bg-white/5 border-white/5 hover:bg-white/10'}`}>
+                  <Icon size={18} className={mode === id ? 'text-[#ff0000]' : 'text-white/30'} />
+                  <div className="flex flex-col gap-1">
+                    <span className="text-xs font-black uppercase tracking-widest text-white">{label}</span>
+                    <span className="text-[10px] font-bold text-white/40 leading-relaxed">{hint}</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+            <button onClick={handleRestore} disabled={isRestoring} className="w-full bg-[#ff0000] py-4 md:py-5 rounded-[1.5rem] font-black text-[10px] uppercase tracking-[0.3em] shadow-2xl text-white flex items-center justify-center gap-3 disabled:opacity-50">
+              {isRestoring ? <Loader2 size={16} className="animate-spin" /> : <Check size={16} />}{t.restoreLibrary}
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto custom-scroll space-y-2 pr-1">
+              {report.books.map(result => (
+                <div key={result.bookId} className="p-3 rounded-xl bg-white/[0.03] border border-white/5 flex items-center justify-between gap-3">
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-[11px] font-black text-white/90 truncate">{result.title}</span>
+                    <div className="flex items-center gap-3 text-[8px] font-black uppercase tracking-widest text-white/30">
+                      {result.annotationsAdded > 0 && <span>{t.annotationsAdded.replace('{count}', String(result.annotationsAdded))}</span>}
+                      {result.fileMissing && <span className="text-red-600 flex items-center gap-1"><AlertTriangle size={10} />{t.fileMissing}</span>}
+                    </div>
+                  </div>
+                  <span className={`shrink-0 px-3 py-1 rounded-full border text-[8px] font-black uppercase tracking-widest ${STATUS_STYLES[result.status]}`}>{statusLabel[result.status]}</span>
+                </div>
+              ))}
+            </div>
+            <button onClick={onClose} className="mt-6 w-full bg-white text-black py-4 rounded-[1.5rem] font-black text-[10px] uppercase tracking-[0.3em] hover:bg-[#ff0000] hover:text-white transition-all shrink-0">{t.done}</button>
+          </>
+        )}
+      </MotionDiv>
+    </MotionDiv>
+  );
+};
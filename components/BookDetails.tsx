@@ -0,0 +1,223 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Book, Language, ReadingStatus, ShelfData } from '../types';
+import { translations } from '../i18n/translations';
+import { storageService } from '../services/storageService';
+import { pdfMetadata } from '../services/pdfMetadata';
+import { dateUtils } from '../services/dateUtils';
+import { bookProgress } from '../services/bookProgress';
+import { drawing } from '../services/drawing';
+import { STATUS_COLORS } from './Shelf';
+import { AnnotationExport } from './AnnotationExport';
+import { X, BookOpen, ImagePlus, Copy, RotateCcw, Trash2, Check, Loader2, Clock, Star, Highlighter, Layers } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+export type BookDetailsUpdate = Pick<Book, 'title' | 'author' | 'subject' | 'cover' | 'shelfId' | 'tags' | 'status'>;
+
+interface BookDetailsProps {
+  book: Book;
+  shelves: ShelfData[];
+  lang: Language;
+  onClose: () => void;
+  onSave: (updates: BookDetailsUpdate) => void;
+  onDuplicate: () => Promise<void>;
+  onResetStats: () => void;
+  onDelete: () => void;
+}
+
+const STATUSES: ReadingStatus[] = ['toRead', 'reading', 'finished', 'abandoned'];
+
+const formatMinutes = (seconds: number, lang: Language) => {
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}${lang === 'ar' ? 'د' : 'm'}`;
+  return `${Math.floor(minutes / 60)}${lang === 'ar' ? 'س' : 'h'} ${minutes % 60}${lang === 'ar' ? 'د' : 'm'}`;
+};
+
+export const BookDetails: React.FC<BookDetailsProps> = ({ book, shelves, lang, onClose, onSave, onDuplicate, onResetStats, onDelete }) => {
+  const t = translations[lang];
+  const [draft, setDraft] = useState<BookDetailsUpdate>({ title: book.title, author: book.author, subject: book.subject || '', cover: book.cover, shelfId: book.shelfId, status: book.status });
+  const [tags, setTags] = useState((book.tags || []).join(', '));
+  const [confirmReset, setConfirmReset] = useState(false);
+  const [isDuplicating, setIsDuplicating] = useState(false);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  const stats = useMemo(() => {
+    const sessions = storageService.getSessions(book.id);
+    const annotations = book.annotations || [];
+    const byType = (type: string) => annotations.filter(a => (a.type || 'note') === type).length;
+    return {
+      sessions: sessions.length,
+      averageSeconds: sessions.length ? sessions.reduce((sum, s) => sum + s.activeSeconds, 0) / sessions.length : 0,
+      cards: storageService.getCards().filter(c => c.bookId === book.id).length,
+      annotations: annotations.length,
+      highlights: byType('highlight'),
+      underlines: byType('underline'),
+      boxes: byType('box'),
+      notes: byType('note'),
+      // Ink, arrows and circles share one count
+      drawings: annotations.filter(a => drawing.isDrawingType(a.type)).length
+    };
+  }, [book]);
+
+  const parsedTags = Array.from(new Set(tags.split(',').map(tag => tag.trim()).filter(Boolean)));
+  const isDirty = draft.title !== book.title || draft.author !== book.author || draft.subject !== (book.subject || '')
+    || draft.cover !== book.cover || draft.shelfId !== book.shelfId || draft.status !== book.status || parsedTags.join(',') !== (book.tags || []).join(',');
+  const isPdf = !book.format || book.format === 'pdf';
+  const percent = bookProgress.percent(book);
+  const todaySeconds = book.lastReadDate === dateUtils.today() ? book.dailyTimeSeconds : 0;
+
+  const handleCoverChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const cover = await pdfMetadata.coverFromImage(file);
+      setDraft(prev => ({ ...prev, cover }));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleSave = () => {
+    onSave({ ...draft, title: draft.title.trim() || book.title, author: draft.author.trim() || book.author, subject: draft.subject?.trim() || undefined, tags: parsedTags.length ? parsedTags : undefined });
+  };
+
+  const handleDuplicate = async () => {
+    setIsDuplicating(true);
+    try {
+      await onDuplicate();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsDuplicating(false);
+    }
+  };
+
+  const statTiles = [
+    { icon: Clock, label: t.cumulativeTime, value: formatMinutes(book.timeSpentSeconds, lang) },
+    { icon: Clock, label: t.todayFocus, value: formatMinutes(todaySeconds, lang) },
+    { icon: Star, label: t.stars, value: String(book.stars || 0) },
+    { icon: Highlighter, label: t.annotationCount, value: String(stats.annotations) },
+    { icon: Layers, label: t.totalCards, value: String(stats.cards) },
+    { icon: BookOpen, label: t.sessionCount, value: stats.sessions ? `${stats.sessions} · ${formatMinutes(stats.averageSeconds, lang)}` : '0' }
+  ];
+
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] flex items-center justify-center p-0 md:p-6 bg-black/95 backdrop-blur-2xl">
+      <MotionDiv initial={{ scale: 0.95, y: 30 }} animate={{ scale: 1, y: 0 }} className="bg-[#0b140b] border border-white/10 p-8 md:p-10 rounded-none md:rounded-[3rem] w-full max-w-2xl h-screen md:h-auto md:max-h-[90vh] shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between mb-6 shrink-0">
+          <h3 className="text-xl md:text-2xl font-black uppercase italic text-white flex items-center gap-3"><BookOpen className="text-[#ff0000]" size={22} />{t.bookDetails}</h3>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/30 hover:text-white transition-colors"><X size={16} /></button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto custom-scroll space-y-8 pr-1">
+          <div className="flex flex-col sm:flex-row gap-6">
+            <input type="file" ref={coverInputRef} onChange={handleCoverChange} className="hidden" accept="image/*" />
+            <button onClick={() => coverInputRef.current?.click()} title={t.replaceCover} className="relative w-32 aspect-[2/3] rounded-2xl overflow-hidden border border-white/10 bg-white/5 shrink-0 self-center sm:self-start group">
+              {draft.cover
+                ? <img src={draft.cover} alt="" className="w-full h-full object-cover" />
+                : <div className="w-full h-full bg-gradient-to-br from-[#1a0000] via-[#0b140b] to-black" />}
+              <span className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity text-[8px] font-black uppercase tracking-widest text-white"><ImagePlus size={18} />{t.replaceCover}</span>
+            </button>
+            <div className="flex-1 min-w-0 space-y-3">
+              {([['title', t.bookTitle], ['author', t.author], ['subject', t.subject]] as const).map(([field, label]) => (
+                <label key={field} className="block space-y-1">
+                  <span className="text-[8px] font-black uppercase tracking-widest text-white/30">{label}</span>
+                  <input type="text" value={draft[field] || ''} onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))} className="w-full bg-white/5 border border-white/10 rounded-xl p-3 text-xs font-bold text-white outline-none focus:border-[#ff0000]/50" />
+                </label>
+              ))}
+              <label className="block space-y-1">
+                <span className="text-[8px] font-black uppercase tracking-widest text-white/30">{t.tags}</span>
+                <input type="text" value={tags} onChange={(e) => setTags(e.target.value)} placeholder={t.tagsHint} className="w-full bg-white/5 border border-white/10 rounded-xl p-3 text-xs font-bold text-white outline-none focus:border-[#ff0000]/50" />
+              </label>
+              <label className="block space-y-1">
+                <span className="text-[8px] font-black uppercase tracking-widest text-white/30">{t.shelf}</span>
+                <select value={draft.shelfId} onChange={(e) => setDraft(prev => ({ ...prev, shelfId: e.target.value }))} className="w-full bg-white/5 border border-white/10 rounded-xl p-3 text-xs font-bold text-white outline-none focus:border-[#ff0000]/50">
+                  {shelves.map(s => <option key={s.id} value={s.id} className="bg-[#0b140b]">{s.name}</option>)}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <section className="space-y-2">
+            <span className="text-[9px] font-black uppercase tracking-widest text-white/30">{t.readingStatus}</span>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-1.5">
+              <button onClick={() => setDraft(prev => ({ ...prev, status: undefined }))} className={`py-2.5 rounded-xl border text-[8px] font-black uppercase tracking-widest transition-all ${!draft.status ? 'bg-white text-black border-white' : 'bg-white/5 border-white/5 text-white/40 hover:bg-white/10'}`}>
+                {t.statusAuto.replace('{status}', t[`status_${bookProgress.status({ ...book, status: undefined })}`])}
+              </button>
+              {STATUSES.map(status => (
+                <button key={status} onClick={() => setDraft(prev => ({ ...prev, status }))} className={`py-2.5 rounded-xl border text-[8px] font-black uppercase tracking-widest transition-all flex items-center justify-center gap-1.5 ${draft.status === status ? 'bg-white text-black border-white' : 'bg-white/5 border-white/5 text-white/40 hover:bg-white/10'}`}>
+                  <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: STATUS_COLORS[status] }} />{t[`status_${status}`]}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-[9px] font-black uppercase tracking-widest text-white/30">{t.stats}</span>
+              <span className="text-[9px] font-bold uppercase tracking-widest text-white/30">
+                {isPdf
+                  ? `${t.page} ${book.lastPage + 1}${book.pageCount ? ` / ${book.pageCount}` : ''}`
+                  : `${t.chapter} ${book.lastPage + 1}${book.chapterCount ? ` / ${book.chapterCount}` : ''}`}
+                {percent !== null && ` · ${percent}%`}
+              </span>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+              {statTiles.map(({ icon: Icon, label, value }) => (
+                <div key={label} className="p-3 rounded-2xl bg-white/[0.03] border border-white/5 space-y-1">
+                  <div className="flex items-center gap-2 text-white/30"><Icon size={10} /><span className="text-[7px] font-black uppercase tracking-widest truncate">{label}</span></div>
+                  <p className="text-sm font-black text-white">{value}</p>
+                </div>
+              ))}
+            </div>
+            {stats.annotations > 0 && (
+              <p className="text-[9px] font-bold uppercase tracking-widest text-white/30">
+                {t.annotationBreakdown
+                  .replace('{highlights}', String(stats.highlights))
+                  .replace('{underlines}', String(stats.underlines))
+                  .replace('{boxes}', String(stats.boxes))
+                  .replace('{notes}', String(stats.notes))
+                  .replace('{drawings}', String(stats.drawings))}
+              </p>
+            )}
+            <p className="text-[9px] font-bold uppercase tracking-widest text-white/20">
+              {t.addedOn.replace('{date}', new Date(book.addedAt).toLocaleDateString(lang === 'ar' ? 'ar' : undefined))}
+              {book.lastReadAt ? ` · ${t.lastReadOn.replace('{date}', new Date(book.lastReadAt).toLocaleDateString(lang === 'ar' ? 'ar' : undefined))}` : ''}
+            </p>
+          </section>
+
+          {stats.annotations > 0 && (
+            <section className="space-y-2">
+              <span className="text-[9px] font-black uppercase tracking-widest text-white/30">{t.exportAnnotations}</span>
+              <AnnotationExport books={[book]} lang={lang} />
+            </section>
+          )}
+
+          <section className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <button onClick={handleDuplicate} disabled={isDuplicating} className="p-3 rounded-2xl bg-white/5 border border-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-2 text-[9px] font-black uppercase tracking-widest disabled:opacity-40">
+              {isDuplicating ? <Loader2 size={14} className="animate-spin" /> : <Copy size={14} />}{t.duplicateBook}
+            </button>
+            {confirmReset ? (
+              <button onClick={() => { onResetStats(); setConfirmReset(false); }} className="p-3 rounded-2xl bg-orange-500/20 border border-orange-500/40 text-orange-400 hover:bg-orange-500 hover:text-white transition-all flex items-center justify-center gap-2 text-[9px] font-black uppercase tracking-widest">
+                <RotateCcw size={14} />{t.confirmResetStats}
+              </button>
+            ) : (
+              <button onClick={() => setConfirmReset(true)} className="p-3 rounded-2xl bg-white/5 border border-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-2 text-[9px] font-black uppercase tracking-widest">
+                <RotateCcw size={14} />{t.resetStats}
+              </button>
+            )}
+            <button onClick={onDelete} className="p-3 rounded-2xl bg-red-600/10 border border-red-600/20 text-red-500 hover:bg-red-600 hover:text-white transition-all flex items-center justify-center gap-2 text-[9px] font-black uppercase tracking-widest">
+              <Trash2 size={14} />{t.deleteBook}
+            </button>
+          </section>
+        </div>
+
+        <button onClick={handleSave} disabled={!isDirty} className="w-full mt-6 bg-[#ff0000] py-4 md:py-5 rounded-[1.5rem] font-black text-[10px] uppercase tracking-[0.3em] shadow-2xl text-white flex items-center justify-center gap-3 disabled:opacity-30 shrink-0">
+          <Check size={16} />{t.saveChanges}
+        </button>
+      </MotionDiv>
+    </MotionDiv>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { Book, Language, ShelfData } from '../types';
+import { translations } from '../i18n/translations';
+import { pdfMetadata } from '../services/pdfMetadata';
+import { createImportQueue, importReadyItems, collectDroppedFiles, ImportItem, ImportQueue, ImportFailure, MAX_IMPORT_MB } from '../services/importQueue';
+import { X, Upload, FolderOpen, Loader2, BookOpen, Trash2, ImagePlus, AlertTriangle, Copy, Check } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+interface BookImportProps {
+  shelves: ShelfData[];
+  activeShelfId: string;
+  lang: Language;
+  onClose: () => void;
+  onImport: (books: Book[]) => void;
+}
+
+const ACCEPT = '.pdf,.epub,.txt,.md,.markdown,application/pdf,application/epub+zip,text/plain,text/markdown';
+
+export const BookImport: React.FC<BookImportProps> = ({ shelves, activeShelfId, lang, onClose, onImport }) => {
+  const t = translations[lang];
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const queueRef = useRef<ImportQueue | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+  const coverTargetRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const queue = createImportQueue(setItems);
+    queueRef.current = queue;
+    // React has no prop for folder pickers
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+    return () => { queue.destroy(); queueRef.current = null; };
+  }, []);
+
+  const failureLabel: Record<ImportFailure, string> = {
+    unsupported: t.unsupportedFile,
+    encrypted: t.importEncrypted,
+    corrupt: t.importCorrupt,
+    tooLarge: t.importTooLarge.replace('{size}', String(MAX_IMPORT_MB))
+  };
+
+  const addFiles = (files: File[]) => {
+    if (files.length > 0) queueRef.current?.add(files, activeShelfId);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    try {
+      addFiles(await collectDroppedFiles(e.dataTransfer));
+    } catch (err) {
+      console.warn('Unable to read dropped files:', err);
+    }
+  };
+
+  const handleCoverChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const id = coverTargetRef.current;
+    e.target.value = '';
+    if (!file || !id) return;
+    try {
+      queueRef.current?.update(id, { cover: await pdfMetadata.coverFromImage(file) });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const readyItems = items.filter(i => i.status === 'ready');
+  const isBusy = items.some(i => i.status === 'queued' || i.status === 'reading');
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const books = await importReadyItems(readyItems, { author: lang === 'ar' ? 'مؤلف مجهول' : 'Unknown Scribe' });
+      queueRef.current?.markImported(readyItems.map(item => item.id));
+      onImport(books);
+      // Failures and duplicates stay listed until dismissed
+      if (readyItems.length === items.length) onClose();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const statusLine = (item: ImportItem) => {
+    if (item.status === 'failed') return <span className="flex items-center gap-1.5 text-red-500"><AlertTriangle size={10} />{failureLabel[item.failure || 'corrupt']}</span>;
+    if (item.status === 'duplicate') return <span className="flex items-center gap-1.5 text-orange-400"><Copy size={10} />{t.importDuplicate.replace('{title}', item.duplicateOf || '')}</span>;
+    if (item.status === 'ready') return <span className="flex items-center gap-1.5 text-emerald-500"><Check size={10} />{item.pageCount > 0 ? t.pageCount.replace('{count}', String(item.pageCount)) : (item.format || '').toUpperCase()}{item.annotations.length > 0 && ` · ${t.importedAnnotations.replace('{count}', String(item.annotations.length))}`}</span>;
+    return <span className="flex items-center gap-1.5 text-white/30">{item.status === 'reading' && <Loader2 size={10} className="animate-spin" />}{item.status === 'reading' ? t.importReading : t.importQueued}</span>;
+  };
+
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] flex items-center justify-center p-0 md:p-6 bg-black/98 backdrop-blur-3xl">
+      <MotionDiv initial={{ scale: 0.95, y: 30 }} animate={{ scale: 1, y: 0 }} className="bg-[#0b140b] border border-white/5 p-8 md:p-12 rounded-none md:rounded-[4rem] w-full max-w-2xl h-screen md:h-auto md:max-h-[90vh] shadow-2xl relative flex flex-col">
+        <button onClick={onClose} className="absolute top-6 right-6 md:top-10 md:right-10 p-2 rounded-full bg-white/5 text-white/20 hover:text-white transition-colors"><X size={20} className="md:size-6" /></button>
+        <h2 className="text-xl md:text-3xl font-black mb-8 text-white uppercase italic flex items-center gap-4 md:gap-5 leading-none shrink-0"><BookOpen size={32} className="text-[#ff0000] md:size-11" /> {t.newIntake}</h2>
+
+        <input type="file" ref={fileInputRef} onChange={handleInputChange} className="hidden" accept={ACCEPT} multiple />
+        <input type="file" ref={folderInputRef} onChange={handleInputChange} className="hidden" />
+        <input type="file" ref={coverInputRef} onChange={handleCoverChange} className="hidden" accept="image/*" />
+
+        <div
+          onClick={() => fileInputRef.current?.click()}
+          onDragOver={(e: React.DragEvent) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`w-full border-2 border-dashed rounded-[2rem] md:rounded-[3rem] flex flex-col items-center justify-center gap-4 cursor-pointer transition-all bg-white/5 group shrink-0 ${items.length > 0 ? 'py-6' : 'aspect-video'} ${isDragging ? 'border-[#ff0000]/60' : 'border-white/10 hover:border-[#ff0000]/30'}`}
+        >
+          <div className="p-4 bg-white/5 rounded-full group-hover:bg-[#ff0000] group-hover:text-white transition-all"><Upload size={24} className="text-white/20" /></div>
+          <span className="text-[9px] md:text-[11px] uppercase font-black opacity-30 tracking-[0.2em] md:tracking-[0.3em] text-center px-4">{t.uploadHint}</span>
+          <button onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }} className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 border border-white/10 text-[8px] md:text-[9px] font-black uppercase tracking-widest text-white/50 hover:bg-[#ff0000] hover:border-[#ff0000] hover:text-white transition-all"><FolderOpen size={12} />{t.chooseFolder}</button>
+        </div>
+
+        {items.length > 0 && (
+          <>
+            <div className="flex items-center justify-between gap-3 mt-6 shrink-0">
+              <span className="text-[9px] font-black uppercase tracking-widest text-white/40">{t.importProgress.replace('{done}', String(items.filter(i => i.status !== 'queued' && i.status !== 'reading').length)).replace('{total}', String(items.length))}</span>
+              <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-white/40">
+                {t.assignShelf}
+                <select value="" onChange={(e) => e.target.value && queueRef.current?.assignShelf(e.target.value)} className="bg-white/5 border border-white/10 rounded-full px-3 py-1.5 text-[9px] font-black text-white outline-none">
+                  <option value="" className="bg-[#0b140b]">—</option>
+                  {shelves.map(s => <option key={s.id} value={s.id} className="bg-[#0b140b]">{s.name}</option>)}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto custom-scroll space-y-2 mt-4 pr-1">
+              {items.map(item => (
+                <div key={item.id} className={`p-3 rounded-2xl border flex items-center gap-3 ${item.status === 'ready' ? 'bg-white/[0.03] border-white/10' : 'bg-white/[0.02] border-white/5'}`}>
+                  <button disabled={item.status !== 'ready'} onClick={() => { coverTargetRef.current = item.id; coverInputRef.current?.click(); }} title={t.replaceCover} className="relative h-16 aspect-[2/3] rounded-lg overflow-hidden border border-white/10 bg-white/5 shrink-0 group/cover">
+                    {item.cover && <img src={item.cover} alt="" className="w-full h-full object-cover" />}
+                    {item.status === 'ready' && <span className="absolute inset-0 flex items-center justify-center bg-black/60 opacity-0 group-hover/cover:opacity-100 transition-opacity"><ImagePlus size={14} className="text-white" /></span>}
+                  </button>
+                  <div className="flex-1 min-w-0 flex flex-col gap-1.5">
+                    {item.status === 'ready' ? (
+                      <>
+                        <input type="text" value={item.title} onChange={(e) => queueRef.current?.update(item.id, { title: e.target.value })} className="w-full bg-transparent text-[11px] font-black text-white outline-none border-b border-transparent focus:border-[#ff0000]/50" placeholder={t.bookTitle} />
+                        <input type="text" value={item.author} onChange={(e) => queueRef.current?.update(item.id, { author: e.target.value })} className="w-full bg-transparent text-[10px] font-bold text-white/50 outline-none border-b border-transparent focus:border-[#ff0000]/50" placeholder={t.author} />
+                      </>
+                    ) : (
+                      <span className="text-[11px] font-black text-white/60 truncate">{item.file.name}</span>
+                    )}
+                    <div className="text-[8px] font-black uppercase tracking-widest">{statusLine(item)}</div>
+                  </div>
+                  {item.status === 'ready' && (
+                    <select value={item.shelfId} onChange={(e) => queueRef.current?.update(item.id, { shelfId: e.target.value })} className="bg-white/5 border border-white/10 rounded-full px-2 py-1 text-[9px] font-black text-white/70 outline-none max-w-[110px] shrink-0">
+                      {shelves.map(s => <option key={s.id} value={s.id} className="bg-[#0b140b]">{s.name}</option>)}
+                    </select>
+                  )}
+                  <button onClick={() => queueRef.current?.remove(item.id)} className="p-2 rounded-full text-white/20 hover:text-red-500 hover:bg-white/5 transition-all shrink-0"><Trash2 size={14} /></button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <button onClick={handleImport} disabled={readyItems.length === 0 || isImporting} className="w-full mt-6 bg-white text-black py-4 md:py-6 rounded-[1.5rem] md:rounded-[2rem] font-black text-[10px] md:text-xs uppercase shadow-2xl hover:bg-[#ff0000] hover:text-white transition-all tracking-[0.3em] md:tracking-[0.5em] disabled:opacity-30 disabled:hover:bg-white disabled:hover:text-black flex items-center justify-center gap-3 shrink-0">
+          {(isImporting || isBusy) && <Loader2 size={14} className="animate-spin" />}
+          {readyItems.length > 1 ? t.importBooks.replace('{count}', String(readyItems.length)) : t.save}
+        </button>
+      </MotionDiv>
+    </MotionDiv>
+  );
+};
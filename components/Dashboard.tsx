@@ -3,6 +3,8 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Book, ShelfData, Language } from '../types';
 import { translations } from '../i18n/translations';
 import { storageService } from '../services/storageService';
+import { dateUtils } from '../services/dateUtils';
+import { storageUsage } from '../services/storageUsage';
 import { 
   Clock, Star, ChevronLeft, BrainCircuit, Activity, Trash2, AlertTriangle,
   BarChart3, LineChart, BookOpen, Zap, Globe2, ShieldCheck, Fingerprint, 
@@ -57,25 +59,51 @@ export const Dashboard: React.FC<DashboardProps> = ({ books, shelves, lang, onBa
 
   const maxBookMinutes = useMemo(() => Math.max(...bookStats.map(b => b.minutes), 1), [bookStats]);
 
+  const sessions = useMemo(() => storageService.getSessions(), [books]);
+
   // Individual Book Growth Evolution (Multi-Line Chart)
+  const evolutionStart = useMemo(() => {
+    return sessions.length > 0 ? Math.min(...sessions.map(s => s.startedAt)) : Date.now();
+  }, [sessions]);
+
   const bookEvolutionData = useMemo(() => {
-    const timePoints = [0, 0.2, 0.4, 0.6, 0.8, 1.0];
-    return bookStats.slice(0, 12).map(book => ({
-      ...book,
-      // Simulate cumulative growth: each point is a fraction of total minutes
-      points: timePoints.map(p => Math.floor(book.minutes * p))
-    }));
-  }, [bookStats]);
+    const POINTS = 12;
+    const now = Date.now();
+    const span = Math.max(now - evolutionStart, 1);
+    const timePoints = Array.from({ length: POINTS }, (_, i) => evolutionStart + (span * i) / (POINTS - 1));
+    return bookStats.slice(0, 12).map(book => {
+      const bookSessions = sessions.filter(s => s.bookId === book.id);
+      const loggedSeconds = bookSessions.reduce((acc, s) => acc + s.activeSeconds, 0);
+      // Time read before session logging existed counts from the start of the chart
+      const baseline = Math.max(0, (books.find(b => b.id === book.id)?.timeSpentSeconds || 0) - loggedSeconds);
+      return {
+        ...book,
+        points: timePoints.map(tp => Math.floor(
+          (baseline + bookSessions.filter(s => s.endedAt <= tp).reduce((acc, s) => acc + s.activeSeconds, 0)) / 60
+        ))
+      };
+    });
+  }, [bookStats, sessions, books, evolutionStart]);
 
-  // Peak Hourly Performance
+  // Peak Hourly Performance: each session's active time is spread over the hours it spanned
   const peakHours = useMemo(() => {
+    const HOUR_MS = 60 * 60 * 1000;
     const hours = Array.from({ length: 24 }, (_, i) => ({
       hour: i,
       intensity: 0
     }));
-    books.forEach(b => {
-      const lastHour = new Date(b.lastReadAt || Date.now()).getHours();
-      hours[lastHour].intensity += (b.timeSpentSeconds / 60); 
+    sessions.forEach(s => {
+      const duration = Math.max(s.endedAt - s.startedAt, 1);
+      let cursor = s.startedAt;
+      while (cursor < s.endedAt || cursor === s.startedAt) {
+        const slotStart = new Date(cursor);
+        slotStart.setMinutes(0, 0, 0);
+        const slotEnd = Math.min(slotStart.getTime() + HOUR_MS, s.endedAt);
+        const share = s.endedAt === s.startedAt ? 1 : (slotEnd - cursor) / duration;
+        hours[new Date(cursor).getHours()].intensity += (s.activeSeconds * share) / 60;
+        if (slotEnd <= cursor) break;
+        cursor = slotEnd;
+      }
     });
     
     const maxInt = Math.max(...hours.map(h => h.intensity), 1);
@@ -87,9 +115,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ books, shelves, lang, onBa
 
   const habitData = useMemo(() => storageService.getHabitData(), []);
   
-  const habitStartDate = useMemo(() => {
+  const habitStartKey = useMemo(() => {
     const allDates = [...habitData.history, ...habitData.missedDays].sort();
-    return allDates.length > 0 ? new Date(allDates[0]) : null;
+    return allDates.length > 0 ? allDates[0] : null;
   }, [habitData]);
 
   const habitPhases = useMemo(() => {
@@ -99,8 +127,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ books, shelves, lang, onBa
     return { phase: 3, name: isRTL ? 'مرحلة الانصهار' : 'Integration Phase', color: '#10b981' };
   }, [habitData.streak, isRTL]);
 
-  const handleClearAll = () => {
+  const handleClearAll = async () => {
     storageService.saveBooks([]);
+    // With no books left every stored manuscript is an orphan
+    try {
+      await storageUsage.collectGarbage();
+    } catch (err) {
+      console.error('Unable to delete manuscript files:', err);
+    }
     window.location.reload(); 
   };
 
@@ -176,9 +210,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ books, shelves, lang, onBa
           {[...Array(40)].map((_, i) => {
             const dayNum = i + 1;
             
-            const dayDate = habitStartDate ? new Date(habitStartDate) : null;
-            if (dayDate) dayDate.setDate(dayDate.getDate() + i);
-            const dayDateStr = dayDate ? dayDate.toISOString().split('T')[0] : null;
+            const dayDateStr = habitStartKey ? dateUtils.addDays(habitStartKey, i) : null;
 
             const isCompleted = dayDateStr ? habitData.history.includes(dayDateStr) : false;
             const isMissed = dayDateStr ? habitData.missedDays.includes(dayDateStr) : false;
@@ -626,7 +658,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ books, shelves, lang, onBa
             })}
           </svg>
           <div className="absolute bottom-0 left-0 right-0 flex justify-between px-2 pt-4 md:pt-6 border-t border-white/5 opacity-10 text-[6px] md:text-[9px] font-black uppercase tracking-[0.2em] md:tracking-[0.6em]">
-            <span>Genesis</span>
+            <span>{sessions.length > 0 ? new Date(evolutionStart).toLocaleDateString() : 'Genesis'}</span>
             <span>Archive Growth</span>
             <span>Current Mastery</span>
           </div>
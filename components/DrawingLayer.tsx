@@ -0,0 +1,29 @@
+import React from 'react';
+import { Annotation } from '../types';
+import { PageSize } from '../services/pageRenderer';
+import { drawing } from '../services/drawing';
+
+interface DrawingLayerProps {
+  drawings: Annotation[];
+  // The stroke being drawn, shown before it is saved
+  draft?: Annotation | null;
+  size: PageSize;
+  // Drawings can only be picked while no tool is active
+  onSelect?: (id: string) => void;
+}
+
+const Shape: React.FC<{ anno: Annotation; size: PageSize; onSelect?: (id: string) => void }> = ({ anno, size, onSelect }) => (
+  <g onClick={onSelect ? () => onSelect(anno.id) : undefined} style={{ pointerEvents: onSelect ? 'visibleStroke' : 'none', cursor: onSelect ? 'pointer' : undefined }}>
+    {drawing.paths(anno, size).map((path, i) => (
+      <path key={i} d={path.d} fill="none" stroke={anno.color} strokeWidth={path.width} strokeLinecap="round" strokeLinejoin="round" />
+    ))}
+  </g>
+);
+
+// Drawn in PDF points, so strokes stay sharp at every zoom
+export const DrawingLayer: React.FC<DrawingLayerProps> = ({ drawings, draft, size, onSelect }) => (
+  <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible" viewBox={`0 0 ${size.width} ${size.height}`} preserveAspectRatio="none">
+    {drawings.map(anno => <Shape key={anno.id} anno={anno} size={size} onSelect={onSelect} />)}
+    {draft && <Shape anno={drawing.complete(draft)} size={size} />}
+  </svg>
+);
@@ -0,0 +1,92 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Book, Language, ReaderTarget } from '../types';
+import { translations } from '../i18n/translations';
+import { searchIndex } from '../services/searchIndex';
+import { reflowDocument } from '../services/reflowDocument';
+import { X, Search, Loader2, MessageSquare, BookOpen } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+interface LibrarySearchProps {
+  books: Book[];
+  lang: Language;
+  onClose: () => void;
+  onOpen: (book: Book, target: ReaderTarget) => void;
+}
+
+export const LibrarySearch: React.FC<LibrarySearchProps> = ({ books, lang, onClose, onOpen }) => {
+  const t = translations[lang];
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    searchIndex.prepare(books, (done, total) => { if (!cancelled && total > 0) setProgress({ done, total }); })
+      .catch(err => console.warn('Search index unavailable:', err))
+      .finally(() => { if (!cancelled) setIsReady(true); });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebouncedQuery(query), 250);
+    return () => window.clearTimeout(timer);
+  }, [query]);
+
+  const results = useMemo(() => searchIndex.search(books, debouncedQuery), [books, debouncedQuery, isReady]);
+
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] flex items-center justify-center p-6 bg-black/95 backdrop-blur-2xl">
+      <MotionDiv initial={{ scale: 0.95 }} animate={{ scale: 1 }} className="bg-[#0b140b] border border-white/10 p-6 md:p-10 rounded-[2.5rem] md:rounded-[3rem] w-full max-w-2xl shadow-2xl h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between mb-6 shrink-0">
+          <h3 className="text-xl md:text-2xl font-black uppercase italic text-white flex items-center gap-3"><Search className="text-[#ff0000]" size={22} />{t.searchLibrary}</h3>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/30 hover:text-white transition-colors"><X size={16} /></button>
+        </div>
+
+        <input autoFocus type="text" value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t.searchLibraryHint} className="w-full bg-white/5 border border-white/10 rounded-2xl p-4 text-sm font-bold text-white outline-none focus:border-[#ff0000]/50 shrink-0" />
+
+        {!isReady && (
+          <div className="flex items-center gap-2 mt-4 text-[9px] font-black uppercase tracking-widest text-white/40 shrink-0">
+            <Loader2 size={12} className="animate-spin text-[#ff0000]" />
+            {progress ? t.indexingBooks.replace('{done}', String(progress.done)).replace('{total}', String(progress.total)) : t.searching}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto custom-scroll space-y-6 mt-6 pr-1">
+          {debouncedQuery.trim() && isReady && results.length === 0 && (
+            <p className="text-center opacity-20 py-20 uppercase font-black tracking-widest text-xs">{t.noResults}</p>
+          )}
+          {results.map(({ book, pageHits, annotationHits }) => (
+            <div key={book.id} className="space-y-2">
+              <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-white/70">
+                <BookOpen size={12} className="text-[#ff0000]" />
+                <span className="truncate">{book.title}</span>
+                <span className="text-white/20">{book.author}</span>
+              </div>
+              {annotationHits.map(anno => (
+                <button key={anno.id} onClick={() => onOpen(book, { pageIndex: anno.pageIndex })} className="w-full text-start p-3 rounded-xl bg-white/[0.03] border border-white/5 hover:border-[#ff0000]/30 transition-all flex items-start gap-3">
+                  <MessageSquare size={12} className="mt-0.5 shrink-0" style={{ color: anno.color }} />
+                  <div className="flex flex-col min-w-0 gap-1">
+                    <span className="text-[8px] font-black text-[#ff0000] uppercase tracking-widest">{t.notes} · {reflowDocument.isReflowable(book) ? t.chapter : t.page} {anno.pageIndex + 1}</span>
+                    <span className="text-[11px] font-bold text-white/80 truncate">{anno.title || anno.quote || anno.text || '...'}</span>
+                    {anno.text && anno.title && <span className="text-[10px] text-white/40 line-clamp-2">{anno.text}</span>}
+                  </div>
+                </button>
+              ))}
+              {pageHits.map((hit, i) => (
+                <button key={`${hit.pageIndex}-${i}`} onClick={() => onOpen(book, { pageIndex: hit.pageIndex, query: debouncedQuery })} className="w-full text-start p-3 rounded-xl bg-white/[0.03] border border-white/5 hover:border-[#ff0000]/30 transition-all flex flex-col gap-1">
+                  <span className="text-[8px] font-black text-[#ff0000] uppercase tracking-widest">{t.passages} · {reflowDocument.isReflowable(book) ? t.chapter : t.page} {hit.pageIndex + 1}</span>
+                  <span className="text-[11px] text-white/50 leading-relaxed">
+                    {hit.snippet.before}<mark className="bg-[#ff0000]/30 text-white rounded px-0.5">{hit.snippet.match}</mark>{hit.snippet.after}
+                  </span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      </MotionDiv>
+    </MotionDiv>
+  );
+};
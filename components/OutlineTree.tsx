@@ -0,0 +1,38 @@
+import React from 'react';
+import { OutlineItem } from '../services/outline';
+import { ChevronRight } from 'lucide-react';
+
+interface OutlineTreeProps {
+  items: OutlineItem[];
+  path?: string;
+  depth?: number;
+  currentTitle?: string;
+  // Reflowable books point entries at chapters, which have no page number to show
+  showPageNumbers?: boolean;
+  expanded: Set<string>;
+  onToggle: (path: string) => void;
+  onSelect: (pageIndex: number) => void;
+}
+
+export const OutlineTree: React.FC<OutlineTreeProps> = ({ items, path = '', depth = 0, currentTitle, showPageNumbers = true, expanded, onToggle, onSelect }) => (
+  <>
+    {items.map((item, i) => {
+      const key = `${path}${i}`;
+      const isOpen = expanded.has(key);
+      return (
+        <div key={key}>
+          <div className="flex items-center gap-1" style={{ paddingInlineStart: depth * 14 }}>
+            {item.items.length > 0 ? (
+              <button onClick={() => onToggle(key)} className="p-1 text-white/30 hover:text-white transition-colors"><ChevronRight size={12} className={`transition-transform ${isOpen ? 'rotate-90' : ''}`} /></button>
+            ) : <span className="w-5" />}
+            <button disabled={item.pageIndex === null} onClick={() => item.pageIndex !== null && onSelect(item.pageIndex)} className={`flex-1 flex items-center justify-between gap-3 py-2 px-2 rounded-lg text-start transition-all disabled:opacity-30 ${currentTitle === item.title ? 'bg-red-600/10 text-white' : 'text-white/60 hover:bg-white/5'}`}>
+              <span className="text-[10px] font-bold truncate">{item.title}</span>
+              {showPageNumbers && item.pageIndex !== null && <span className="text-[8px] font-black text-red-600 shrink-0">{item.pageIndex + 1}</span>}
+            </button>
+          </div>
+          {isOpen && <OutlineTree items={item.items} path={`${key}.`} depth={depth + 1} currentTitle={currentTitle} showPageNumbers={showPageNumbers} expanded={expanded} onToggle={onToggle} onSelect={onSelect} />}
+        </div>
+      );
+    })}
+  </>
+);
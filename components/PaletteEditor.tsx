@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Language, PaletteColor } from '../types';
+import { translations } from '../i18n/translations';
+import { DEFAULT_PALETTE } from '../services/palette';
+import { X, Check, Plus, Trash2, RotateCcw } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+const MAX_COLORS = 10;
+
+interface PaletteEditorProps {
+  palette: PaletteColor[];
+  lang: Language;
+  onClose: () => void;
+  onSave: (palette: PaletteColor[]) => void;
+}
+
+// Existing annotations keep their color when an entry is recolored or removed
+export const PaletteEditor: React.FC<PaletteEditorProps> = ({ palette, lang, onClose, onSave }) => {
+  const t = translations[lang];
+  const [colors, setColors] = useState<PaletteColor[]>(palette);
+
+  const update = (index: number, updates: Partial<PaletteColor>) => {
+    setColors(prev => prev.map((c, i) => i === index ? { ...c, ...updates } : c));
+  };
+
+  const shortcuts = colors.map(c => c.shortcut?.toLowerCase()).filter(Boolean);
+  const hasDuplicateShortcut = new Set(shortcuts).size !== shortcuts.length;
+  const hasDuplicateColor = new Set(colors.map(c => c.hex.toLowerCase())).size !== colors.length;
+  const canSave = colors.length > 0 && !hasDuplicateShortcut && !hasDuplicateColor;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave(colors.map(c => ({ hex: c.hex, label: c.label.trim(), shortcut: c.shortcut?.trim() || undefined })));
+  };
+
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] flex items-center justify-center p-6 bg-black/95 backdrop-blur-2xl">
+      <MotionDiv initial={{ scale: 0.95 }} animate={{ scale: 1 }} className="bg-[#0b140b] border border-white/10 p-8 md:p-10 rounded-[2.5rem] md:rounded-[3rem] w-full max-w-md shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-6 shrink-0">
+          <h3 className="text-xl md:text-2xl font-black uppercase italic text-white">{t.annotationPalette}</h3>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/30 hover:text-white transition-colors"><X size={16} /></button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto custom-scroll space-y-2 pr-1">
+          <div className="grid grid-cols-[2.5rem_1fr_3rem_2.25rem] gap-2 px-1 text-[8px] font-black uppercase tracking-widest text-white/30">
+            <span />
+            <span>{t.colorLabel}</span>
+            <span className="text-center">{t.colorShortcut}</span>
+            <span />
+          </div>
+          {colors.map((c, index) => (
+            <div key={index} className="grid grid-cols-[2.5rem_1fr_3rem_2.25rem] gap-2 items-center">
+              <label className="w-10 h-10 rounded-xl border border-white/10 cursor-pointer overflow-hidden" style={{ backgroundColor: c.hex }}>
+                <input type="color" value={c.hex} onChange={e => update(index, { hex: e.target.value })} className="opacity-0 w-full h-full cursor-pointer" />
+              </label>
+              <input type="text" value={c.label} onChange={e => update(index, { label: e.target.value })} className="w-full bg-white/5 border border-white/10 rounded-xl p-3 text-xs font-bold text-white outline-none focus:border-[#ff0000]/50" placeholder={c.hex} />
+              <input type="text" value={c.shortcut || ''} maxLength={1} onChange={e => update(index, { shortcut: e.target.value.trim() || undefined })} className="w-full bg-white/5 border border-white/10 rounded-xl p-3 text-xs font-black text-white text-center uppercase outline-none focus:border-[#ff0000]/50" />
+              <button onClick={() => setColors(prev => prev.filter((_, i) => i !== index))} disabled={colors.length === 1} className="w-9 h-9 rounded-xl bg-white/5 text-white/30 hover:text-red-500 hover:bg-red-600/10 transition-all flex items-center justify-center disabled:opacity-20 disabled:pointer-events-none"><Trash2 size={14} /></button>
+            </div>
+          ))}
+          {hasDuplicateShortcut && <p className="text-[9px] font-bold uppercase tracking-widest text-red-500 px-1">{t.shortcutTaken}</p>}
+          {hasDuplicateColor && <p className="text-[9px] font-bold uppercase tracking-widest text-red-500 px-1">{t.colorTaken}</p>}
+
+          <div className="grid grid-cols-2 gap-2 pt-4">
+            <button onClick={() => setColors(prev => [...prev, { hex: '#ffffff', label: '' }])} disabled={colors.length >= MAX_COLORS} className="p-3 rounded-xl bg-white/5 border border-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-2 text-[9px] font-black uppercase tracking-widest disabled:opacity-30">
+              <Plus size={14} />{t.addColor}
+            </button>
+            <button onClick={() => setColors(DEFAULT_PALETTE)} className="p-3 rounded-xl bg-white/5 border border-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-all flex items-center justify-center gap-2 text-[9px] font-black uppercase tracking-widest">
+              <RotateCcw size={14} />{t.resetPalette}
+            </button>
+          </div>
+        </div>
+
+        <button onClick={handleSave} disabled={!canSave} className="w-full mt-6 bg-[#ff0000] py-4 md:py-5 rounded-[1.5rem] font-black text-[10px] md:text-xs uppercase shadow-2xl text-white tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-30 shrink-0">
+          <Check size={16} />{t.saveChanges}
+        </button>
+      </MotionDiv>
+    </MotionDiv>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { PaletteColor } from '../types';
+import { ColorGroup } from '../services/palette';
+
+interface PaletteLegendProps {
+  colors: PaletteColor[];
+  activeColor: string;
+  onSelect: (hex: string) => void;
+}
+
+// The reader's colors with what each one means, shown while an annotation tool is active
+export const PaletteLegend: React.FC<PaletteLegendProps> = ({ colors, activeColor, onSelect }) => (
+  <div className="flex items-center gap-1 bg-black/95 p-1 rounded-full border border-white/10 shadow-2xl max-w-[90vw] overflow-x-auto no-scrollbar">
+    {colors.map(c => {
+      const isActive = c.hex.toLowerCase() === activeColor.toLowerCase();
+      return (
+        <button key={c.hex} onClick={() => onSelect(c.hex)} className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full whitespace-nowrap transition-all ${isActive ? 'bg-white/10 text-white' : 'text-white/40 hover:text-white'}`}>
+          <span className={`w-3 h-3 rounded-full border shrink-0 ${isActive ? 'border-white shadow-[0_0_8px_white]' : 'border-transparent'}`} style={{ backgroundColor: c.hex }} />
+          {c.label && <span className="text-[8px] font-black uppercase tracking-widest">{c.label}</span>}
+          {c.shortcut && <kbd className="px-1 rounded bg-white/10 text-[7px] font-black text-white/40">{c.shortcut}</kbd>}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export const ColorGroupHeading: React.FC<{ group: ColorGroup }> = ({ group }) => (
+  <div className="flex items-center gap-2 px-1 pt-2">
+    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: group.hex }} />
+    <span className="text-[9px] font-black uppercase tracking-widest text-white/60">{group.label || group.hex}</span>
+    <span className="text-[8px] font-black text-white/20">{group.annotations.length}</span>
+  </div>
+);
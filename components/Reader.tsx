@@ -1,17 +1,32 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Book, Language, Annotation } from '../types';
+import { Book, Language, Annotation, AnnotationRect, InkPoint, ReaderTarget } from '../types';
 import { translations } from '../i18n/translations';
 import { storageService } from '../services/storageService';
 import { pdfStorage } from '../services/pdfStorage';
+import { pageSnapshot } from '../services/pageSnapshot';
+import { createPageRenderer, PageRenderer, PageSize } from '../services/pageRenderer';
+import { textSelection } from '../services/textSelection';
+import { textSearch } from '../services/textSearch';
+import { searchIndex } from '../services/searchIndex';
+import { outline as outlineUtils, OutlineItem } from '../services/outline';
+import { drawing, STROKE_WIDTHS, DEFAULT_STROKE_WIDTH } from '../services/drawing';
+import { OutlineTree } from './OutlineTree';
+import { PaletteLegend } from './PaletteLegend';
+import { DrawingLayer } from './DrawingLayer';
+import { AnnotationArchive } from './AnnotationArchive';
+import { AnnotationEditor } from './AnnotationEditor';
+import { SessionClock, IdlePrompt, CardToast } from './ReaderOverlays';
+import { useReaderSession, useReaderAnnotations } from './useReaderSession';
 import { 
   ChevronLeft, ChevronRight, Maximize2, Highlighter, 
-  PenTool, MessageSquare, Trash2, X, MousePointer2, 
+  PenTool, MessageSquare, X, MousePointer2, 
   ListOrdered, Volume2, CloudLightning, Waves, 
   Moon, Bird, Flame, VolumeX, Sparkles, Search, Droplets,
-  Edit3, Sun, Clock, BoxSelect, Palette, Check, LayoutGrid,
-  FileAudio
+  Sun, BoxSelect, Palette, LayoutGrid,
+  FileAudio, Hash, ChevronUp, ChevronDown, Loader2, ListTree,
+  Pencil, MoveUpRight, Circle, Eraser
 } from 'lucide-react';
 
 declare const pdfjsLib: any;
@@ -23,18 +38,17 @@ interface ReaderProps {
   book: Book;
   lang: Language;
   onBack: () => void;
-  onStatsUpdate: (starReached?: number | null) => void;
+  onStarReached: (star: number) => void;
+  openAt?: ReaderTarget;
 }
 
-type Tool = 'view' | 'highlight' | 'underline' | 'box' | 'note';
+interface SearchHit {
+  pageIndex: number;
+  start: number;
+  end: number;
+}
 
-const COLORS = [
-  { name: 'Yellow', hex: '#fbbf24' },
-  { name: 'Red', hex: '#ef4444' },
-  { name: 'Green', hex: '#22c55e' },
-  { name: 'Blue', hex: '#3b82f6' },
-  { name: 'Purple', hex: '#a855f7' }
-];
+type Tool = 'view' | 'highlight' | 'underline' | 'box' | 'note' | 'ink' | 'arrow' | 'circle' | 'eraser';
 
 const SOUNDS = [
   { id: 'none', icon: VolumeX, url: '' },
@@ -51,26 +65,69 @@ const TOOL_ICONS = {
   highlight: Highlighter,
   underline: PenTool,
   box: BoxSelect,
-  note: MessageSquare
+  note: MessageSquare,
+  ink: Pencil,
+  arrow: MoveUpRight,
+  circle: Circle,
+  eraser: Eraser
 };
 
-export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdate }) => {
-  const [isZenMode, setIsZenMode] = useState(false);
+// Flashcard snapshots are cropped from a page rendered at this scale
+const SNAPSHOT_SCALE = 2;
+
+// Renders its page only once it scrolls into the thumbnail strip
+const PageThumbnail: React.FC<{ renderer: PageRenderer; index: number }> = ({ renderer, index }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    let cancelled = false;
+    const observer = new IntersectionObserver(entries => {
+      if (!entries.some(e => e.isIntersecting)) return;
+      observer.disconnect();
+      renderer.getThumbnail(index).then(url => { if (!cancelled) setSrc(url); }).catch(() => {});
+    }, { rootMargin: '200px' });
+    observer.observe(el);
+    return () => { cancelled = true; observer.disconnect(); };
+  }, [renderer, index]);
+
+  return (
+    <div ref={ref} className="w-full h-full">
+      {src && <img src={src} className="w-full h-full object-cover" alt={`p${index}`} />}
+    </div>
+  );
+};
+
+export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStarReached, openAt }) => {
   const [isNightMode, setIsNightMode] = useState(false);
-  const [showControls, setShowControls] = useState(true);
-  const [pages, setPages] = useState<string[]>([]);
-  const [currentPage, setCurrentPage] = useState(book.lastPage || 0);
+  const [pageImage, setPageImage] = useState<{ index: number, src: string } | null>(null);
+  const [stageSize, setStageSize] = useState({ width: 0, height: 0 });
+  const [pageSize, setPageSize] = useState<PageSize & { index: number } | null>(null);
+  const [textLayerPage, setTextLayerPage] = useState<{ index: number, hasText: boolean } | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(!!openAt?.query);
+  const [searchQuery, setSearchQuery] = useState(openAt?.query || '');
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  const [activeHitIndex, setActiveHitIndex] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchedQuery, setSearchedQuery] = useState<string | null>(null);
+  const [outline, setOutline] = useState<OutlineItem[]>([]);
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false);
+  const [expandedOutline, setExpandedOutline] = useState<Set<string>>(new Set());
+  const [hitRects, setHitRects] = useState<{ id: number, active: boolean, rects: AnnotationRect[] }[]>([]);
+  const [currentPage, setCurrentPage] = useState(openAt?.pageIndex ?? (book.lastPage || 0));
   const [isLoading, setIsLoading] = useState(true);
   const [totalPages, setTotalPages] = useState(0);
   
   const [activeTool, setActiveTool] = useState<Tool>('view');
-  const [activeColor, setActiveColor] = useState(COLORS[0].hex);
-  const [annotations, setAnnotations] = useState<Annotation[]>(book.annotations || []);
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPos, setStartPos] = useState({ x: 0, y: 0 });
   const [currentRect, setCurrentRect] = useState<{ x: number, y: number, w: number, h: number } | null>(null);
+  const [strokeWidth, setStrokeWidth] = useState(DEFAULT_STROKE_WIDTH);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [isErasing, setIsErasing] = useState(false);
   
-  const [editingAnnoId, setEditingAnnoId] = useState<string | null>(null);
   const [isArchiveOpen, setIsArchiveOpen] = useState(false);
   const [isGoToPageOpen, setIsGoToPageOpen] = useState(false);
   const [isSoundPickerOpen, setIsSoundPickerOpen] = useState(false);
@@ -79,19 +136,28 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
   const [activeSoundId, setActiveSoundId] = useState('none');
   const [customSoundName, setCustomSoundName] = useState('');
   const [targetPageInput, setTargetPageInput] = useState('');
-  const [sessionSeconds, setSessionSeconds] = useState(0);
   const [zoomScale, setZoomScale] = useState(1);
   const [isPinching, setIsPinching] = useState(false);
   const [direction, setDirection] = useState(0); 
   
   const initialPinchDistance = useRef<number | null>(null);
   const initialScaleOnPinch = useRef<number>(1);
-  const timerRef = useRef<number | null>(null);
+  const rendererRef = useRef<PageRenderer | null>(null);
   const pageRef = useRef<HTMLDivElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioInputRef = useRef<HTMLInputElement>(null);
-  const controlsTimeoutRef = useRef<number | null>(null);
+
+  const {
+    palette, activeColor, setActiveColor, annotations, setAnnotations,
+    editingAnnoId, setEditingAnnoId, currentEditingAnno, updateEditingAnnotation, deleteEditingAnnotation,
+    applyColorShortcut, cardAnnoIds, cardToast, addCard
+  } = useReaderAnnotations(book, openAt);
+  const { trackerRef, sessionSeconds, isIdle, resumeReading, isZenMode, showControls, toggleZenMode, handleUserActivity } = useReaderSession(
+    book, currentPage, onStarReached,
+    () => { setZoomScale(1); setIsToolsOpen(false); setIsThumbnailsOpen(false); }
+  );
 
   const t = translations[lang];
   const isRTL = lang === 'ar';
@@ -99,6 +165,9 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement).tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA') return;
+      if (applyColorShortcut(e)) return;
       if (isGoToPageOpen || editingAnnoId || activeTool !== 'view') return;
       if (e.key === 'ArrowRight') handlePageChange(currentPage + 1);
       else if (e.key === 'ArrowLeft') handlePageChange(currentPage - 1);
@@ -107,85 +176,185 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [currentPage, totalPages, isGoToPageOpen, editingAnnoId, activeTool]);
 
-  const toggleZenMode = async () => {
-    if (!isZenMode) {
-      try {
-        const docEl = document.documentElement;
-        if (docEl.requestFullscreen) await docEl.requestFullscreen();
-      } catch (e) {}
-      setIsZenMode(true); setZoomScale(1); setIsToolsOpen(false); setIsThumbnailsOpen(false);
-    } else {
-      if (document.fullscreenElement) await document.exitFullscreen();
-      setIsZenMode(false);
-    }
-  };
-
-  useEffect(() => {
-    const handleFsChange = () => { if (!document.fullscreenElement && isZenMode) setIsZenMode(false); };
-    document.addEventListener('fullscreenchange', handleFsChange);
-    return () => document.removeEventListener('fullscreenchange', handleFsChange);
-  }, [isZenMode]);
-
-  useEffect(() => {
-    if (isZenMode) setShowControls(false);
-    else { setShowControls(true); if (controlsTimeoutRef.current) window.clearTimeout(controlsTimeoutRef.current); }
-  }, [isZenMode]);
-
-  const handleUserActivity = () => {
-    if (!isZenMode) return;
-    setShowControls(true);
-    if (controlsTimeoutRef.current) window.clearTimeout(controlsTimeoutRef.current);
-    controlsTimeoutRef.current = window.setTimeout(() => { setShowControls(false); }, 4500);
-  };
-
   useEffect(() => {
+    let cancelled = false;
     const loadPdf = async () => {
       const fileData = await pdfStorage.getFile(book.id);
+      if (cancelled) return;
       if (!fileData) { onBack(); return; }
       try {
         const pdf = await pdfjsLib.getDocument({ data: fileData }).promise;
+        if (cancelled) { pdf.destroy(); return; }
+        rendererRef.current = createPageRenderer(pdf);
         setTotalPages(pdf.numPages);
-        const tempPages = new Array(pdf.numPages).fill(null);
-        const renderSinglePage = async (idx: number) => {
-          if (idx < 0 || idx >= pdf.numPages || tempPages[idx]) return;
-          const p = await pdf.getPage(idx + 1);
-          const vp = p.getViewport({ scale: 1.5 });
-          const cv = document.createElement('canvas');
-          cv.height = vp.height; cv.width = vp.width;
-          await p.render({ canvasContext: cv.getContext('2d')!, viewport: vp }).promise;
-          tempPages[idx] = cv.toDataURL('image/jpeg', 0.8);
-          setPages([...tempPages]);
-        };
-        await renderSinglePage(currentPage);
-        setIsLoading(false);
-        const loadRest = async () => {
-          for (let i = 0; i < pdf.numPages; i++) {
-            if (!tempPages[i]) await renderSinglePage(i);
-          }
-        };
-        loadRest();
+        if (book.pageCount !== pdf.numPages) storageService.updateBookDetails(book.id, { pageCount: pdf.numPages });
       } catch (err) {}
     };
     loadPdf();
-    timerRef.current = window.setInterval(() => {
-      setSessionSeconds(s => s + 1);
-      const { starReached } = storageService.updateBookStats(book.id, 1);
-      onStatsUpdate(starReached);
-    }, 1000);
-    return () => { if (timerRef.current) clearInterval(timerRef.current); if (controlsTimeoutRef.current) clearTimeout(controlsTimeoutRef.current); };
+    return () => {
+      cancelled = true;
+      rendererRef.current?.destroy(); rendererRef.current = null;
+    };
   }, [book.id]);
 
-  useEffect(() => { storageService.updateBookAnnotations(book.id, annotations); onStatsUpdate(); }, [annotations]);
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setStageSize({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    let cancelled = false;
+    renderer.getPageSize(currentPage).then(size => { if (!cancelled) setPageSize({ ...size, index: currentPage }); }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [currentPage, totalPages]);
+
+  // CSS pixels per PDF unit when the page is fitted to the stage
+  const fitScale = useMemo(() => {
+    if (!pageSize || !stageSize.width || !stageSize.height) return 0;
+    const inset = isZenMode ? 0 : 48;
+    const maxHeight = isZenMode ? stageSize.height : Math.min(stageSize.height - inset, window.innerHeight * 0.85);
+    return Math.max(0, Math.min((stageSize.width - inset) / pageSize.width, maxHeight / pageSize.height));
+  }, [pageSize, stageSize, isZenMode]);
+
+  // Only the visible page is rendered, sized for the screen's pixel density and the
+  // current zoom; its neighbours are prefetched at the unzoomed size.
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer || !fitScale || pageSize?.index !== currentPage) return;
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const baseScale = fitScale * (window.devicePixelRatio || 1);
+        const src = await renderer.getPage(currentPage, baseScale * zoomScale);
+        if (cancelled) return;
+        setPageImage({ index: currentPage, src });
+        setIsLoading(false);
+        renderer.prefetch(currentPage, baseScale);
+      } catch (err) {}
+    }, zoomScale === 1 ? 0 : 250);
+    return () => { cancelled = true; window.clearTimeout(timer); };
+  }, [currentPage, zoomScale, fitScale, pageSize]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    const container = textLayerRef.current;
+    if (!renderer || !container) return;
+    let cancelled = false;
+    container.replaceChildren();
+    setTextLayerPage(null);
+    renderer.renderTextLayer(currentPage).then(layer => {
+      if (cancelled) return;
+      container.replaceChildren(layer);
+      setTextLayerPage({ index: currentPage, hasText: !!layer.textContent?.trim() });
+    }).catch(() => {});
+    return () => { cancelled = true; };
+  }, [currentPage, totalPages]);
+
+  // Search hits on the visible page are located through the rendered text layer
+  useEffect(() => {
+    const layer = textLayerRef.current;
+    const page = pageRef.current;
+    if (!layer || !page || textLayerPage?.index !== currentPage) { setHitRects([]); return; }
+    setHitRects(searchHits
+      .map((hit, id) => ({ hit, id }))
+      .filter(({ hit }) => hit.pageIndex === currentPage)
+      .map(({ hit, id }) => ({ id, active: id === activeHitIndex, rects: textSelection.rectsForOffsets(layer, page, hit.start, hit.end) })));
+  }, [searchHits, activeHitIndex, currentPage, textLayerPage]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!renderer) return;
+    renderer.getOutline().then(setOutline).catch(() => setOutline([]));
+  }, [totalPages]);
+
+  const outlineEntries = useMemo(() => outlineUtils.flatten(outline), [outline]);
+  const currentChapter = useMemo(() => outlineUtils.chapterAt(outlineEntries, currentPage), [outlineEntries, currentPage]);
+
+  const toggleOutlineItem = (path: string) => {
+    setExpandedOutline(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  // Open the panel with the branch holding the current chapter unfolded
+  const openOutline = () => {
+    const expanded = new Set<string>();
+    const reveal = (items: OutlineItem[], path: string): boolean => items.some((item, i) => {
+      const key = `${path}${i}`;
+      if (reveal(item.items, `${key}.`)) { expanded.add(key); return true; }
+      return item.title === currentChapter?.title && item.pageIndex === currentChapter?.pageIndex;
+    });
+    reveal(outline, '');
+    setExpandedOutline(expanded);
+    setIsOutlineOpen(true);
+  };
+
+  // Opening from a library search result repeats the query here
+  useEffect(() => {
+    if (totalPages > 0 && openAt?.query) runSearch(openAt.query);
+  }, [totalPages]);
+
+  // A mouse press on text starts a selection rather than a page swipe
+  useEffect(() => {
+    const container = textLayerRef.current;
+    if (!container) return;
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'mouse' && e.target !== container && (e.target as HTMLElement).tagName === 'SPAN') e.stopPropagation();
+    };
+    container.addEventListener('pointerdown', handlePointerDown);
+    return () => container.removeEventListener('pointerdown', handlePointerDown);
+  }, [totalPages]);
 
   const handlePageChange = (newPage: number) => {
     if (newPage >= 0 && newPage < totalPages && newPage !== currentPage) {
       setDirection(newPage > currentPage ? 1 : -1);
       setZoomScale(1);
       setCurrentPage(newPage);
+      trackerRef.current?.setPage(newPage);
       storageService.updateBookPage(book.id, newPage);
     }
   };
 
+  const goToHit = (hits: SearchHit[], index: number) => {
+    if (hits.length === 0) { setActiveHitIndex(-1); return; }
+    const next = (index + hits.length) % hits.length;
+    setActiveHitIndex(next);
+    handlePageChange(hits[next].pageIndex);
+  };
+
+  // The book's text is extracted once and kept in the library search index
+  const runSearch = async (query: string) => {
+    const renderer = rendererRef.current;
+    if (!renderer || !textSearch.normalize(query)) { setSearchHits([]); setActiveHitIndex(-1); return; }
+    setIsSearching(true);
+    try {
+      const pages = (await searchIndex.getPages(book.id)) ?? await searchIndex.indexBook(book.id, renderer);
+      const hits = pages.flatMap((text, pageIndex) => textSearch.findMatches(text, query).map(m => ({ pageIndex, ...m })));
+      setSearchHits(hits);
+      setSearchedQuery(query);
+      const fromHere = hits.findIndex(h => h.pageIndex >= currentPage);
+      goToHit(hits, fromHere === -1 ? 0 : fromHere);
+    } catch (err) {
+      console.warn('Search failed:', err);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const closeSearch = () => {
+    setIsSearchOpen(false);
+    setSearchHits([]);
+    setActiveHitIndex(-1);
+    setSearchedQuery(null);
+  };
+
   const jumpToPage = (e: React.FormEvent) => {
     e.preventDefault();
     const pageNum = parseInt(targetPageInput, 10) - 1;
@@ -198,6 +367,7 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
 
   const playSound = (sound: typeof SOUNDS[0]) => {
     setActiveSoundId(sound.id);
+    trackerRef.current?.setSoundscape(sound.id);
     if (audioRef.current) {
       audioRef.current.pause();
       if (sound.id !== 'none') {
@@ -225,6 +395,7 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
       const url = URL.createObjectURL(file);
       setCustomSoundName(file.name);
       setActiveSoundId('custom');
+      trackerRef.current?.setSoundscape('custom');
       audioRef.current.src = url;
       audioRef.current.load();
       audioRef.current.play().catch(e => console.warn("Audio feedback:", e));
@@ -232,6 +403,34 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
     }
   };
 
+  // Highlights and underlines follow the text when the page has a text layer; scanned pages fall back to rectangles
+  const pageHasText = textLayerPage?.index === currentPage && textLayerPage.hasText;
+  const isTextTool = (activeTool === 'highlight' || activeTool === 'underline') && pageHasText;
+  // Drawings and the eraser use Pointer Events, which report pen pressure and keep up with fast strokes
+  const isPenTool = drawing.isDrawingType(activeTool) || activeTool === 'eraser';
+
+  const anchorTextSelection = () => {
+    if (!textLayerRef.current || !pageRef.current) return;
+    const anchor = textSelection.anchorSelection(textLayerRef.current, pageRef.current);
+    if (!anchor) return;
+    const { bounds, ...textAnchor } = anchor;
+    const newAnno: Annotation = {
+      id: Math.random().toString(36).substr(2, 9),
+      type: activeTool as 'highlight' | 'underline',
+      pageIndex: currentPage,
+      chapter: currentChapter?.title,
+      x: bounds.x, y: bounds.y, width: bounds.w, height: bounds.h,
+      ...textAnchor,
+      text: '',
+      title: '',
+      color: activeColor,
+      timestamp: Date.now()
+    };
+    window.getSelection()?.removeAllRanges();
+    setAnnotations(prev => [...prev, newAnno]);
+    setEditingAnnoId(newAnno.id);
+  };
+
   const getRelativeCoords = (clientX: number, clientY: number) => {
     if (!pageRef.current) return { x: 0, y: 0 };
     const rect = pageRef.current.getBoundingClientRect();
@@ -244,7 +443,7 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
     handleUserActivity();
     if (e.touches.length === 2) {
       const dist = Math.hypot(e.touches[0].pageX - e.touches[1].pageX, e.touches[0].pageY - e.touches[1].pageY);
-      initialPinchDistance.current = dist; initialScaleOnPinch.current = zoomScale; setIsPinching(true); setIsDrawing(false); 
+      initialPinchDistance.current = dist; initialScaleOnPinch.current = zoomScale; setIsPinching(true); setIsDrawing(false); setDraft(null); setIsErasing(false);
       return;
     }
     if (activeTool !== 'view' && e.touches.length === 1) handleStart(e.touches[0].clientX, e.touches[0].clientY);
@@ -260,10 +459,10 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
   };
 
   const handleStart = (clientX: number, clientY: number) => {
-    if (activeTool === 'view' || isPinching) return;
+    if (activeTool === 'view' || isPinching || isTextTool || isPenTool) return;
     const { x, y } = getRelativeCoords(clientX, clientY);
     if (activeTool === 'note') {
-      const newNote: Annotation = { id: Math.random().toString(36).substr(2, 9), type: 'note', pageIndex: currentPage, x, y, text: '', title: '', color: activeColor };
+      const newNote: Annotation = { id: Math.random().toString(36).substr(2, 9), type: 'note', pageIndex: currentPage, chapter: currentChapter?.title, x, y, text: '', title: '', color: activeColor, timestamp: Date.now() };
       setAnnotations(prev => [...prev, newNote]); setEditingAnnoId(newNote.id); return;
     }
     setIsDrawing(true); setStartPos({ x, y }); setCurrentRect({ x, y, w: 0, h: 0 });
@@ -280,18 +479,25 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
       setIsPinching(false);
       initialPinchDistance.current = null;
     }
+    if (isTextTool) {
+      // Let touch selections settle before reading them
+      window.setTimeout(anchorTextSelection, 0);
+      return;
+    }
     if (!isDrawing) return;
     if (currentRect && currentRect.w > 0.5) {
       const newAnno: Annotation = { 
         id: Math.random().toString(36).substr(2, 9), 
         type: activeTool as any, 
         pageIndex: currentPage, 
+        chapter: currentChapter?.title,
         x: currentRect.x, 
         y: currentRect.y, 
         width: currentRect.w, 
         height: activeTool === 'underline' ? 0.8 : currentRect.h, 
         color: activeColor, 
-        text: '', title: '' 
+        text: '', title: '',
+        timestamp: Date.now()
       };
       setAnnotations(prev => [...prev, newAnno]); 
       setEditingAnnoId(newAnno.id);
@@ -299,12 +505,77 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
     setIsDrawing(false); setCurrentRect(null);
   };
 
-  const updateEditingAnnotation = (updates: Partial<Annotation>) => {
-    if (!editingAnnoId) return;
-    setAnnotations(prev => prev.map(a => a.id === editingAnnoId ? { ...a, ...updates } : a));
+  const pointFrom = (e: { clientX: number, clientY: number, pointerType: string, pressure: number }): InkPoint => {
+    const { x, y } = getRelativeCoords(e.clientX, e.clientY);
+    // Mice and fingers report a fixed pressure
+    return e.pointerType === 'pen' ? { x, y, pressure: e.pressure } : { x, y };
   };
 
-  const currentEditingAnno = annotations.find(a => a.id === editingAnnoId);
+  const eraseAt = (clientX: number, clientY: number) => {
+    if (!pageSize) return;
+    const point = getRelativeCoords(clientX, clientY);
+    const isHit = (a: Annotation) => a.pageIndex === currentPage && drawing.isDrawingType(a.type) && drawing.hits(a, point, pageSize);
+    // Every new list is saved, so moves that miss keep the current one
+    setAnnotations(prev => prev.some(isHit) ? prev.filter(a => !isHit(a)) : prev);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isPenTool || isPinching || !e.isPrimary) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (activeTool === 'eraser') {
+      setIsErasing(true);
+      eraseAt(e.clientX, e.clientY);
+      return;
+    }
+    setDraft({
+      id: Math.random().toString(36).substr(2, 9),
+      type: activeTool as Annotation['type'],
+      pageIndex: currentPage,
+      chapter: currentChapter?.title,
+      points: [pointFrom(e)],
+      strokeWidth,
+      color: activeColor,
+      text: '', title: '',
+      timestamp: Date.now()
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!e.isPrimary || isPinching) return;
+    if (isErasing) { eraseAt(e.clientX, e.clientY); return; }
+    if (!draft) return;
+    if (draft.type !== 'ink') {
+      setDraft(prev => prev && { ...prev, points: [prev.points![0], pointFrom(e)] });
+      return;
+    }
+    const events = e.nativeEvent.getCoalescedEvents?.() || [];
+    const points = (events.length ? events : [e.nativeEvent]).map(pointFrom);
+    setDraft(prev => prev && { ...prev, points: points.reduce(drawing.addPoint, prev.points || []) });
+  };
+
+  const handlePointerUp = () => {
+    setIsErasing(false);
+    if (!draft || !pageSize) return;
+    const anno = drawing.complete(draft);
+    if (!drawing.isTooSmall(anno, pageSize)) setAnnotations(prev => [...prev, anno]);
+    setDraft(null);
+  };
+
+  const createCardFromAnnotation = async (anno: Annotation) => {
+    // Skips the snapshot for annotations that already have a card
+    if (cardAnnoIds.has(anno.id)) return;
+    let image: string | undefined;
+    const renderer = rendererRef.current;
+    if (renderer) {
+      try {
+        const [pageSrc, size] = await Promise.all([renderer.getPage(anno.pageIndex, SNAPSHOT_SCALE), renderer.getPageSize(anno.pageIndex)]);
+        image = await pageSnapshot.captureRegion(pageSrc, pageSnapshot.regionForAnnotation(anno), { annotation: anno, pageWidth: size.width });
+      } catch (err) {
+        console.warn('Snapshot failed:', err);
+      }
+    }
+    addCard(anno, anno.title || `${book.title} — ${t.page} ${anno.pageIndex + 1}`, image);
+  };
 
   return (
     <div onMouseMove={handleUserActivity} onMouseDown={handleUserActivity}
@@ -331,10 +602,15 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
             <div className="flex items-center gap-2 md:gap-3 pointer-events-auto">
               {!isZenMode && <button onClick={onBack} className="w-9 h-9 md:w-11 md:h-11 flex items-center justify-center bg-white/5 rounded-full text-white/60 hover:bg-white/10 active:scale-90"><ChevronLeft size={18} className={isRTL ? "rotate-180" : ""} /></button>}
               <button onClick={() => setIsArchiveOpen(true)} className="w-9 h-9 md:w-11 md:h-11 flex items-center justify-center bg-white/5 rounded-full text-white/40 hover:bg-white/10 active:scale-90"><ListOrdered size={18} /></button>
+              <button onClick={openOutline} className="w-9 h-9 md:w-11 md:h-11 flex items-center justify-center bg-white/5 rounded-full text-white/40 hover:bg-white/10 active:scale-90"><ListTree size={18} /></button>
               <button onClick={() => setIsSoundPickerOpen(true)} className={`w-9 h-9 md:w-11 md:h-11 flex items-center justify-center rounded-full transition-all active:scale-90 ${activeSoundId !== 'none' ? 'bg-red-600 text-white shadow-lg' : 'bg-white/5 text-white/40 hover:bg-white/10'}`}><Volume2 size={18} /></button>
               <button onClick={() => setIsNightMode(!isNightMode)} className={`w-9 h-9 md:w-11 md:h-11 flex items-center justify-center rounded-full transition-all active:scale-90 ${isNightMode ? 'bg-red-600 text-white' : 'bg-white/5 text-white/40 hover:bg-white/10'}`}>{isNightMode ? <Sun size={18} /> : <Moon size={18} />}</button>
             </div>
+            {currentChapter && (
+              <button onClick={openOutline} className="hidden sm:block min-w-0 flex-1 px-4 text-center truncate text-[9px] font-black uppercase tracking-[0.3em] text-white/40 hover:text-white transition-colors">{currentChapter.title}</button>
+            )}
             <div className="flex items-center gap-2 pointer-events-auto">
+              <button onClick={() => isSearchOpen ? closeSearch() : setIsSearchOpen(true)} className={`w-9 h-9 md:w-11 md:h-11 flex items-center justify-center rounded-full transition-all active:scale-90 ${isSearchOpen ? 'bg-white text-black shadow-xl' : 'bg-white/5 text-white/40 hover:bg-white/10'}`}><Search size={18} /></button>
               <button onClick={() => setIsToolsOpen(!isToolsOpen)} className={`w-9 h-9 md:w-11 md:h-11 flex items-center justify-center rounded-full transition-all active:scale-90 ${isToolsOpen ? 'bg-white text-black shadow-xl' : 'bg-white/5 text-white/40'}`}><Palette size={18} /></button>
               <button onClick={toggleZenMode} className={`w-9 h-9 md:w-11 md:h-11 flex items-center justify-center rounded-full border transition-all ${isZenMode ? 'bg-red-600 border-red-600 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}><Maximize2 size={18} /></button>
             </div>
@@ -342,14 +618,31 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {isSearchOpen && showControls && (
+          <MotionDiv key="search-bar" initial={{ y: -20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: -20, opacity: 0 }} className="fixed top-20 md:top-24 left-1/2 -translate-x-1/2 z-[1200] w-[calc(100%-2rem)] max-w-md bg-black/80 backdrop-blur-3xl border border-white/10 rounded-full pl-4 pr-1.5 py-1.5 shadow-4xl flex items-center gap-2 pointer-events-auto">
+            {isSearching ? <Loader2 size={14} className="text-red-600 animate-spin shrink-0" /> : <Search size={14} className="text-white/30 shrink-0" />}
+            <form className="flex-1" onSubmit={(e) => { e.preventDefault(); searchedQuery === searchQuery ? goToHit(searchHits, activeHitIndex + 1) : runSearch(searchQuery); }}>
+              <input autoFocus type="text" value={searchQuery} onChange={(e) => { setSearchQuery(e.target.value); setSearchHits([]); setActiveHitIndex(-1); setSearchedQuery(null); }} className="w-full bg-transparent text-[11px] font-bold text-white outline-none placeholder:text-white/20" placeholder={t.searchBook} />
+            </form>
+            {searchedQuery !== null && (
+              <span className={`text-[9px] font-black tracking-widest shrink-0 ${searchHits.length > 0 ? 'text-white/50' : 'text-red-600'}`}>{activeHitIndex + 1}/{searchHits.length}</span>
+            )}
+            <button onClick={() => goToHit(searchHits, activeHitIndex - 1)} disabled={searchHits.length === 0} className="w-7 h-7 flex items-center justify-center rounded-full text-white/40 hover:bg-white/10 disabled:opacity-20"><ChevronUp size={14} /></button>
+            <button onClick={() => goToHit(searchHits, activeHitIndex + 1)} disabled={searchHits.length === 0} className="w-7 h-7 flex items-center justify-center rounded-full text-white/40 hover:bg-white/10 disabled:opacity-20"><ChevronDown size={14} /></button>
+            <button onClick={closeSearch} className="w-7 h-7 flex items-center justify-center rounded-full text-white/40 hover:bg-white/10"><X size={14} /></button>
+          </MotionDiv>
+        )}
+      </AnimatePresence>
+
       <main className="flex-1 flex items-center justify-center bg-black relative overflow-hidden" ref={containerRef}>
         <AnimatePresence>
           {isThumbnailsOpen && (
             <MotionDiv initial={{ x: -100, opacity: 0 }} animate={{ x: 0, opacity: 1 }} exit={{ x: -100, opacity: 0 }} className="fixed left-0 top-0 bottom-0 w-24 md:w-32 bg-black/80 backdrop-blur-2xl z-[1500] border-r border-white/5 flex flex-col pt-24 pb-8 overflow-y-auto no-scrollbar scroll-smooth">
-              {pages.map((p, idx) => (
+              {rendererRef.current && Array.from({ length: totalPages }, (_, idx) => (
                 <button key={idx} onClick={() => handlePageChange(idx)} className={`p-2 md:p-3 transition-all ${currentPage === idx ? 'scale-110 brightness-125' : 'opacity-40 hover:opacity-100 grayscale hover:grayscale-0'}`}>
                   <div className={`aspect-[1/1.4] bg-white rounded-lg overflow-hidden border-2 transition-all ${currentPage === idx ? 'border-red-600 shadow-[0_0_15px_rgba(255,0,0,0.5)]' : 'border-transparent'}`}>
-                    {p && <img src={p} className="w-full h-full object-cover" alt={`p${idx}`} />}
+                    <PageThumbnail renderer={rendererRef.current!} index={idx} />
                     <div className="absolute bottom-1 right-2 bg-black/60 px-1 rounded text-[7px] font-bold text-white">{idx+1}</div>
                   </div>
                 </button>
@@ -358,7 +651,7 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
           )}
         </AnimatePresence>
 
-        {!isLoading && (
+        {totalPages > 0 && (
           <div className={`relative w-full h-full flex items-center justify-center overflow-hidden ${isZenMode ? 'p-0' : 'p-6'}`}>
             <MotionDiv 
               ref={pageRef} 
@@ -378,9 +671,13 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
               onTouchStart={handleTouchStart} 
               onTouchMove={handleTouchMove} 
               onTouchEnd={handleEnd} 
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
               animate={{ scale: zoomScale }} 
-              className={`relative shadow-[0_0_100px_rgba(0,0,0,1)] overflow-hidden touch-none will-change-transform ${isZenMode ? 'h-full w-full rounded-none' : 'max-h-[85vh] w-auto aspect-[1/1.41] rounded-2xl md:rounded-3xl'}`} 
-              style={{ backgroundColor: isNightMode ? '#001122' : '#ffffff', transformOrigin: 'center center', userSelect: 'none' }}
+              className={`relative shadow-[0_0_100px_rgba(0,0,0,1)] overflow-hidden touch-none will-change-transform shrink-0 ${isZenMode ? 'rounded-none' : 'rounded-2xl md:rounded-3xl'} ${isPenTool ? 'cursor-crosshair' : ''}`} 
+              style={{ width: pageSize ? pageSize.width * fitScale : 0, height: pageSize ? pageSize.height * fitScale : 0, backgroundColor: isNightMode ? '#001122' : '#ffffff', transformOrigin: 'center center', userSelect: 'none' }}
             >
               <AnimatePresence mode="wait">
                 <MotionDiv
@@ -391,21 +688,45 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
                   transition={{ duration: 0.12, ease: "easeOut" }}
                   className="w-full h-full flex items-center justify-center bg-transparent"
                 >
-                  {pages[currentPage] && (
-                    <img src={pages[currentPage]} className="w-full h-full object-contain pointer-events-none select-none" style={{ filter: isNightMode ? 'invert(1) hue-rotate(180deg)' : 'none' }} alt={`Page ${currentPage + 1}`} />
+                  {pageImage?.index === currentPage && (
+                    <img src={pageImage.src} className="w-full h-full object-contain pointer-events-none select-none" style={{ filter: isNightMode ? 'invert(1) hue-rotate(180deg)' : 'none' }} alt={`Page ${currentPage + 1}`} />
                   )}
                 </MotionDiv>
               </AnimatePresence>
+
+              <div ref={textLayerRef} className="absolute inset-0"
+                style={{ ['--scale-factor' as any]: fitScale, pointerEvents: activeTool === 'view' || isTextTool ? 'auto' : 'none', userSelect: activeTool === 'view' || isTextTool ? 'text' : 'none' }}
+              />
               
               <div className="absolute inset-0 pointer-events-none">
-                {annotations.filter(a => a.pageIndex === currentPage).map(anno => (
-                  <div key={anno.id} className="absolute pointer-events-auto cursor-pointer" onClick={() => setEditingAnnoId(anno.id)}
+                {pageSize && (
+                  <DrawingLayer
+                    drawings={annotations.filter(a => a.pageIndex === currentPage && drawing.isDrawingType(a.type))}
+                    draft={draft}
+                    size={pageSize}
+                    onSelect={activeTool === 'view' ? setEditingAnnoId : undefined}
+                  />
+                )}
+                {annotations.filter(a => a.pageIndex === currentPage && !drawing.isDrawingType(a.type)).map(anno => anno.rects?.length ? (
+                  anno.rects.map((r, i) => (
+                    <div key={`${anno.id}-${i}`} className={`absolute cursor-pointer ${isTextTool ? '' : 'pointer-events-auto'}`} onClick={() => setEditingAnnoId(anno.id)}
+                      style={{ left: `${r.x}%`, top: `${r.y}%`, width: `${r.w}%`, height: `${r.h}%`, 
+                        backgroundColor: anno.type === 'highlight' ? `${anno.color}44` : 'transparent', borderBottom: anno.type === 'underline' ? `3px solid ${anno.color}` : 'none' }}
+                    />
+                  ))
+                ) : (
+                  <div key={anno.id} className={`absolute cursor-pointer ${isTextTool ? '' : 'pointer-events-auto'}`} onClick={() => setEditingAnnoId(anno.id)}
                     style={{ left: `${anno.x}%`, top: `${anno.y}%`, width: anno.width ? `${anno.width}%` : '0%', height: anno.height ? `${anno.height}%` : '0%', 
                       backgroundColor: anno.type === 'highlight' ? `${anno.color}44` : 'transparent', borderBottom: anno.type === 'underline' ? `3px solid ${anno.color}` : 'none', border: anno.type === 'box' ? `2px solid ${anno.color}` : 'none' }}
                   >
                     {anno.type === 'note' && <div className="w-7 h-7 -translate-x-1/2 -translate-y-1/2 rounded-full shadow-2xl border-2 border-white flex items-center justify-center" style={{ backgroundColor: anno.color }}><MessageSquare size={12} className="text-white" /></div>}
                   </div>
                 ))}
+                {hitRects.map(hit => hit.rects.map((r, i) => (
+                  <div key={`hit-${hit.id}-${i}`} className={`absolute rounded-sm ${hit.active ? 'bg-red-600/40 ring-2 ring-red-600' : 'bg-yellow-400/40'}`}
+                    style={{ left: `${r.x}%`, top: `${r.y}%`, width: `${r.w}%`, height: `${r.h}%` }}
+                  />
+                )))}
                 {currentRect && <div className="absolute border-2 border-dashed pointer-events-none" style={{ left: `${currentRect.x}%`, top: `${currentRect.y}%`, width: `${currentRect.w}%`, height: `${activeTool === 'underline' ? 0.8 : currentRect.h}%`, borderColor: activeColor, backgroundColor: activeTool === 'highlight' ? `${activeColor}22` : 'transparent' }} />}
               </div>
             </MotionDiv>
@@ -419,21 +740,30 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
             <MotionDiv initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 20, opacity: 0 }} className="flex flex-col items-center gap-4 pointer-events-auto">
               
               <AnimatePresence>
+                {isToolsOpen && activeTool !== 'view' && activeTool !== 'eraser' && (
+                  <MotionDiv key="legend" initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 20, opacity: 0 }}>
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                      <PaletteLegend colors={palette} activeColor={activeColor} onSelect={setActiveColor} />
+                      {drawing.isDrawingType(activeTool) && (
+                        <div className="flex items-center gap-1 bg-black/95 p-1 rounded-full border border-white/10 shadow-2xl" title={t.strokeWidth}>
+                          {STROKE_WIDTHS.map(width => (
+                            <button key={width} onClick={() => setStrokeWidth(width)} className={`w-7 h-7 flex items-center justify-center rounded-full transition-all ${strokeWidth === width ? 'bg-white/10' : 'opacity-40 hover:opacity-100'}`}>
+                              <span className="rounded-full" style={{ width: width + 2, height: width + 2, backgroundColor: activeColor }} />
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </MotionDiv>
+                )}
                 {isToolsOpen && (
-                  <MotionDiv initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 20, opacity: 0 }} className="bg-black/80 backdrop-blur-3xl border border-white/10 px-4 py-2 rounded-full shadow-4xl flex items-center gap-3 mb-2">
+                  <MotionDiv key="tools" initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 20, opacity: 0 }} className="bg-black/80 backdrop-blur-3xl border border-white/10 px-4 py-2 rounded-full shadow-4xl flex items-center gap-3 mb-2">
                     {(Object.keys(TOOL_ICONS) as Tool[]).map(tool => {
                       const Icon = TOOL_ICONS[tool];
                       const isActive = activeTool === tool;
                       return (
                         <div key={tool} className="relative flex items-center">
                           <button onClick={() => setActiveTool(activeTool === tool ? 'view' : tool)} className={`w-8 h-8 flex items-center justify-center rounded-full transition-all duration-300 ${isActive ? 'bg-red-600 text-white shadow-xl scale-110' : 'text-white/30 hover:bg-white/5'}`}><Icon size={14}/></button>
-                          {isActive && tool !== 'view' && (
-                            <div className="absolute -top-10 left-1/2 -translate-x-1/2 flex items-center gap-1.5 bg-black/95 p-1.5 rounded-full border border-white/10 shadow-2xl">
-                              {COLORS.map(c => (
-                                <button key={c.hex} onClick={() => setActiveColor(c.hex)} className={`w-3.5 h-3.5 rounded-full border transition-all ${activeColor === c.hex ? 'border-white scale-125 shadow-[0_0_8px_white]' : 'border-transparent opacity-60 hover:opacity-100'}`} style={{ backgroundColor: c.hex }} />
-                              ))}
-                            </div>
-                          )}
                         </div>
                       );
                     })}
@@ -441,10 +771,7 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
                 )}
               </AnimatePresence>
 
-              <div className="bg-red-600/10 border border-red-600/30 px-5 py-1.5 rounded-full backdrop-blur-xl flex items-center gap-2 shadow-2xl">
-                 <Clock size={12} className="text-red-600 animate-pulse" />
-                 <span className="text-[10px] md:text-xs font-black text-red-600 tracking-widest">{Math.floor(sessionSeconds/60)}m</span>
-              </div>
+              <SessionClock seconds={sessionSeconds} isIdle={isIdle} />
 
               <div className="bg-black/60 backdrop-blur-3xl border border-white/10 rounded-full p-2 flex items-center gap-2 shadow-4xl">
                  <button onClick={() => setIsThumbnailsOpen(!isThumbnailsOpen)} className={`w-9 h-9 flex items-center justify-center rounded-full transition-all ${isThumbnailsOpen ? 'bg-white text-black shadow-xl' : 'text-white/40 hover:bg-white/5'}`}><LayoutGrid size={16}/></button>
@@ -453,7 +780,7 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
                    <span className="text-[10px] font-black text-white px-2 min-w-[40px] text-center">{currentPage+1}/{totalPages}</span>
                    <button onClick={() => handlePageChange(currentPage+1)} className="text-white/30 hover:text-white transition-colors"><ChevronRight size={16}/></button>
                  </div>
-                 <button onClick={() => setIsGoToPageOpen(true)} className="w-9 h-9 flex items-center justify-center rounded-full text-white/40 hover:bg-white/5 transition-colors"><Search size={16}/></button>
+                 <button onClick={() => setIsGoToPageOpen(true)} className="w-9 h-9 flex items-center justify-center rounded-full text-white/40 hover:bg-white/5 transition-colors"><Hash size={16}/></button>
               </div>
             </MotionDiv>
           )}
@@ -494,53 +821,52 @@ export const Reader: React.FC<ReaderProps> = ({ book, lang, onBack, onStatsUpdat
           </MotionDiv>
         )}
 
-        {isArchiveOpen && (
-          <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[2000] bg-black/40 backdrop-blur-[40px] p-6 flex items-center justify-center pointer-events-auto">
+        {isOutlineOpen && (
+          <MotionDiv key="outline" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[2000] bg-black/40 backdrop-blur-[40px] p-6 flex items-center justify-center pointer-events-auto">
              <MotionDiv initial={{ y: 50 }} animate={{ y: 0 }} className="w-full max-w-xl bg-[#0b140b] border border-white/10 rounded-[2.5rem] p-6 max-h-[70vh] overflow-hidden flex flex-col shadow-4xl">
                 <div className="flex justify-between items-center mb-6 shrink-0">
-                  <h2 className="text-lg font-black italic uppercase tracking-tighter text-white/60">{t.wisdomIndex}</h2>
-                  <button onClick={() => setIsArchiveOpen(false)} className="hover:text-red-600 transition-colors p-1.5 bg-white/5 rounded-full"><X size={16}/></button>
+                  <h2 className="text-lg font-black italic uppercase tracking-tighter text-white/60">{t.tableOfContents}</h2>
+                  <button onClick={() => setIsOutlineOpen(false)} className="hover:text-red-600 transition-colors p-1.5 bg-white/5 rounded-full"><X size={16}/></button>
                 </div>
-                <div className="flex-1 overflow-y-auto custom-scroll space-y-2 pr-1">
-                  {annotations.length === 0 ? <p className="text-center opacity-20 py-20 uppercase font-black tracking-widest text-xs">{t.noAnnotations}</p> : 
-                    [...annotations].sort((a,b) => a.pageIndex - b.pageIndex).map(anno => (
-                    <div key={anno.id} className="p-3.5 bg-white/[0.03] rounded-xl border border-white/5 hover:border-red-600/30 transition-all flex items-start justify-between gap-3">
-                      <div className="cursor-pointer flex-1" onClick={() => { handlePageChange(anno.pageIndex); setIsArchiveOpen(false); }}>
-                        <div className="flex items-center gap-2 mb-1">
-                          <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: anno.color }} />
-                          <span className="text-[8px] font-black text-red-600 uppercase tracking-widest">{t.page} {anno.pageIndex + 1}</span>
-                        </div>
-                        <h4 className="text-[10px] font-black text-white/90 truncate">{anno.title || '...'}</h4>
-                      </div>
-                      <button onClick={() => { setEditingAnnoId(anno.id); setIsArchiveOpen(false); }} className="p-2 text-white/20 hover:text-white transition-all rounded-lg bg-white/5"><Edit3 size={12} /></button>
-                    </div>
-                  ))}
+                <div className="flex-1 overflow-y-auto custom-scroll pr-1">
+                  {outline.length === 0 ? <p className="text-center opacity-20 py-20 uppercase font-black tracking-widest text-xs">{t.noOutline}</p> : (
+                    <OutlineTree items={outline} currentTitle={currentChapter?.title} expanded={expandedOutline} onToggle={toggleOutlineItem} onSelect={(pageIndex) => { handlePageChange(pageIndex); setIsOutlineOpen(false); }} />
+                  )}
                 </div>
              </MotionDiv>
           </MotionDiv>
         )}
 
+        {isArchiveOpen && (
+          <AnnotationArchive key="archive" annotations={annotations} palette={palette} lang={lang} locationLabel={t.page} cardAnnoIds={cardAnnoIds}
+            onGoTo={anno => { handlePageChange(anno.pageIndex); setIsArchiveOpen(false); }}
+            onEdit={anno => { setEditingAnnoId(anno.id); setIsArchiveOpen(false); }}
+            onMakeCard={createCardFromAnnotation}
+            onClose={() => setIsArchiveOpen(false)}
+          />
+        )}
+
+        {isIdle && <IdlePrompt key="idle-prompt" lang={lang} onResume={resumeReading} />}
+
+        {cardToast && <CardToast key="card-toast" lang={lang} />}
+
         {editingAnnoId && currentEditingAnno && (
-          <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[4000] bg-black/60 backdrop-blur-xl flex items-center justify-center p-6 pointer-events-auto">
-            <MotionDiv initial={{ scale: 0.95, y: 20 }} animate={{ scale: 1, y: 0 }} className="bg-black/40 backdrop-blur-2xl border border-white/10 p-5 rounded-[2rem] w-full max-w-[300px] shadow-5xl flex flex-col">
-              <div className="flex items-center justify-between mb-4">
-                 <div className="flex items-center gap-2">
-                    <div className="p-2 rounded-xl bg-white/5 border border-white/10" style={{ color: currentEditingAnno.color }}><Highlighter size={16} /></div>
-                    <h3 className="text-xs font-black uppercase text-white/90">{isRTL ? 'بيانات التعديل' : 'Modification Details'}</h3>
-                 </div>
-                 <button onClick={() => setEditingAnnoId(null)} className="p-1.5 rounded-full bg-white/5 text-white/30 hover:text-white"><X size={14}/></button>
-              </div>
-              <div className="space-y-3 flex-1 overflow-y-auto no-scrollbar pr-1">
-                <input type="text" value={currentEditingAnno.title || ''} onChange={(e) => updateEditingAnnotation({ title: e.target.value })} className="w-full bg-white/5 border border-white/10 rounded-xl p-2.5 text-[10px] font-bold text-white outline-none focus:border-red-600/50" placeholder={isRTL ? 'عنوان التعديل...' : 'Entry Title...'} />
-                <textarea value={currentEditingAnno.text || ''} onChange={(e) => updateEditingAnnotation({ text: e.target.value })} className="w-full bg-white/5 border border-white/10 rounded-xl p-2.5 text-[10px] font-bold text-white outline-none focus:border-red-600/50 min-h-[70px] resize-none" placeholder={isRTL ? 'ملاحظات استخلاص الحكمة...' : 'Wisdom Notes...'} />
-                <div className="flex flex-wrap gap-1.5">{COLORS.map(c => (<button key={c.hex} onClick={() => updateEditingAnnotation({ color: c.hex })} className={`w-5 h-5 rounded-full border transition-all ${currentEditingAnno.color === c.hex ? 'border-white scale-110 shadow-[0_0_8px_white]' : 'border-transparent opacity-60'}`} style={{ backgroundColor: c.hex }} />))}</div>
-              </div>
-              <div className="flex gap-2 mt-4 pt-3 border-t border-white/5">
-                <button onClick={() => { setAnnotations(annotations.filter(a => a.id !== editingAnnoId)); setEditingAnnoId(null); }} className="w-9 h-9 bg-red-600/10 border border-red-600/20 text-red-600 rounded-lg flex items-center justify-center hover:bg-red-600 hover:text-white transition-all"><Trash2 size={14}/></button>
-                <button onClick={() => setEditingAnnoId(null)} className="flex-1 bg-white text-black py-2 rounded-lg font-black uppercase text-[8px] tracking-widest hover:bg-red-600 hover:text-white transition-all flex items-center justify-center gap-2"><Check size={12}/>{isRTL ? 'حفظ بالفهرس' : 'Save to Index'}</button>
+          <AnnotationEditor key="editor" annotation={currentEditingAnno} palette={palette} lang={lang} hasCard={cardAnnoIds.has(currentEditingAnno.id)}
+            onChange={updateEditingAnnotation}
+            onDelete={deleteEditingAnnotation}
+            onMakeCard={() => createCardFromAnnotation(currentEditingAnno)}
+            onClose={() => setEditingAnnoId(null)}
+          >
+            {drawing.isDrawingType(currentEditingAnno.type) && (
+              <div className="flex items-center gap-1.5" title={t.strokeWidth}>
+                {STROKE_WIDTHS.map(width => (
+                  <button key={width} onClick={() => updateEditingAnnotation({ strokeWidth: width })} className={`w-7 h-7 flex items-center justify-center rounded-lg border transition-all ${(currentEditingAnno.strokeWidth ?? DEFAULT_STROKE_WIDTH) === width ? 'border-white/40 bg-white/10' : 'border-transparent opacity-50'}`}>
+                    <span className="rounded-full" style={{ width: width + 2, height: width + 2, backgroundColor: currentEditingAnno.color }} />
+                  </button>
+                ))}
               </div>
-            </MotionDiv>
-          </MotionDiv>
+            )}
+          </AnnotationEditor>
         )}
       </AnimatePresence>
     </div>
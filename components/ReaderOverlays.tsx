@@ -0,0 +1,36 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Language } from '../types';
+import { translations } from '../i18n/translations';
+import { Clock, Layers } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+export const SessionClock: React.FC<{ seconds: number; isIdle: boolean }> = ({ seconds, isIdle }) => (
+  <div className="bg-red-600/10 border border-red-600/30 px-5 py-1.5 rounded-full backdrop-blur-xl flex items-center gap-2 shadow-2xl">
+     <Clock size={12} className={`text-red-600 ${isIdle ? 'opacity-30' : 'animate-pulse'}`} />
+     <span className="text-[10px] md:text-xs font-black text-red-600 tracking-widest">{Math.floor(seconds / 60)}m</span>
+  </div>
+);
+
+// Shown once the reading clock pauses for inactivity
+export const IdlePrompt: React.FC<{ lang: Language; onResume: () => void }> = ({ lang, onResume }) => {
+  const t = translations[lang];
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[4800] bg-black/70 backdrop-blur-xl flex items-center justify-center p-6 pointer-events-auto">
+      <MotionDiv initial={{ scale: 0.95, y: 20 }} animate={{ scale: 1, y: 0 }} className="bg-[#0b140b] border border-white/10 p-8 rounded-[2.5rem] w-full max-w-xs shadow-5xl text-center flex flex-col items-center gap-5">
+        <div className="p-4 rounded-full bg-red-600/10 border border-red-600/20"><Clock size={22} className="text-red-600" /></div>
+        <h3 className="text-sm font-black uppercase tracking-widest text-white/80">{t.stillReading}</h3>
+        <p className="text-[10px] font-bold text-white/40 leading-relaxed">{t.stillReadingHint}</p>
+        <button onClick={onResume} autoFocus className="w-full bg-red-600 py-3 rounded-xl font-black uppercase text-[9px] tracking-widest shadow-lg text-white hover:bg-white hover:text-black transition-all">{t.resumeReading}</button>
+      </MotionDiv>
+    </MotionDiv>
+  );
+};
+
+export const CardToast: React.FC<{ lang: Language }> = ({ lang }) => (
+  <MotionDiv initial={{ y: -20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: -20, opacity: 0 }} className="fixed top-24 left-1/2 -translate-x-1/2 z-[4500] bg-black/80 backdrop-blur-2xl border border-red-600/30 px-5 py-2.5 rounded-full shadow-2xl flex items-center gap-2 pointer-events-none">
+    <Layers size={12} className="text-red-600" />
+    <span className="text-[9px] font-black uppercase tracking-widest text-white/80">{translations[lang].cardCreated}</span>
+  </MotionDiv>
+);
@@ -0,0 +1,529 @@
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Book, Language, Annotation, ReaderTarget, ReflowSettings, ReflowFont, ReflowMargin, ReflowTheme } from '../types';
+import { translations } from '../i18n/translations';
+import { storageService } from '../services/storageService';
+import { reflowDocument, ReflowDocument } from '../services/reflowDocument';
+import { textSelection } from '../services/textSelection';
+import { textSearch } from '../services/textSearch';
+import { OutlineItem } from '../services/outline';
+import { OutlineTree } from './OutlineTree';
+import { PaletteLegend } from './PaletteLegend';
+import { AnnotationArchive } from './AnnotationArchive';
+import { AnnotationEditor } from './AnnotationEditor';
+import { SessionClock, IdlePrompt, CardToast } from './ReaderOverlays';
+import { useReaderSession, useReaderAnnotations } from './useReaderSession';
+import {
+  ChevronLeft, ChevronRight, Maximize2, Highlighter, PenTool, X,
+  MousePointer2, ListOrdered, Sparkles, Palette, ListTree, Type, Minus, Plus
+} from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+const MotionHeader = motion.header as any;
+
+interface ReflowReaderProps {
+  book: Book;
+  lang: Language;
+  onBack: () => void;
+  onStarReached: (star: number) => void;
+  openAt?: ReaderTarget;
+}
+
+type Tool = 'view' | 'highlight' | 'underline';
+
+// Where to land once a chapter has been laid out: a fraction of the chapter or an element in it
+type Landing = { progress: number } | { selector: string };
+
+const TOOL_ICONS = {
+  view: MousePointer2,
+  highlight: Highlighter,
+  underline: PenTool
+};
+
+// Horizontal space between two CSS columns, i.e. between pages
+const PAGE_GAP = 48;
+const FONT_SIZE = { min: 14, max: 28, step: 2 };
+const LINE_HEIGHT = { min: 1.3, max: 2.2, step: 0.1 };
+
+// Each stack pairs a Latin face with an Arabic one
+const FONT_FAMILIES: Record<ReflowFont, string> = {
+  sans: "'Montserrat', 'Tajawal', sans-serif",
+  serif: "'Literata', 'Amiri', Georgia, serif",
+  mono: "ui-monospace, 'SFMono-Regular', Menlo, monospace"
+};
+
+// Wider margins mean a narrower text column
+const MARGINS: Record<ReflowMargin, number> = { narrow: 960, normal: 720, wide: 540 };
+
+const THEMES: Record<ReflowTheme, { background: string, color: string }> = {
+  paper: { background: '#f7f3ea', color: '#1c1917' },
+  white: { background: '#ffffff', color: '#111111' },
+  sepia: { background: '#f1e3c6', color: '#5b4636' },
+  night: { background: '#001122', color: '#d5e0ec' }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const ReflowReader: React.FC<ReflowReaderProps> = ({ book, lang, onBack, onStarReached, openAt }) => {
+  const initialChapter = openAt?.pageIndex ?? book.readingPosition?.chapter ?? (book.lastPage || 0);
+  const [doc, setDoc] = useState<ReflowDocument | null>(null);
+  const [chapter, setChapter] = useState(initialChapter);
+  const [page, setPage] = useState(0);
+  const [pageCount, setPageCount] = useState(1);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [typography, setTypography] = useState<ReflowSettings>(() => storageService.getSettings().reflow);
+  const [hitQuery, setHitQuery] = useState(openAt?.query || '');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [activeTool, setActiveTool] = useState<Tool>('view');
+  const [isArchiveOpen, setIsArchiveOpen] = useState(false);
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false);
+  const [expandedOutline, setExpandedOutline] = useState<Set<string>>(new Set());
+  const [isToolsOpen, setIsToolsOpen] = useState(false);
+  const [isTypographyOpen, setIsTypographyOpen] = useState(false);
+
+  const frameRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const touchStartRef = useRef<{ x: number, y: number } | null>(null);
+  const positionRef = useRef({ page: 0, pageCount: 1 });
+  const landingRef = useRef<Landing | null>(
+    openAt?.query ? { selector: 'mark[data-search-hit]' }
+      : openAt?.annotationId ? { selector: `mark[data-anno-id="${openAt.annotationId}"]` }
+      : { progress: !openAt && book.readingPosition?.chapter === initialChapter ? book.readingPosition.progress : 0 }
+  );
+
+  const {
+    palette, activeColor, setActiveColor, annotations, setAnnotations,
+    editingAnnoId, setEditingAnnoId, currentEditingAnno, updateEditingAnnotation, deleteEditingAnnotation,
+    applyColorShortcut, cardAnnoIds, cardToast, addCard
+  } = useReaderAnnotations(book, openAt);
+  const { trackerRef, sessionSeconds, isIdle, resumeReading, isZenMode, showControls, toggleZenMode, handleUserActivity } = useReaderSession(
+    book, initialChapter, onStarReached,
+    () => { setIsToolsOpen(false); setIsTypographyOpen(false); }
+  );
+
+  const t = translations[lang];
+  const isRTL = lang === 'ar';
+  const fontClass = isRTL ? 'font-ar' : 'font-en';
+  const bookDirection = doc?.direction || 'ltr';
+  const chapterTitle = doc?.chapters[chapter]?.title || '';
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: ReflowDocument | null = null;
+    reflowDocument.load(book).then(result => {
+      if (cancelled) { result?.dispose(); return; }
+      if (!result || result.chapters.length === 0) { result?.dispose(); onBack(); return; }
+      loaded = result;
+      if (book.chapterCount !== result.chapters.length) storageService.updateBookDetails(book.id, { chapterCount: result.chapters.length });
+      setChapter(c => clamp(c, 0, result.chapters.length - 1));
+      setDoc(result);
+    }).catch(err => {
+      console.warn('Unable to open book:', err);
+      if (!cancelled) onBack();
+    });
+    return () => {
+      cancelled = true;
+      loaded?.dispose();
+    };
+  }, [book.id]);
+
+  useEffect(() => {
+    const el = frameRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewport({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Page of an element within the chapter, independent of the current translation
+  const pageOf = (el: Element) => {
+    const root = contentRef.current!;
+    const rect = el.getClientRects()[0] || el.getBoundingClientRect();
+    const box = root.getBoundingClientRect();
+    const stride = root.clientWidth + PAGE_GAP;
+    const distance = bookDirection === 'rtl' ? box.right - rect.right : rect.left - box.left;
+    return Math.max(0, Math.floor((distance + PAGE_GAP / 2) / stride));
+  };
+
+  // The chapter flows into viewport-wide CSS columns; each column is a page
+  const measure = (landing: Landing) => {
+    const root = contentRef.current;
+    if (!root || !root.clientWidth) return;
+    const stride = root.clientWidth + PAGE_GAP;
+    const count = Math.max(1, Math.round((root.scrollWidth + PAGE_GAP) / stride));
+    let target = 0;
+    if ('progress' in landing) {
+      target = Math.floor(landing.progress * count);
+    } else {
+      const el = root.querySelector(landing.selector);
+      if (el) target = pageOf(el);
+    }
+    target = clamp(target, 0, count - 1);
+    root.style.transition = 'none';
+    positionRef.current = { page: target, pageCount: count };
+    setPageCount(count);
+    setPage(target);
+    setIsLoading(false);
+  };
+
+  const currentProgress = (): Landing => ({ progress: positionRef.current.page / positionRef.current.pageCount });
+
+  const chapterAnnotations = useMemo(
+    () => annotations.filter(a => a.pageIndex === chapter && a.startOffset !== undefined && a.endOffset !== undefined),
+    [annotations, chapter]
+  );
+  const markKey = chapterAnnotations.map(a => `${a.id}:${a.startOffset}:${a.endOffset}:${a.type}:${a.color}`).join('|');
+
+  // Rebuilds the chapter with its annotation marks, then paginates it. Marks only wrap
+  // existing text, so the stored offsets stay valid however many overlap.
+  useLayoutEffect(() => {
+    const root = contentRef.current;
+    if (!doc || !root || !viewport.width) return;
+    root.innerHTML = doc.chapters[chapter]?.html || '';
+    chapterAnnotations.forEach(anno => {
+      textSelection.markOffsets(root, anno.startOffset!, anno.endOffset!, mark => {
+        mark.dataset.annoId = anno.id;
+        if (anno.type === 'underline') {
+          mark.style.textDecorationLine = 'underline';
+          mark.style.textDecorationColor = anno.color;
+          mark.style.textDecorationThickness = '3px';
+        } else {
+          mark.style.backgroundColor = `${anno.color}55`;
+        }
+      });
+    });
+    if (hitQuery) {
+      const [hit] = textSearch.findMatches(root.textContent || '', hitQuery, 1);
+      if (hit) textSelection.markOffsets(root, hit.start, hit.end, mark => {
+        mark.dataset.searchHit = '';
+        mark.style.backgroundColor = 'rgba(255, 0, 0, 0.35)';
+      });
+    }
+
+    measure(landingRef.current || currentProgress());
+    landingRef.current = null;
+
+    // Images change the layout as they decode
+    const remeasure = () => measure(currentProgress());
+    const pending = Array.from(root.querySelectorAll('img')).filter(img => !img.complete);
+    pending.forEach(img => img.addEventListener('load', remeasure));
+    return () => pending.forEach(img => img.removeEventListener('load', remeasure));
+  }, [doc, chapter, markKey, hitQuery, viewport, typography]);
+
+  useEffect(() => {
+    if (isLoading) return;
+    storageService.updateBookDetails(book.id, { lastPage: chapter, readingPosition: { chapter, progress: page / pageCount } });
+  }, [chapter, page, pageCount, isLoading]);
+
+  useEffect(() => { trackerRef.current?.setPage(chapter); }, [chapter]);
+
+  const goToChapter = (index: number, landing: Landing) => {
+    if (!doc || index < 0 || index >= doc.chapters.length) return;
+    if (index === chapter) { measure(landing); return; }
+    landingRef.current = landing;
+    setHitQuery('');
+    setChapter(index);
+  };
+
+  // Pages past either end of a chapter continue into the neighbouring chapter
+  const turnPage = (delta: number) => {
+    const next = page + delta;
+    if (next >= 0 && next < pageCount) {
+      if (contentRef.current) contentRef.current.style.transition = 'transform 0.3s ease-out';
+      positionRef.current = { page: next, pageCount };
+      setPage(next);
+    } else if (delta > 0) {
+      goToChapter(chapter + 1, { progress: 0 });
+    } else {
+      goToChapter(chapter - 1, { progress: 1 });
+    }
+  };
+
+  // Arrow keys and swipes follow the book's direction: in a right-to-left book the next page is to the left
+  const turnTowards = (side: 'left' | 'right') => turnPage((side === 'right') === (bookDirection === 'ltr') ? 1 : -1);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const tag = (e.target as HTMLElement).tagName;
+      if (tag === 'INPUT' || tag === 'TEXTAREA') return;
+      if (applyColorShortcut(e)) return;
+      if (editingAnnoId || isOutlineOpen || isArchiveOpen) return;
+      if (e.key === 'ArrowRight') turnTowards('right');
+      else if (e.key === 'ArrowLeft') turnTowards('left');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [page, pageCount, chapter, doc, editingAnnoId, isOutlineOpen, isArchiveOpen]);
+
+  const updateTypography = (updates: Partial<ReflowSettings>) => {
+    const next = { ...typography, ...updates };
+    setTypography(next);
+    storageService.saveSettings({ reflow: next });
+  };
+
+  const toggleOutlineItem = (path: string) => {
+    setExpandedOutline(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  const openOutline = () => {
+    const expanded = new Set<string>();
+    const reveal = (items: OutlineItem[], path: string): boolean => items.some((item, i) => {
+      const key = `${path}${i}`;
+      if (reveal(item.items, `${key}.`)) { expanded.add(key); return true; }
+      return item.pageIndex === chapter;
+    });
+    reveal(doc?.toc || [], '');
+    setExpandedOutline(expanded);
+    setIsOutlineOpen(true);
+  };
+
+  const anchorTextSelection = () => {
+    const root = contentRef.current;
+    if (!root || activeTool === 'view') return;
+    const offsets = textSelection.selectionOffsets(root);
+    if (!offsets) return;
+    const newAnno: Annotation = {
+      id: Math.random().toString(36).substr(2, 9),
+      type: activeTool,
+      pageIndex: chapter,
+      chapter: chapterTitle || undefined,
+      ...offsets,
+      text: '',
+      title: '',
+      color: activeColor,
+      timestamp: Date.now()
+    };
+    window.getSelection()?.removeAllRanges();
+    setAnnotations(prev => [...prev, newAnno]);
+    setEditingAnnoId(newAnno.id);
+  };
+
+  const handleContentClick = (e: React.MouseEvent) => {
+    const target = e.target as HTMLElement;
+    const link = target.closest('a[data-chapter]') as HTMLElement | null;
+    if (link) {
+      const anchor = link.dataset.anchor;
+      goToChapter(Number(link.dataset.chapter), anchor ? { selector: `#${CSS.escape(anchor)}` } : { progress: 0 });
+      return;
+    }
+    const mark = target.closest('mark[data-anno-id]') as HTMLElement | null;
+    if (mark && window.getSelection()?.isCollapsed !== false) setEditingAnnoId(mark.dataset.annoId!);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    handleUserActivity();
+    touchStartRef.current = e.touches.length === 1 ? { x: e.touches[0].clientX, y: e.touches[0].clientY } : null;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const start = touchStartRef.current;
+    touchStartRef.current = null;
+    if (activeTool !== 'view') {
+      // Let touch selections settle before reading them
+      window.setTimeout(anchorTextSelection, 0);
+      return;
+    }
+    if (!start || !window.getSelection()?.isCollapsed) return;
+    const dx = e.changedTouches[0].clientX - start.x;
+    const dy = e.changedTouches[0].clientY - start.y;
+    if (Math.abs(dx) > 50 && Math.abs(dx) > Math.abs(dy)) turnTowards(dx < 0 ? 'right' : 'left');
+  };
+
+  const createCardFromAnnotation = (anno: Annotation) => {
+    addCard(anno, anno.title || `${book.title} — ${anno.chapter || `${t.chapter} ${anno.pageIndex + 1}`}`);
+  };
+
+  const stride = viewport.width + PAGE_GAP;
+
+  return (
+    <div onMouseMove={handleUserActivity} onMouseDown={handleUserActivity}
+      className={`h-screen flex flex-col bg-black overflow-hidden relative transition-all duration-1000 ${isZenMode && !showControls ? 'cursor-none' : ''} ${fontClass}`}
+      dir={isRTL ? 'rtl' : 'ltr'}
+    >
+      <AnimatePresence>
+        {isLoading && (
+          <MotionDiv key="loading-overlay" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[5000] bg-black flex flex-col items-center justify-center p-8 text-center pointer-events-none">
+            <Sparkles size={40} className="text-[#ff0000] animate-pulse mb-4" />
+            <h3 className="text-sm font-black uppercase tracking-[0.3em] text-white/80">{t.loadingMessages[0]}</h3>
+          </MotionDiv>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showControls && (
+          <MotionHeader initial={{ y: -100, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: -100, opacity: 0 }}
+            className="fixed top-0 left-0 right-0 p-4 md:p-6 flex items-center justify-between z-[1100] bg-gradient-to-b from-black via-black/40 to-transparent pointer-events-auto"
+          >
+            <div className="flex items-center gap-2 md:gap-3 pointer-events-auto">
+              {!isZenMode && <button onClick={onBack} className="w-9 h-9 md:w-11 md:h-11 flex items-center justify-center bg-white/5 rounded-full text-white/60 hover:bg-white/10 active:scale-90"><ChevronLeft size={18} className={isRTL ? "rotate-180" : ""} /></button>}
+              <button onClick={() => setIsArchiveOpen(true)} className="w-9 h-9 md:w-11 md:h-11 flex items-center justify-center bg-white/5 rounded-full text-white/40 hover:bg-white/10 active:scale-90"><ListOrdered size={18} /></button>
+              <button onClick={openOutline} className="w-9 h-9 md:w-11 md:h-11 flex items-center justify-center bg-white/5 rounded-full text-white/40 hover:bg-white/10 active:scale-90"><ListTree size={18} /></button>
+            </div>
+            {chapterTitle && (
+              <button onClick={openOutline} className="hidden sm:block min-w-0 flex-1 px-4 text-center truncate text-[9px] font-black uppercase tracking-[0.3em] text-white/40 hover:text-white transition-colors">{chapterTitle}</button>
+            )}
+            <div className="flex items-center gap-2 pointer-events-auto">
+              <button onClick={() => { setIsTypographyOpen(!isTypographyOpen); setIsToolsOpen(false); }} className={`w-9 h-9 md:w-11 md:h-11 flex items-center justify-center rounded-full transition-all active:scale-90 ${isTypographyOpen ? 'bg-white text-black shadow-xl' : 'bg-white/5 text-white/40 hover:bg-white/10'}`}><Type size={18} /></button>
+              <button onClick={() => { setIsToolsOpen(!isToolsOpen); setIsTypographyOpen(false); }} className={`w-9 h-9 md:w-11 md:h-11 flex items-center justify-center rounded-full transition-all active:scale-90 ${isToolsOpen ? 'bg-white text-black shadow-xl' : 'bg-white/5 text-white/40'}`}><Palette size={18} /></button>
+              <button onClick={toggleZenMode} className={`w-9 h-9 md:w-11 md:h-11 flex items-center justify-center rounded-full border transition-all ${isZenMode ? 'bg-red-600 border-red-600 text-white' : 'bg-white/5 border-white/10 text-white/40'}`}><Maximize2 size={18} /></button>
+            </div>
+          </MotionHeader>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isTypographyOpen && showControls && (
+          <MotionDiv key="typography" initial={{ y: -20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: -20, opacity: 0 }} className="fixed top-20 md:top-24 left-1/2 -translate-x-1/2 z-[1200] w-[calc(100%-2rem)] max-w-xs bg-black/80 backdrop-blur-3xl border border-white/10 rounded-[2rem] p-4 shadow-4xl flex flex-col gap-3 pointer-events-auto">
+            <h3 className="text-[9px] font-black uppercase tracking-widest text-white/40 text-center">{t.typography}</h3>
+            {[
+              { label: t.fontSize, value: `${typography.fontSize}px`, range: FONT_SIZE, current: typography.fontSize, apply: (v: number) => updateTypography({ fontSize: v }) },
+              { label: t.lineHeight, value: typography.lineHeight.toFixed(1), range: LINE_HEIGHT, current: typography.lineHeight, apply: (v: number) => updateTypography({ lineHeight: Math.round(v * 10) / 10 }) }
+            ].map(control => (
+              <div key={control.label} className="flex items-center justify-between gap-3">
+                <span className="text-[9px] font-black uppercase tracking-widest text-white/60">{control.label}</span>
+                <div className="flex items-center gap-1 bg-white/5 rounded-full p-1 border border-white/5">
+                  <button onClick={() => control.apply(Math.max(control.range.min, control.current - control.range.step))} disabled={control.current <= control.range.min} className="w-7 h-7 flex items-center justify-center rounded-full text-white/40 hover:bg-white/10 disabled:opacity-20"><Minus size={12} /></button>
+                  <span className="text-[10px] font-black text-white min-w-[40px] text-center">{control.value}</span>
+                  <button onClick={() => control.apply(Math.min(control.range.max, control.current + control.range.step))} disabled={control.current >= control.range.max} className="w-7 h-7 flex items-center justify-center rounded-full text-white/40 hover:bg-white/10 disabled:opacity-20"><Plus size={12} /></button>
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-[9px] font-black uppercase tracking-widest text-white/60">{t.fontFamily}</span>
+              <div className="flex items-center gap-1 bg-white/5 rounded-full p-1 border border-white/5">
+                {(Object.keys(FONT_FAMILIES) as ReflowFont[]).map(font => (
+                  <button key={font} onClick={() => updateTypography({ fontFamily: font })} className={`w-9 h-7 rounded-full text-[12px] transition-all ${typography.fontFamily === font ? 'bg-white text-black' : 'text-white/50 hover:bg-white/10'}`} style={{ fontFamily: FONT_FAMILIES[font] }}>Aa</button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-[9px] font-black uppercase tracking-widest text-white/60">{t.margins}</span>
+              <div className="flex items-center gap-1 bg-white/5 rounded-full p-1 border border-white/5">
+                {(Object.keys(MARGINS) as ReflowMargin[]).map(margin => (
+                  <button key={margin} onClick={() => updateTypography({ margin })} className={`px-2.5 h-7 rounded-full text-[8px] font-black uppercase tracking-widest transition-all ${typography.margin === margin ? 'bg-white text-black' : 'text-white/50 hover:bg-white/10'}`}>{t[`margin_${margin}` as const]}</button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-[9px] font-black uppercase tracking-widest text-white/60">{t.theme}</span>
+              <div className="flex items-center gap-2 p-1">
+                {(Object.keys(THEMES) as ReflowTheme[]).map(theme => (
+                  <button key={theme} onClick={() => updateTypography({ theme })} className={`w-6 h-6 rounded-full border-2 transition-all ${typography.theme === theme ? 'border-red-600 scale-110' : 'border-white/20'}`} style={{ backgroundColor: THEMES[theme].background }} />
+                ))}
+              </div>
+            </div>
+          </MotionDiv>
+        )}
+      </AnimatePresence>
+
+      <main className={`flex-1 flex items-center justify-center relative overflow-hidden transition-colors duration-700 ${isZenMode ? 'px-8 py-10 md:px-16' : 'px-6 pt-24 pb-44 md:px-16 md:pt-28'}`}
+        style={{ backgroundColor: THEMES[typography.theme].background, color: THEMES[typography.theme].color }}
+      >
+        <div ref={frameRef} className="relative w-full h-full overflow-hidden" style={{ maxWidth: MARGINS[typography.margin] }}
+          onTouchStart={handleTouchStart}
+          onTouchEnd={handleTouchEnd}
+          onMouseUp={() => { if (activeTool !== 'view') window.setTimeout(anchorTextSelection, 0); }}
+        >
+          <div ref={contentRef} dir={bookDirection} onClick={handleContentClick}
+            className="reflow-content h-full"
+            style={{
+              fontFamily: FONT_FAMILIES[typography.fontFamily],
+              columnWidth: viewport.width || undefined,
+              columnGap: PAGE_GAP,
+              columnFill: 'auto',
+              fontSize: typography.fontSize,
+              lineHeight: typography.lineHeight,
+              transform: `translateX(${(bookDirection === 'rtl' ? 1 : -1) * page * stride}px)`
+            }}
+          />
+        </div>
+      </main>
+
+      <div className="fixed bottom-6 left-0 right-0 z-[2000] pointer-events-none px-6 flex flex-col items-center gap-4">
+        <AnimatePresence>
+          {showControls && (
+            <MotionDiv initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 20, opacity: 0 }} className="flex flex-col items-center gap-4 pointer-events-auto">
+
+              <AnimatePresence>
+                {isToolsOpen && activeTool !== 'view' && (
+                  <MotionDiv key="legend" initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 20, opacity: 0 }}>
+                    <PaletteLegend colors={palette} activeColor={activeColor} onSelect={setActiveColor} />
+                  </MotionDiv>
+                )}
+                {isToolsOpen && (
+                  <MotionDiv key="tools" initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 20, opacity: 0 }} className="bg-black/80 backdrop-blur-3xl border border-white/10 px-4 py-2 rounded-full shadow-4xl flex items-center gap-3 mb-2">
+                    {(Object.keys(TOOL_ICONS) as Tool[]).map(tool => {
+                      const Icon = TOOL_ICONS[tool];
+                      const isActive = activeTool === tool;
+                      return (
+                        <div key={tool} className="relative flex items-center">
+                          <button onClick={() => setActiveTool(activeTool === tool ? 'view' : tool)} className={`w-8 h-8 flex items-center justify-center rounded-full transition-all duration-300 ${isActive ? 'bg-red-600 text-white shadow-xl scale-110' : 'text-white/30 hover:bg-white/5'}`}><Icon size={14}/></button>
+                        </div>
+                      );
+                    })}
+                  </MotionDiv>
+                )}
+              </AnimatePresence>
+
+              <SessionClock seconds={sessionSeconds} isIdle={isIdle} />
+
+              <div className="bg-black/60 backdrop-blur-3xl border border-white/10 rounded-full p-2 flex items-center gap-2 shadow-4xl" dir="ltr">
+                 <div className="flex items-center gap-1 bg-white/5 rounded-full px-4 py-1.5 border border-white/5">
+                   <button onClick={() => turnTowards('left')} className="text-white/30 hover:text-white transition-colors"><ChevronLeft size={16}/></button>
+                   <span className="text-[10px] font-black text-white px-2 min-w-[40px] text-center">{page+1}/{pageCount}</span>
+                   <button onClick={() => turnTowards('right')} className="text-white/30 hover:text-white transition-colors"><ChevronRight size={16}/></button>
+                 </div>
+                 {doc && <span className="text-[8px] font-black uppercase tracking-widest text-white/40 pe-3">{t.chapter} {chapter + 1}/{doc.chapters.length}</span>}
+              </div>
+            </MotionDiv>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <AnimatePresence>
+        {isOutlineOpen && (
+          <MotionDiv key="outline" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[2000] bg-black/40 backdrop-blur-[40px] p-6 flex items-center justify-center pointer-events-auto">
+             <MotionDiv initial={{ y: 50 }} animate={{ y: 0 }} className="w-full max-w-xl bg-[#0b140b] border border-white/10 rounded-[2.5rem] p-6 max-h-[70vh] overflow-hidden flex flex-col shadow-4xl">
+                <div className="flex justify-between items-center mb-6 shrink-0">
+                  <h2 className="text-lg font-black italic uppercase tracking-tighter text-white/60">{t.tableOfContents}</h2>
+                  <button onClick={() => setIsOutlineOpen(false)} className="hover:text-red-600 transition-colors p-1.5 bg-white/5 rounded-full"><X size={16}/></button>
+                </div>
+                <div className="flex-1 overflow-y-auto custom-scroll pr-1">
+                  {!doc || doc.toc.length === 0 ? <p className="text-center opacity-20 py-20 uppercase font-black tracking-widest text-xs">{t.noOutline}</p> : (
+                    <OutlineTree items={doc.toc} currentTitle={chapterTitle} showPageNumbers={false} expanded={expandedOutline} onToggle={toggleOutlineItem} onSelect={(index) => { goToChapter(index, { progress: 0 }); setIsOutlineOpen(false); }} />
+                  )}
+                </div>
+             </MotionDiv>
+          </MotionDiv>
+        )}
+
+        {isArchiveOpen && (
+          <AnnotationArchive key="archive" annotations={annotations} palette={palette} lang={lang} locationLabel={t.chapter} cardAnnoIds={cardAnnoIds}
+            onGoTo={anno => { goToChapter(anno.pageIndex, { selector: `mark[data-anno-id="${anno.id}"]` }); setIsArchiveOpen(false); }}
+            onEdit={anno => { setEditingAnnoId(anno.id); setIsArchiveOpen(false); }}
+            onMakeCard={createCardFromAnnotation}
+            onClose={() => setIsArchiveOpen(false)}
+          />
+        )}
+
+        {isIdle && <IdlePrompt key="idle-prompt" lang={lang} onResume={resumeReading} />}
+
+        {cardToast && <CardToast key="card-toast" lang={lang} />}
+
+        {editingAnnoId && currentEditingAnno && (
+          <AnnotationEditor key="editor" annotation={currentEditingAnno} palette={palette} lang={lang} hasCard={cardAnnoIds.has(currentEditingAnno.id)} quoteDirection={bookDirection}
+            onChange={updateEditingAnnotation}
+            onDelete={deleteEditingAnnotation}
+            onMakeCard={() => createCardFromAnnotation(currentEditingAnno)}
+            onClose={() => setEditingAnnoId(null)}
+          />
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -1,9 +1,10 @@
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Book, Language } from '../types';
+import { Book, Language, ReadingStatus, ShelfViewSettings } from '../types';
 import { translations } from '../i18n/translations';
-import { Upload } from 'lucide-react';
+import { bookProgress } from '../services/bookProgress';
+import { Upload, Trash2, Settings2 } from 'lucide-react';
 
 const MotionDiv = motion.div as any;
 
@@ -14,10 +15,76 @@ interface ShelfProps {
   onActiveIndexChange: (index: number) => void; // مخرج للخارج
   onSelectBook: (book: Book) => void;
   onAddBook: () => void;
+  onDeleteBook: (book: Book) => void;
+  onShowDetails: (book: Book) => void;
+  layout: ShelfViewSettings['layout'];
+  // A filter hides every book, so the empty state must not invite an upload
+  isFiltered: boolean;
+  // Off while a dialog or the sidebar is open
+  keyboardEnabled: boolean;
 }
 
-export const Shelf: React.FC<ShelfProps> = ({ books, lang, activeIndex, onActiveIndexChange, onSelectBook, onAddBook }) => {
+export const STATUS_COLORS: Record<ReadingStatus, string> = {
+  toRead: '#94a3b8',
+  reading: '#3b82f6',
+  finished: '#10b981',
+  abandoned: '#f97316'
+};
+
+const ProgressBadge: React.FC<{ book: Book, lang: Language }> = ({ book, lang }) => {
   const t = translations[lang];
+  const status = bookProgress.status(book);
+  const percent = bookProgress.percent(book);
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between gap-2 text-[7px] md:text-[8px] font-black uppercase tracking-widest">
+        <span className="px-2 py-0.5 rounded-full truncate" style={{ color: STATUS_COLORS[status], backgroundColor: `${STATUS_COLORS[status]}26` }}>{t[`status_${status}`]}</span>
+        {percent !== null && <span className="text-white/50 shrink-0">{percent}%</span>}
+      </div>
+      {percent !== null && (
+        <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+          <div className="h-full rounded-full" style={{ width: `${percent}%`, backgroundColor: STATUS_COLORS[status] }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const Shelf: React.FC<ShelfProps> = ({ books, lang, activeIndex, onActiveIndexChange, onSelectBook, onAddBook, onDeleteBook, onShowDetails, layout, isFiltered, keyboardEnabled }) => {
+  const t = translations[lang];
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  // Arrow keys browse and Enter opens. The grid follows the reading direction; the cover flow always runs left to right.
+  useEffect(() => {
+    if (!keyboardEnabled || books.length === 0) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea, select, button, [contenteditable="true"]')) return;
+      const reversed = layout === 'grid' && lang === 'ar';
+      if (e.key === 'ArrowRight' || e.key === 'ArrowLeft') {
+        e.preventDefault();
+        const step = (e.key === 'ArrowRight') !== reversed ? 1 : -1;
+        onActiveIndexChange((activeIndex + step + books.length) % books.length);
+      } else if (e.key === 'Enter' && books[activeIndex]) {
+        e.preventDefault();
+        onSelectBook(books[activeIndex]);
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [keyboardEnabled, books, activeIndex, layout, lang, onActiveIndexChange, onSelectBook]);
+
+  useEffect(() => {
+    if (layout !== 'grid') return;
+    gridRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [layout, activeIndex]);
+
+  if (books.length === 0 && isFiltered) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[40vh] px-8">
+        <p className="text-[10px] md:text-xs font-black uppercase tracking-[0.4em] text-white/20 text-center">{t.noShelfMatches}</p>
+      </div>
+    );
+  }
 
   if (books.length === 0) {
     return (
@@ -47,6 +114,33 @@ export const Shelf: React.FC<ShelfProps> = ({ books, lang, activeIndex, onActive
     }
   };
 
+  if (layout === 'grid') {
+    return (
+      <div ref={gridRef} className="w-full flex-1 min-h-0 overflow-y-auto custom-scroll px-4 md:px-8 pt-4 pb-24">
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4 md:gap-6 max-w-6xl mx-auto">
+          {books.map((book, index) => (
+            <div key={book.id} data-index={index} onClick={() => onSelectBook(book)} onMouseEnter={() => onActiveIndexChange(index)} className="group cursor-pointer space-y-2">
+              <div className={`relative aspect-[2/3] rounded-2xl overflow-hidden border transition-all ${index === activeIndex ? 'border-[#ff0000]/60 shadow-[0_0_30px_rgba(255,0,0,0.25)]' : 'border-white/5'}`}>
+                {book.cover
+                  ? <img src={book.cover} alt={book.title} className="w-full h-full object-cover select-none pointer-events-none" />
+                  : <div className="w-full h-full bg-gradient-to-br from-[#1a0000] via-[#0b140b] to-black" />}
+                <div className="absolute top-2 right-2 flex gap-1.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={(e) => { e.stopPropagation(); onShowDetails(book); }} title={t.bookDetails} className="p-2 rounded-full bg-black/70 border border-white/10 text-white/60 hover:bg-white hover:text-black transition-all"><Settings2 size={12} /></button>
+                  <button onClick={(e) => { e.stopPropagation(); onDeleteBook(book); }} title={t.deleteBook} className="p-2 rounded-full bg-black/70 border border-white/10 text-white/60 hover:bg-red-600 hover:text-white transition-all"><Trash2 size={12} /></button>
+                </div>
+              </div>
+              <div className="px-1 space-y-1.5">
+                <p className="text-[10px] md:text-[11px] font-black uppercase tracking-tight text-white truncate">{book.title}</p>
+                <p className="text-[8px] md:text-[9px] font-black uppercase tracking-widest text-[#ff0000] truncate">{book.author}</p>
+                <ProgressBadge book={book} lang={lang} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="relative w-full flex-1 flex flex-col items-center justify-start overflow-visible pt-0 px-4">
       <MotionDiv 
@@ -80,11 +174,14 @@ export const Shelf: React.FC<ShelfProps> = ({ books, lang, activeIndex, onActive
               >
                 <div className={`relative w-full h-full rounded-[2.5rem] overflow-hidden border transition-all duration-700
                    ${isCenter ? 'border-[#ff0000]/50 shadow-[0_0_60px_rgba(255,0,0,0.4)]' : 'border-white/5 shadow-none'}`}>
-                  <img src={book.cover} alt={book.title} className="w-full h-full object-cover select-none pointer-events-none" />
+                  {book.cover
+                    ? <img src={book.cover} alt={book.title} className="w-full h-full object-cover select-none pointer-events-none" />
+                    : <div className="w-full h-full bg-gradient-to-br from-[#1a0000] via-[#0b140b] to-black" />}
                   
                   <div className={`absolute inset-0 bg-gradient-to-t from-black via-black/20 to-transparent flex flex-col justify-end p-6 md:p-12 pointer-events-none transition-opacity duration-500 ${isCenter ? 'opacity-100' : 'opacity-0'}`}>
                     <p className="text-lg md:text-3xl font-black truncate leading-tight uppercase tracking-tighter text-white drop-shadow-lg">{book.title}</p>
                     <p className="text-[10px] md:text-sm text-[#ff0000] font-black uppercase tracking-widest mt-1.5">{book.author}</p>
+                    <div className="mt-3 md:mt-4"><ProgressBadge book={book} lang={lang} /></div>
                   </div>
                   
                   {isCenter && (
@@ -98,6 +195,25 @@ export const Shelf: React.FC<ShelfProps> = ({ books, lang, activeIndex, onActive
                       </div>
                     </MotionDiv>
                   )}
+
+                  {isCenter && (
+                    <div className="absolute top-5 right-5 md:top-7 md:right-7 flex gap-2 z-10" onPointerDown={(e: React.PointerEvent) => e.stopPropagation()}>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onShowDetails(book); }}
+                        title={t.bookDetails}
+                        className="p-2.5 rounded-full bg-black/60 backdrop-blur-xl border border-white/10 text-white/40 hover:bg-white hover:border-white hover:text-black transition-all"
+                      >
+                        <Settings2 size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onDeleteBook(book); }}
+                        title={t.deleteBook}
+                        className="p-2.5 rounded-full bg-black/60 backdrop-blur-xl border border-white/10 text-white/40 hover:bg-red-600 hover:border-red-600 hover:text-white transition-all"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  )}
                 </div>
               </MotionDiv>
             );
@@ -106,7 +222,7 @@ export const Shelf: React.FC<ShelfProps> = ({ books, lang, activeIndex, onActive
       </MotionDiv>
       <div className="mt-4 mb-8">
          <p className="text-[10px] font-black uppercase tracking-[0.5em] opacity-10 animate-pulse">
-           {lang === 'ar' ? 'اسحب للتنقل • انقر للدخول' : 'Swipe to Browse • Click to Enter'}
+           {lang === 'ar' ? 'اسحب أو استخدم الأسهم للتنقل • انقر للدخول' : 'Swipe or Use Arrows to Browse • Click to Enter'}
          </p>
       </div>
     </div>
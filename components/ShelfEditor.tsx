@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Language, ShelfData, ShelfRule, ShelfRuleKind } from '../types';
+import { translations } from '../i18n/translations';
+import {
+  X, Trash2, Check, Library, BookOpen, Bookmark, Star, Heart, Flame, Feather,
+  GraduationCap, Lightbulb, Globe, Scroll, Brain, Sparkles, LucideIcon
+} from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+export const SHELF_COLORS = ['#ff0000', '#f97316', '#eab308', '#10b981', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+export const SHELF_ICONS: Record<string, LucideIcon> = {
+  library: Library,
+  book: BookOpen,
+  bookmark: Bookmark,
+  star: Star,
+  heart: Heart,
+  flame: Flame,
+  feather: Feather,
+  study: GraduationCap,
+  idea: Lightbulb,
+  globe: Globe,
+  scroll: Scroll,
+  mind: Brain,
+  sparkles: Sparkles
+};
+
+const RULE_KINDS: ShelfRuleKind[] = ['unread', 'inProgress', 'stars', 'tag'];
+const STAR_OPTIONS = [1, 2, 3, 4, 5, 6, 7];
+
+interface ShelfEditorProps {
+  // Omitted when creating a shelf
+  shelf?: ShelfData;
+  shelves: ShelfData[];
+  bookCount: number;
+  lang: Language;
+  onClose: () => void;
+  onSave: (shelf: ShelfData) => void;
+  onDelete: (moveBooksTo: string) => void;
+}
+
+export const ShelfEditor: React.FC<ShelfEditorProps> = ({ shelf, shelves, bookCount, lang, onClose, onSave, onDelete }) => {
+  const t = translations[lang];
+  const [name, setName] = useState(shelf?.name || '');
+  const [color, setColor] = useState(shelf?.color || SHELF_COLORS[0]);
+  const [icon, setIcon] = useState<string | undefined>(shelf?.icon);
+  const [rule, setRule] = useState<ShelfRule | undefined>(shelf?.rule);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const moveTargets = shelves.filter(s => s.id !== shelf?.id && !s.rule);
+  const [moveTo, setMoveTo] = useState(moveTargets[0]?.id || 'default');
+
+  const ruleLabel: Record<ShelfRuleKind, string> = {
+    unread: t.rule_unread,
+    inProgress: t.rule_inProgress,
+    stars: t.rule_stars,
+    tag: t.rule_tag
+  };
+
+  const canSave = !!name.trim() && (!rule || rule.kind !== 'tag' || !!rule.tag?.trim());
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave({
+      id: shelf?.id || Math.random().toString(36).substr(2, 9),
+      name: name.trim(),
+      color,
+      icon,
+      rule: rule && { ...rule, tag: rule.tag?.trim() }
+    });
+  };
+
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] flex items-center justify-center p-6 bg-black/95 backdrop-blur-2xl">
+      <MotionDiv initial={{ scale: 0.95 }} animate={{ scale: 1 }} className="bg-[#0b140b] border border-white/10 p-8 md:p-10 rounded-[2.5rem] md:rounded-[3rem] w-full max-w-md shadow-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-6 shrink-0">
+          <h3 className="text-xl md:text-2xl font-black uppercase italic text-white">{shelf ? t.editShelf : t.newShelf}</h3>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/30 hover:text-white transition-colors"><X size={16} /></button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto custom-scroll space-y-6 pr-1">
+          <input autoFocus type="text" value={name} onChange={e => setName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSave()} className="w-full bg-white/5 border border-white/10 rounded-xl md:rounded-2xl p-4 md:p-5 text-xs md:text-sm font-bold text-white outline-none focus:border-[#ff0000]/50" placeholder={t.shelfName} />
+
+          <section className="space-y-2">
+            <span className="text-[8px] font-black uppercase tracking-widest text-white/30">{t.shelfColor}</span>
+            <div className="flex flex-wrap gap-2">
+              {SHELF_COLORS.map(c => (
+                <button key={c} onClick={() => setColor(c)} className={`w-8 h-8 rounded-full border-2 transition-all ${color === c ? 'border-white scale-110' : 'border-transparent'}`} style={{ backgroundColor: c }} />
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <span className="text-[8px] font-black uppercase tracking-widest text-white/30">{t.shelfIcon}</span>
+            <div className="grid grid-cols-7 gap-1.5">
+              <button onClick={() => setIcon(undefined)} className={`aspect-square rounded-xl border flex items-center justify-center transition-all ${!icon ? 'bg-white/10 border-white/30' : 'bg-white/5 border-white/5 hover:bg-white/10'}`}>
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+              </button>
+              {Object.entries(SHELF_ICONS).map(([key, Icon]) => (
+                <button key={key} onClick={() => setIcon(key)} className={`aspect-square rounded-xl border flex items-center justify-center transition-all ${icon === key ? 'bg-white/10 border-white/30' : 'bg-white/5 border-white/5 hover:bg-white/10'}`}>
+                  <Icon size={14} style={{ color: icon === key ? color : undefined }} className={icon === key ? '' : 'text-white/40'} />
+                </button>
+              ))}
+            </div>
+          </section>
+
+          {/* A shelf's type is fixed once created: books placed on a regular shelf would be stranded on a smart one */}
+          {!shelf && (
+            <section className="space-y-2">
+              <span className="text-[8px] font-black uppercase tracking-widest text-white/30">{t.shelfType}</span>
+              <div className="grid grid-cols-2 gap-2">
+                {[false, true].map(smart => (
+                  <button key={String(smart)} onClick={() => setRule(smart ? { kind: 'unread' } : undefined)} className={`py-3 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-all ${!!rule === smart ? 'bg-white text-black border-white' : 'bg-white/5 border-white/5 text-white/40 hover:bg-white/10'}`}>
+                    {smart ? t.smartShelf : t.regularShelf}
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {rule && (
+            <section className="space-y-3">
+              <span className="text-[8px] font-black uppercase tracking-widest text-white/30">{t.shelfRule}</span>
+              <div className="grid grid-cols-2 gap-2">
+                {RULE_KINDS.map(kind => (
+                  <button key={kind} onClick={() => setRule({ ...rule, kind })} className={`py-3 px-2 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-all ${rule.kind === kind ? 'bg-[#ff0000]/10 border-[#ff0000]/40 text-white' : 'bg-white/5 border-white/5 text-white/40 hover:bg-white/10'}`}>
+                    {ruleLabel[kind].replace('{stars}', String(rule.minStars ?? 5))}
+                  </button>
+                ))}
+              </div>
+              {rule.kind === 'stars' && (
+                <div className="grid grid-cols-7 gap-1.5">
+                  {STAR_OPTIONS.map(stars => (
+                    <button key={stars} onClick={() => setRule({ ...rule, minStars: stars })} className={`py-2.5 rounded-xl border text-[10px] font-black transition-all ${(rule.minStars ?? 5) === stars ? 'bg-white text-black border-white' : 'bg-white/5 border-white/5 text-white/40 hover:bg-white/10'}`}>{stars}</button>
+                  ))}
+                </div>
+              )}
+              {rule.kind === 'tag' && (
+                <input type="text" value={rule.tag || ''} onChange={e => setRule({ ...rule, tag: e.target.value })} className="w-full bg-white/5 border border-white/10 rounded-xl p-3 text-xs font-bold text-white outline-none focus:border-[#ff0000]/50" placeholder={t.tagName} />
+              )}
+            </section>
+          )}
+
+          {shelf && shelf.id !== 'default' && (
+            <section className="space-y-3 pt-2 border-t border-white/5">
+              {!isDeleting ? (
+                <button onClick={() => setIsDeleting(true)} className="w-full mt-4 p-3 rounded-xl bg-red-600/10 border border-red-600/20 text-red-500 hover:bg-red-600 hover:text-white transition-all flex items-center justify-center gap-2 text-[9px] font-black uppercase tracking-widest">
+                  <Trash2 size={14} />{t.deleteShelf}
+                </button>
+              ) : (
+                <div className="mt-4 p-4 rounded-2xl bg-red-600/10 border border-red-600/20 space-y-3">
+                  <p className="text-[9px] font-bold uppercase tracking-widest text-white/50 leading-relaxed">{shelf.rule ? t.confirmSmartShelfDelete : t.confirmShelfDelete}</p>
+                  {!shelf.rule && bookCount > 0 && (
+                    <label className="block space-y-1">
+                      <span className="text-[8px] font-black uppercase tracking-widest text-white/40">{t.moveBooksTo.replace('{count}', String(bookCount))}</span>
+                      <select value={moveTo} onChange={e => setMoveTo(e.target.value)} className="w-full bg-white/5 border border-white/10 rounded-xl p-3 text-xs font-bold text-white outline-none">
+                        {moveTargets.map(s => <option key={s.id} value={s.id} className="bg-[#0b140b]">{s.name}</option>)}
+                      </select>
+                    </label>
+                  )}
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => setIsDeleting(false)} className="py-3 rounded-xl bg-white/5 text-white/40 text-[9px] font-black uppercase tracking-widest hover:bg-white/10 transition-all">{t.back}</button>
+                    <button onClick={() => onDelete(moveTo)} className="py-3 rounded-xl bg-red-600 text-white text-[9px] font-black uppercase tracking-widest hover:bg-red-500 transition-all">{t.deleteShelf}</button>
+                  </div>
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+
+        <button onClick={handleSave} disabled={!canSave} className="w-full mt-6 bg-[#ff0000] py-4 md:py-5 rounded-[1.5rem] font-black text-[10px] md:text-xs uppercase shadow-2xl text-white tracking-[0.3em] flex items-center justify-center gap-3 disabled:opacity-30 shrink-0">
+          <Check size={16} />{shelf ? t.saveChanges : t.establish}
+        </button>
+      </MotionDiv>
+    </MotionDiv>
+  );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Reorder, useDragControls } from 'framer-motion';
+import { ShelfData } from '../types';
+import { SHELF_ICONS } from './ShelfEditor';
+import { GripVertical, Pencil, Sparkles } from 'lucide-react';
+
+const ReorderItem = Reorder.Item as any;
+
+interface ShelfListProps {
+  shelves: ShelfData[];
+  activeShelfId: string;
+  bookCounts: Record<string, number>;
+  onSelect: (shelfId: string) => void;
+  onEdit: (shelf: ShelfData) => void;
+  // Called on every step of a drag so the list follows the pointer
+  onReorder: (shelves: ShelfData[]) => void;
+  // Called once when a drag ends, to persist the order
+  onReorderEnd: () => void;
+}
+
+const ShelfRow: React.FC<{
+  shelf: ShelfData;
+  isActive: boolean;
+  count: number;
+  onSelect: () => void;
+  onEdit: () => void;
+  onReorderEnd: () => void;
+}> = ({ shelf, isActive, count, onSelect, onEdit, onReorderEnd }) => {
+  // Dragging starts from the grip only, so taps on the row still select the shelf
+  const controls = useDragControls();
+  const Icon = shelf.icon ? SHELF_ICONS[shelf.icon] : undefined;
+
+  return (
+    <ReorderItem value={shelf} dragListener={false} dragControls={controls} onDragEnd={onReorderEnd} className="relative">
+      <div onClick={onSelect} className={`group w-full text-left px-2 md:px-3 py-3 md:py-4 rounded-xl md:rounded-2xl border transition-all text-[10px] md:text-xs font-bold flex items-center justify-between cursor-pointer ${isActive ? 'bg-white/5 text-white' : 'bg-transparent border-transparent text-white/30 hover:bg-white/5'}`} style={isActive ? { borderColor: `${shelf.color}4d` } : undefined}>
+        <div className="flex items-center gap-2 md:gap-3 truncate">
+          <span onPointerDown={(e) => controls.start(e)} onClick={(e) => e.stopPropagation()} className="p-1 text-white/10 group-hover:text-white/30 cursor-grab active:cursor-grabbing touch-none"><GripVertical size={12} /></span>
+          {Icon
+            ? <Icon size={14} className="shrink-0" style={{ color: isActive ? shelf.color : undefined }} />
+            : <div className="w-1.5 h-1.5 rounded-full shrink-0 mx-1" style={{ backgroundColor: isActive ? shelf.color : 'rgba(255,255,255,0.1)' }} />}
+          <span className="truncate">{shelf.name}</span>
+          {shelf.rule && <Sparkles size={10} className="shrink-0 text-white/20" />}
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <span className="text-[9px] font-black text-white/20">{count}</span>
+          <button onClick={(e) => { e.stopPropagation(); onEdit(); }} className="p-2 text-white/0 group-hover:text-white/20 hover:!text-white transition-all rounded-lg hover:bg-white/5"><Pencil size={12} /></button>
+        </div>
+      </div>
+    </ReorderItem>
+  );
+};
+
+export const ShelfList: React.FC<ShelfListProps> = ({ shelves, activeShelfId, bookCounts, onSelect, onEdit, onReorder, onReorderEnd }) => (
+  <Reorder.Group axis="y" values={shelves} onReorder={onReorder} className="flex flex-col gap-1.5">
+    {shelves.map(shelf => (
+      <ShelfRow
+        key={shelf.id}
+        shelf={shelf}
+        isActive={shelf.id === activeShelfId}
+        count={bookCounts[shelf.id] || 0}
+        onSelect={() => onSelect(shelf.id)}
+        onEdit={() => onEdit(shelf)}
+        onReorderEnd={onReorderEnd}
+      />
+    ))}
+  </Reorder.Group>
+);
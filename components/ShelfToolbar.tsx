@@ -0,0 +1,61 @@
+import React from 'react';
+import { Language, ReadingStatus, ShelfSort, ShelfViewSettings } from '../types';
+import { translations } from '../i18n/translations';
+import { ShelfFilter } from '../services/shelfRules';
+import { STATUS_COLORS } from './Shelf';
+import { LayoutGrid, GalleryHorizontal, ArrowDownUp, Tag } from 'lucide-react';
+
+interface ShelfToolbarProps {
+  lang: Language;
+  view: ShelfViewSettings;
+  filter: ShelfFilter;
+  tags: string[];
+  onViewChange: (updates: Partial<ShelfViewSettings>) => void;
+  onFilterChange: (filter: ShelfFilter) => void;
+}
+
+const SORTS: ShelfSort[] = ['added', 'recent', 'time', 'stars', 'progress', 'title'];
+const STATUSES: (ReadingStatus | 'all')[] = ['all', 'toRead', 'reading', 'finished', 'abandoned'];
+
+export const ShelfToolbar: React.FC<ShelfToolbarProps> = ({ lang, view, filter, tags, onViewChange, onFilterChange }) => {
+  const t = translations[lang];
+  const selectClass = 'bg-transparent text-[8px] md:text-[9px] font-black uppercase tracking-widest text-white/60 outline-none cursor-pointer';
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 px-4 pt-3 md:pt-2 shrink-0">
+      <div className="flex items-center gap-1 bg-black/40 backdrop-blur-xl p-1 rounded-full border border-white/10">
+        {STATUSES.map(status => (
+          <button key={status} onClick={() => onFilterChange({ ...filter, status })} className={`px-3 py-1.5 rounded-full text-[8px] md:text-[9px] font-black uppercase tracking-widest transition-all flex items-center gap-1.5 ${filter.status === status ? 'bg-white text-black' : 'text-white/40 hover:text-white'}`}>
+            {status !== 'all' && <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: STATUS_COLORS[status] }} />}
+            {status === 'all' ? t.allBooks : t[`status_${status}`]}
+          </button>
+        ))}
+      </div>
+
+      {tags.length > 0 && (
+        <label className="flex items-center gap-2 bg-black/40 backdrop-blur-xl px-3 py-2 rounded-full border border-white/10">
+          <Tag size={11} className="text-white/30" />
+          <select value={filter.tag || ''} onChange={(e) => onFilterChange({ ...filter, tag: e.target.value || null })} className={selectClass}>
+            <option value="" className="bg-[#0b140b]">{t.allTags}</option>
+            {tags.map(tag => <option key={tag} value={tag} className="bg-[#0b140b]">{tag}</option>)}
+          </select>
+        </label>
+      )}
+
+      <label className="flex items-center gap-2 bg-black/40 backdrop-blur-xl px-3 py-2 rounded-full border border-white/10">
+        <ArrowDownUp size={11} className="text-white/30" />
+        <select value={view.sort} onChange={(e) => onViewChange({ sort: e.target.value as ShelfSort })} className={selectClass}>
+          {SORTS.map(sort => <option key={sort} value={sort} className="bg-[#0b140b]">{t[`sort_${sort}`]}</option>)}
+        </select>
+      </label>
+
+      <div className="flex items-center gap-1 bg-black/40 backdrop-blur-xl p-1 rounded-full border border-white/10">
+        {([['flow', GalleryHorizontal, t.coverFlow], ['grid', LayoutGrid, t.gridView]] as const).map(([layout, Icon, label]) => (
+          <button key={layout} onClick={() => onViewChange({ layout })} title={label} className={`p-1.5 rounded-full transition-all ${view.layout === layout ? 'bg-white text-black' : 'text-white/40 hover:text-white'}`}>
+            <Icon size={13} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import React from 'react';
+import { Language } from '../types';
+import { translations } from '../i18n/translations';
+
+// Shown before settings load, so the chosen language is not known yet
+const LANGUAGES: Language[] = ['ar', 'en'];
+
+export const StorageBlockedNotice: React.FC = () => (
+  <div className="min-h-screen bg-[#000a00] text-white flex flex-col items-center justify-center gap-10 p-8 text-center">
+    {LANGUAGES.map(lang => (
+      <div key={lang} dir={lang === 'ar' ? 'rtl' : 'ltr'} className={`max-w-sm flex flex-col gap-3 ${lang === 'ar' ? 'font-ar' : 'font-en'}`}>
+        <h1 className="text-sm font-black uppercase tracking-widest text-white/80">{translations[lang].storageBlocked}</h1>
+        <p className="text-[11px] font-bold text-white/40 leading-relaxed">{translations[lang].storageBlockedHint}</p>
+      </div>
+    ))}
+  </div>
+);
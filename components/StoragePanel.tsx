@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Book, Language } from '../types';
+import { translations } from '../i18n/translations';
+import { storageUsage, StorageReport } from '../services/storageUsage';
+import { X, HardDrive, Loader2, Trash2, Sparkles } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
+
+interface StoragePanelProps {
+  lang: Language;
+  // Files the garbage collector must leave alone, e.g. a deletion that can still be undone
+  keepFileIds: string[];
+  onClose: () => void;
+  onDeleteBook: (book: Book) => void;
+}
+
+export const StoragePanel: React.FC<StoragePanelProps> = ({ lang, keepFileIds, onClose, onDeleteBook }) => {
+  const t = translations[lang];
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+  const [freed, setFreed] = useState<number | null>(null);
+
+  const refresh = () => {
+    storageUsage.report().then(setReport).catch(err => console.warn('Unable to measure storage:', err));
+  };
+
+  useEffect(refresh, []);
+
+  const orphans = report ? report.orphans.filter(f => !keepFileIds.includes(f.id)) : [];
+  const orphanBytes = orphans.reduce((sum, f) => sum + f.size, 0);
+  const largest = report?.books[0]?.bytes || 1;
+
+  const handleCleanUp = async () => {
+    setIsCleaning(true);
+    try {
+      const { freedBytes } = await storageUsage.collectGarbage(keepFileIds);
+      setFreed(freedBytes);
+      refresh();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsCleaning(false);
+    }
+  };
+
+  const handleDelete = (book: Book) => {
+    onDeleteBook(book);
+    setReport(prev => prev && { ...prev, books: prev.books.filter(b => b.book.id !== book.id) });
+  };
+
+  return (
+    <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] flex items-center justify-center p-6 bg-black/95 backdrop-blur-2xl">
+      <MotionDiv initial={{ scale: 0.95 }} animate={{ scale: 1 }} className="bg-[#0b140b] border border-white/10 p-8 md:p-10 rounded-[2.5rem] md:rounded-[3rem] w-full max-w-lg shadow-2xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between mb-6 shrink-0">
+          <h3 className="text-xl md:text-2xl font-black uppercase italic text-white flex items-center gap-3"><HardDrive className="text-[#ff0000]" size={22} />{t.storage}</h3>
+          <button onClick={onClose} className="p-2 rounded-full bg-white/5 text-white/30 hover:text-white transition-colors"><X size={16} /></button>
+        </div>
+
+        {!report ? (
+          <div className="flex justify-center py-12"><Loader2 size={24} className="animate-spin text-white/30" /></div>
+        ) : (
+          <>
+            <div className="space-y-2 shrink-0">
+              <p className="text-[10px] font-bold uppercase tracking-widest text-white/40">
+                {report.usage !== null && report.quota
+                  ? t.storageUsed.replace('{used}', storageUsage.formatBytes(report.usage)).replace('{quota}', storageUsage.formatBytes(report.quota))
+                  : t.storageUnknown}
+              </p>
+              {report.usage !== null && !!report.quota && (
+                <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                  <div className="h-full bg-[#ff0000]" style={{ width: `${Math.min(100, Math.max(1, report.usage / report.quota * 100))}%` }} />
+                </div>
+              )}
+            </div>
+
+            <div className="mt-6 p-4 rounded-2xl bg-white/5 border border-white/5 flex items-center justify-between gap-4 shrink-0">
+              <span className="text-[10px] font-bold uppercase tracking-widest text-white/50">
+                {orphans.length > 0
+                  ? t.orphanedFiles.replace('{count}', String(orphans.length)).replace('{size}', storageUsage.formatBytes(orphanBytes))
+                  : freed !== null ? t.storageFreed.replace('{size}', storageUsage.formatBytes(freed)) : t.storageClean}
+              </span>
+              {orphans.length > 0 && (
+                <button onClick={handleCleanUp} disabled={isCleaning} className="px-4 py-2 rounded-full bg-[#ff0000] text-white text-[9px] font-black uppercase tracking-widest flex items-center gap-2 shrink-0 disabled:opacity-50">
+                  {isCleaning ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}{t.cleanUp}
+                </button>
+              )}
+            </div>
+
+            <div className="flex-1 min-h-0 overflow-y-auto custom-scroll space-y-2 mt-6 pr-1">
+              {report.books.map(({ book, bytes }) => (
+                <div key={book.id} className="group p-3 rounded-2xl bg-white/[0.03] border border-white/5 flex items-center gap-3">
+                  <div className="flex-1 min-w-0 space-y-1.5">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-[11px] font-black text-white truncate">{book.title}</span>
+                      <span className="text-[9px] font-black text-white/40 shrink-0">{storageUsage.formatBytes(bytes)}</span>
+                    </div>
+                    <div className="h-1 rounded-full bg-white/5 overflow-hidden">
+                      <div className="h-full bg-white/30" style={{ width: `${bytes / largest * 100}%` }} />
+                    </div>
+                  </div>
+                  <button onClick={() => handleDelete(book)} title={t.deleteBook} className="p-2 rounded-full text-white/20 hover:text-red-500 hover:bg-white/5 transition-all shrink-0"><Trash2 size={14} /></button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </MotionDiv>
+    </MotionDiv>
+  );
+};
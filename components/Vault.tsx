@@ -1,25 +1,81 @@
-
-import React from 'react';
-import { motion } from 'framer-motion';
-import { FlashCard, Language } from '../types';
+import React, { useState, useMemo } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FlashCard, Language, ReviewGrade } from '../types';
 import { translations } from '../i18n/translations';
 import { storageService } from '../services/storageService';
-import { ChevronLeft, Layers, Calendar } from 'lucide-react';
+import { srsService } from '../services/srsService';
+import { ChevronLeft, Layers, Calendar, Play, Trash2, X, RotateCcw, Check } from 'lucide-react';
+
+const MotionDiv = motion.div as any;
 
 interface VaultProps {
   lang: Language;
   onBack: () => void;
+  onCardsChange?: () => void;
 }
 
-export const Vault: React.FC<VaultProps> = ({ lang, onBack }) => {
+const GRADES: { id: ReviewGrade; className: string }[] = [
+  { id: 'again', className: 'bg-red-600/20 border-red-600/40 text-red-500 hover:bg-red-600 hover:text-white' },
+  { id: 'hard', className: 'bg-orange-500/10 border-orange-500/30 text-orange-500 hover:bg-orange-500 hover:text-white' },
+  { id: 'good', className: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-500 hover:bg-emerald-500 hover:text-white' },
+  { id: 'easy', className: 'bg-blue-500/10 border-blue-500/30 text-blue-500 hover:bg-blue-500 hover:text-white' }
+];
+
+const formatDelay = (ms: number, lang: Language) => {
+  const isAr = lang === 'ar';
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}${isAr ? 'د' : 'm'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}${isAr ? 'س' : 'h'}`;
+  const days = Math.round(hours / 24);
+  if (days < 30) return `${days}${isAr ? ' يوم' : 'd'}`;
+  const months = Math.round(days / 30);
+  return `${months}${isAr ? ' شهر' : 'mo'}`;
+};
+
+export const Vault: React.FC<VaultProps> = ({ lang, onBack, onCardsChange }) => {
   const t = translations[lang];
-  const cards = storageService.getCards();
+  const isRTL = lang === 'ar';
+  const [cards, setCards] = useState<FlashCard[]>(() => storageService.getCards());
+  const [queue, setQueue] = useState<FlashCard[] | null>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const dueCards = useMemo(() => srsService.getDueCards(cards), [cards]);
+  const currentCard = queue && queue.length > 0 ? queue[0] : null;
+
+  const persist = (updated: FlashCard[]) => {
+    setCards(updated);
+    storageService.saveCards(updated);
+    onCardsChange?.();
+  };
+
+  const startReview = () => {
+    setQueue(dueCards);
+    setIsRevealed(false);
+    setReviewedCount(0);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!currentCard || !queue) return;
+    const graded = srsService.gradeCard(currentCard, grade);
+    persist(cards.map(c => c.id === graded.id ? graded : c));
+    // Failed cards are shown again at the end of the current session
+    const rest = queue.slice(1);
+    setQueue(grade === 'again' ? [...rest, graded] : rest);
+    setIsRevealed(false);
+    setReviewedCount(n => n + 1);
+  };
+
+  const handleDelete = (cardId: string) => {
+    persist(cards.filter(c => c.id !== cardId));
+  };
 
   return (
-    <div className="min-h-[80vh] py-12">
+    <div className="min-h-[80vh] py-12 px-4 md:px-8 pt-24 md:pt-28">
       <header className="flex items-center justify-between mb-12">
         <button onClick={onBack} className="p-2 hover:text-[#ff0000] transition-colors flex items-center gap-2">
-          <ChevronLeft />
+          <ChevronLeft className={isRTL ? 'rotate-180' : ''} />
           <span className="font-bold text-sm tracking-widest uppercase">{t.backToShelf}</span>
         </button>
         <h2 className="text-3xl font-black italic uppercase tracking-tighter flex items-center gap-3">
@@ -28,43 +84,125 @@ export const Vault: React.FC<VaultProps> = ({ lang, onBack }) => {
         </h2>
       </header>
 
+      {cards.length > 0 && (
+        <div className="flex flex-col md:flex-row items-center justify-between gap-6 mb-12 p-6 bg-white/[0.02] border border-white/10 rounded-[2rem]">
+          <div className="flex items-center gap-8">
+            <div className="flex flex-col">
+              <span className="text-[8px] font-black uppercase tracking-widest opacity-30">{t.dueCards}</span>
+              <span className="text-2xl font-black text-[#ff0000]">{dueCards.length}</span>
+            </div>
+            <div className="w-[1px] h-8 bg-white/10" />
+            <div className="flex flex-col">
+              <span className="text-[8px] font-black uppercase tracking-widest opacity-30">{t.totalCards}</span>
+              <span className="text-2xl font-black text-white">{cards.length}</span>
+            </div>
+          </div>
+          <button onClick={startReview} disabled={dueCards.length === 0} className="px-8 py-4 rounded-full bg-white text-black text-[10px] font-black uppercase tracking-[0.3em] shadow-2xl hover:bg-[#ff0000] hover:text-white transition-all flex items-center gap-3 active:scale-95 disabled:opacity-20 disabled:pointer-events-none">
+            <Play size={14} />{t.startReview}
+          </button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 perspective-1000">
         {cards.length === 0 ? (
           <div className="col-span-full text-center py-20 opacity-30">
             <Layers size={64} className="mx-auto mb-4" />
-            <p className="text-xl">Your vault is empty. Highlight knowledge to store it.</p>
+            <p className="text-xl">{t.vaultEmpty}</p>
           </div>
         ) : (
-          cards.map((card, idx) => (
-            <motion.div
-              key={card.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ delay: idx * 0.1 }}
-              whileHover={{ rotateY: 5, rotateX: 5 }}
-              className="group relative h-[300px] preserve-3d transition-transform duration-500 cursor-pointer"
-            >
-              <div className="absolute inset-0 bg-[#001a00] border border-white/10 rounded-2xl p-6 flex flex-col justify-between overflow-hidden shadow-xl hover:shadow-[#ff0000]/10 transition-shadow">
-                <div className="absolute top-0 right-0 w-32 h-32 bg-[#ff0000]/5 rounded-full blur-3xl -mr-10 -mt-10" />
-                
-                <p className={`line-clamp-6 text-lg italic ${lang === 'ar' ? 'text-right' : 'text-left'}`}>
-                   "{card.content}"
-                </p>
-
-                <div className="flex items-center justify-between mt-4 pt-4 border-t border-white/5 opacity-50 group-hover:opacity-100 transition-opacity">
-                  <div className="flex items-center gap-2 text-xs">
-                    <Calendar size={14} />
-                    {new Date(card.createdAt || card.addedAt).toLocaleDateString()}
+          cards.map((card, idx) => {
+            const isDue = srsService.isDue(card);
+            return (
+              <MotionDiv
+                key={card.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: Math.min(idx, 10) * 0.05 }}
+                whileHover={{ rotateY: 5, rotateX: 5 }}
+                className="group relative h-[300px] preserve-3d transition-transform duration-500"
+              >
+                <div className="absolute inset-0 bg-[#001a00] border border-white/10 rounded-2xl p-6 flex flex-col justify-between overflow-hidden shadow-xl hover:shadow-[#ff0000]/10 transition-shadow">
+                  <div className="absolute top-0 right-0 w-32 h-32 bg-[#ff0000]/5 rounded-full blur-3xl -mr-10 -mt-10" />
+
+                  <div className="space-y-3 overflow-hidden">
+                    {card.image && <img src={card.image} alt="" className="w-full max-h-[90px] object-cover object-top rounded-lg border border-white/10 bg-white" />}
+                    <p className={`${card.image ? 'line-clamp-2' : 'line-clamp-4'} text-lg italic ${isRTL ? 'text-right' : 'text-left'}`}>
+                      "{card.front || card.content}"
+                    </p>
+                    {card.back && <p className={`line-clamp-2 text-xs text-white/40 ${isRTL ? 'text-right' : 'text-left'}`}>{card.back}</p>}
                   </div>
-                  <div className="text-[10px] uppercase font-bold tracking-widest text-[#ff0000]">
-                    Review Pending
+
+                  <div className="flex items-center justify-between mt-4 pt-4 border-t border-white/5 opacity-50 group-hover:opacity-100 transition-opacity">
+                    <div className="flex items-center gap-2 text-xs">
+                      <Calendar size={14} />
+                      {new Date(card.createdAt || card.addedAt).toLocaleDateString()}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <div className={`text-[10px] uppercase font-bold tracking-widest ${isDue ? 'text-[#ff0000]' : 'text-emerald-500'}`}>
+                        {isDue ? t.dueNow : t.dueIn.replace('{time}', formatDelay((card.dueAt || 0) - Date.now(), lang))}
+                      </div>
+                      <button onClick={() => handleDelete(card.id)} className="p-1.5 rounded-lg text-white/20 hover:text-red-600 hover:bg-white/5 transition-all"><Trash2 size={12} /></button>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </motion.div>
-          ))
+              </MotionDiv>
+            );
+          })
         )}
       </div>
+
+      <AnimatePresence>
+        {queue && (
+          <MotionDiv initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} className="fixed inset-0 z-[6000] bg-black/95 backdrop-blur-3xl flex items-center justify-center p-6">
+            <div className="w-full max-w-xl flex flex-col gap-6">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black uppercase tracking-widest text-white/30">{reviewedCount} / {reviewedCount + queue.length}</span>
+                <button onClick={() => setQueue(null)} className="p-2 rounded-full bg-white/5 text-white/40 hover:text-white transition-colors"><X size={16} /></button>
+              </div>
+
+              {currentCard ? (
+                <MotionDiv key={`${currentCard.id}-${reviewedCount}`} initial={{ rotateY: -10, opacity: 0 }} animate={{ rotateY: 0, opacity: 1 }} className="bg-[#0b140b] border border-white/10 rounded-[2.5rem] p-8 md:p-12 min-h-[320px] flex flex-col justify-between shadow-2xl">
+                  <div className={`space-y-6 ${isRTL ? 'text-right' : 'text-left'}`}>
+                    {currentCard.image && <img src={currentCard.image} alt="" className="w-full max-h-[220px] object-contain rounded-2xl border border-white/10 bg-white" />}
+                    <p className="text-xl md:text-2xl font-black italic text-white leading-relaxed">"{currentCard.front || currentCard.content}"</p>
+                    {isRevealed && (
+                      <MotionDiv initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="pt-6 border-t border-white/10">
+                        <p className="text-sm md:text-base text-white/70 leading-relaxed whitespace-pre-wrap">{currentCard.back || '...'}</p>
+                      </MotionDiv>
+                    )}
+                  </div>
+                  <div className="flex items-center justify-between pt-6 text-[8px] font-black uppercase tracking-widest text-white/20">
+                    <span>{t.lapses}: {currentCard.lapses || 0}</span>
+                    <RotateCcw size={12} />
+                  </div>
+                </MotionDiv>
+              ) : (
+                <div className="bg-[#0b140b] border border-white/10 rounded-[2.5rem] p-12 text-center flex flex-col items-center gap-6">
+                  <div className="p-4 rounded-full bg-emerald-500/10 text-emerald-500"><Check size={28} /></div>
+                  <p className="text-sm font-bold text-white/60 leading-relaxed">{t.reviewComplete}</p>
+                </div>
+              )}
+
+              {currentCard && !isRevealed && (
+                <button onClick={() => setIsRevealed(true)} className="w-full bg-white text-black py-5 rounded-[1.5rem] font-black text-[10px] uppercase tracking-[0.4em] shadow-2xl hover:bg-[#ff0000] hover:text-white transition-all">{t.showAnswer}</button>
+              )}
+              {currentCard && isRevealed && (
+                <div className="grid grid-cols-4 gap-2">
+                  {GRADES.map(g => (
+                    <button key={g.id} onClick={() => handleGrade(g.id)} className={`py-4 rounded-2xl border flex flex-col items-center gap-1 transition-all active:scale-95 ${g.className}`}>
+                      <span className="text-[10px] font-black uppercase tracking-widest">{t[g.id]}</span>
+                      <span className="text-[9px] font-bold opacity-60">{formatDelay(srsService.previewInterval(currentCard, g.id), lang)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {!currentCard && (
+                <button onClick={() => setQueue(null)} className="w-full bg-white text-black py-5 rounded-[1.5rem] font-black text-[10px] uppercase tracking-[0.4em] shadow-2xl hover:bg-[#ff0000] hover:text-white transition-all">{t.endReview}</button>
+              )}
+            </div>
+          </MotionDiv>
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,145 @@
+import { useState, useEffect, useRef } from 'react';
+import { Annotation, Book, FlashCard, ReaderTarget } from '../types';
+import { storageService } from '../services/storageService';
+import { createReadingTracker, startReadingClock, ReadingTracker, ReadingClock } from '../services/readingTracker';
+import { palette as paletteUtils } from '../services/palette';
+
+// Zen mode hides the controls again once the reader stops moving for this long
+const CONTROLS_TIMEOUT_MS = 4500;
+const CARD_TOAST_MS = 2500;
+
+// Reading time, the idle prompt and zen mode, the same in every reader
+export const useReaderSession = (
+  book: Book,
+  startPage: number,
+  onStarReached: (star: number) => void,
+  onEnterZen?: () => void
+) => {
+  const [sessionSeconds, setSessionSeconds] = useState(0);
+  const [isIdle, setIsIdle] = useState(false);
+  const [isZenMode, setIsZenMode] = useState(false);
+  const [showControls, setShowControls] = useState(true);
+  const trackerRef = useRef<ReadingTracker | null>(null);
+  const clockRef = useRef<ReadingClock | null>(null);
+  const controlsTimeoutRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const tracker = createReadingTracker(book.id, startPage, onStarReached);
+    trackerRef.current = tracker;
+    const clock = startReadingClock(tracker, storageService.getSettings().idleTimeoutMinutes, {
+      onTick: () => setSessionSeconds(s => s + 1),
+      onIdle: () => setIsIdle(true)
+    });
+    clockRef.current = clock;
+    return () => {
+      clock.stop(); clockRef.current = null;
+      tracker.stop(); trackerRef.current = null;
+      if (controlsTimeoutRef.current) clearTimeout(controlsTimeoutRef.current);
+    };
+  }, [book.id]);
+
+  useEffect(() => {
+    const handleFsChange = () => { if (!document.fullscreenElement && isZenMode) setIsZenMode(false); };
+    document.addEventListener('fullscreenchange', handleFsChange);
+    return () => document.removeEventListener('fullscreenchange', handleFsChange);
+  }, [isZenMode]);
+
+  useEffect(() => {
+    trackerRef.current?.setZenMode(isZenMode);
+    if (isZenMode) setShowControls(false);
+    else { setShowControls(true); if (controlsTimeoutRef.current) window.clearTimeout(controlsTimeoutRef.current); }
+  }, [isZenMode]);
+
+  const toggleZenMode = async () => {
+    if (!isZenMode) {
+      try {
+        const docEl = document.documentElement;
+        if (docEl.requestFullscreen) await docEl.requestFullscreen();
+      } catch (e) {}
+      setIsZenMode(true);
+      onEnterZen?.();
+    } else {
+      if (document.fullscreenElement) await document.exitFullscreen();
+      setIsZenMode(false);
+    }
+  };
+
+  const resumeReading = () => {
+    clockRef.current?.resume();
+    setIsIdle(false);
+  };
+
+  const handleUserActivity = () => {
+    if (!isZenMode) return;
+    setShowControls(true);
+    if (controlsTimeoutRef.current) window.clearTimeout(controlsTimeoutRef.current);
+    controlsTimeoutRef.current = window.setTimeout(() => { setShowControls(false); }, CONTROLS_TIMEOUT_MS);
+  };
+
+  return { trackerRef, sessionSeconds, isIdle, resumeReading, isZenMode, showControls, toggleZenMode, handleUserActivity };
+};
+
+// A book's annotations as edited in a reader, with the palette and the flashcards made from them
+export const useReaderAnnotations = (book: Book, openAt?: ReaderTarget) => {
+  const [palette] = useState(() => storageService.getSettings().palette);
+  const [activeColor, setActiveColor] = useState(palette[0].hex);
+  const [annotations, setAnnotations] = useState<Annotation[]>(book.annotations || []);
+  const [editingAnnoId, setEditingAnnoId] = useState<string | null>(openAt?.annotationId ?? null);
+  const [cardAnnoIds, setCardAnnoIds] = useState<Set<string>>(() => new Set(
+    storageService.getCards().filter(c => c.bookId === book.id && c.annotationId).map(c => c.annotationId!)
+  ));
+  const [cardToast, setCardToast] = useState(false);
+
+  useEffect(() => { storageService.updateBookAnnotations(book.id, annotations); }, [annotations]);
+
+  const currentEditingAnno = annotations.find(a => a.id === editingAnnoId);
+
+  const updateEditingAnnotation = (updates: Partial<Annotation>) => {
+    if (!editingAnnoId) return;
+    setAnnotations(prev => prev.map(a => a.id === editingAnnoId ? { ...a, ...updates } : a));
+  };
+
+  const deleteEditingAnnotation = () => {
+    setAnnotations(prev => prev.filter(a => a.id !== editingAnnoId));
+    setEditingAnnoId(null);
+  };
+
+  // Color shortcuts recolor the annotation being edited, otherwise pick the color for the next one
+  const applyColorShortcut = (e: KeyboardEvent) => {
+    const color = paletteUtils.forKey(palette, e);
+    if (!color) return false;
+    if (editingAnnoId) updateEditingAnnotation({ color: color.hex });
+    else setActiveColor(color.hex);
+    return true;
+  };
+
+  // One card per annotation; its review history would be split across copies
+  const addCard = (anno: Annotation, front: string, image?: string) => {
+    if (cardAnnoIds.has(anno.id)) return;
+    const now = Date.now();
+    const card: FlashCard = {
+      id: Math.random().toString(36).substr(2, 9),
+      bookId: book.id,
+      front,
+      back: anno.text || anno.quote || '',
+      addedAt: now,
+      createdAt: now,
+      dueAt: now,
+      annotationId: anno.id,
+      pageIndex: anno.pageIndex,
+      image
+    };
+    storageService.addCard(card);
+    setCardAnnoIds(prev => new Set(prev).add(anno.id));
+    setCardToast(true);
+    window.setTimeout(() => setCardToast(false), CARD_TOAST_MS);
+  };
+
+  return {
+    palette, activeColor, setActiveColor,
+    annotations, setAnnotations,
+    editingAnnoId, setEditingAnnoId, currentEditingAnno, updateEditingAnnotation, deleteEditingAnnotation,
+    applyColorShortcut,
+    cardAnnoIds, cardToast, addCard
+  };
+};
@@ -13,12 +13,183 @@ export const translations = {
     backToShelf: 'Back to Shelf',
     zenMode: 'Zen Mode',
     createFlashcard: 'Create Flashcard',
+    makeCard: 'Make Card',
+    cardCreated: 'Card stored in the Vault',
+    vaultEmpty: 'Your vault is empty. Highlight knowledge to store it.',
+    startReview: 'Begin Review',
+    showAnswer: 'Reveal',
+    again: 'Again',
+    hard: 'Hard',
+    good: 'Good',
+    easy: 'Easy',
+    dueNow: 'Due Now',
+    dueIn: 'Due in {time}',
+    dueCards: 'Cards Due',
+    totalCards: 'Cards Stored',
+    reviewComplete: 'Review complete. The vault is at rest until the next cards fall due.',
+    endReview: 'End Review',
+    lapses: 'Lapses',
+    archive: 'Archive',
+    exportLibrary: 'Export Library',
+    importLibrary: 'Restore Archive',
+    restoreLibrary: 'Restore Sanctuary',
+    archiveSummary: '{books} manuscripts, {cards} cards — exported {date}',
+    mergeMode: 'Merge',
+    mergeHint: 'Keep the current library and fold the archive into it.',
+    replaceMode: 'Replace',
+    replaceHint: 'Wipe the current library and restore the archive as it was.',
+    restoreReport: 'Restore Report',
+    statusAdded: 'Added',
+    statusReplaced: 'Restored',
+    statusMerged: 'Merged',
+    statusUnchanged: 'Unchanged',
+    annotationsAdded: '+{count} annotations',
+    fileMissing: 'PDF missing',
+    archiveInvalid: 'This file is not a valid Sanctuary archive.',
+    done: 'Done',
+    stillReading: 'Are you still reading?',
+    stillReadingHint: 'The session clock paused so only real reading counts toward stars and the daily path.',
+    storageBlocked: 'Close other Sanctuary tabs',
+    storageBlockedHint: 'Another tab is still using an older version of your library. It will open here as soon as that tab is closed.',
+    resumeReading: 'Continue Reading',
+    idlePause: 'Idle Pause',
+    idleOff: 'Off',
+    dayStartsAt: 'Day Starts At',
+    midnight: 'Midnight',
+    searchBook: 'Search this manuscript...',
+    searchLibrary: 'Search the Library',
+    searchLibraryHint: 'Passages, titles and notes across every manuscript...',
+    searching: 'Searching...',
+    indexingBooks: 'Indexing manuscripts {done}/{total}',
+    noResults: 'No passages found.',
+    passages: 'Passages',
+    notes: 'Notes',
+    tableOfContents: 'Contents',
+    noOutline: 'This manuscript has no table of contents.',
+    subject: 'Subject',
+    pageCount: '{count} pages',
+    importedAnnotations: '{count} annotations',
+    replaceCover: 'Replace Cover',
+    chapter: 'Chapter',
+    typography: 'Typography',
+    fontSize: 'Font Size',
+    lineHeight: 'Line Spacing',
+    fontFamily: 'Typeface',
+    margins: 'Margins',
+    margin_narrow: 'Narrow',
+    margin_normal: 'Normal',
+    margin_wide: 'Wide',
+    theme: 'Theme',
+    chooseFolder: 'Choose Folder',
+    assignShelf: 'Shelf for all',
+    importProgress: '{done}/{total} read',
+    importQueued: 'Waiting',
+    importReading: 'Reading',
+    importDuplicate: 'Already in library: {title}',
+    importEncrypted: 'Password protected or DRM encrypted',
+    importCorrupt: 'Damaged or unreadable file',
+    importTooLarge: 'Larger than {size} MB',
+    importBooks: 'Add {count} Works',
+    deleteBook: 'Delete Work',
+    bookDeleted: '"{title}" deleted',
+    undo: 'Undo',
+    storage: 'Storage',
+    storageUsed: '{used} used of {quota} available',
+    storageUnknown: 'This browser does not report storage usage',
+    orphanedFiles: '{count} orphaned files · {size}',
+    storageClean: 'No orphaned files',
+    storageFreed: '{size} freed',
+    cleanUp: 'Clean Up',
+    bookDetails: 'Work Details',
+    shelf: 'Shelf',
+    annotationCount: 'Annotations',
+    annotationBreakdown: '{highlights} highlights · {underlines} underlines · {boxes} boxes · {notes} notes · {drawings} drawings',
+    sessionCount: 'Sessions · Avg',
+    addedOn: 'Added {date}',
+    lastReadOn: 'Last read {date}',
+    duplicateBook: 'Duplicate',
+    copyOf: '{title} (Copy)',
+    resetStats: 'Reset Stats',
+    confirmResetStats: 'Erase Time & Stars?',
+    saveChanges: 'Save Changes',
+    exportAnnotations: 'Export Annotations',
+    exportMarkdown: 'Markdown',
+    exportJson: 'JSON',
+    exportAnnotatedPdf: 'Annotated PDF',
+    annotationExportFailed: 'Unable to export annotations',
+    kind_highlight: 'Highlight',
+    kind_underline: 'Underline',
+    kind_box: 'Box',
+    kind_note: 'Note',
+    kind_ink: 'Ink',
+    kind_arrow: 'Arrow',
+    kind_circle: 'Circle',
+    strokeWidth: 'Stroke width',
+    annotationsView: 'Annotations',
+    annotationsSubtitle: 'Across the Library',
+    searchAnnotations: 'Search titles, notes and passages',
+    withNotes: 'With Notes',
+    allShelves: 'All Shelves',
+    allManuscripts: 'All Books',
+    fromDate: 'From',
+    toDate: 'To',
+    clearFilters: 'Clear Filters',
+    annotationsEmpty: 'Highlights and notes you make while reading gather here.',
+    noAnnotationMatches: 'No annotations match these filters.',
+    undated: 'Undated',
+    showMore: 'Show More',
+    byLocation: 'By Location',
+    byColor: 'By Color',
+    annotationPalette: 'Annotation Colors',
+    editPalette: 'Edit Colors',
+    colorLabel: 'Meaning',
+    colorShortcut: 'Key',
+    addColor: 'Add Color',
+    resetPalette: 'Reset to Default',
+    shortcutTaken: 'Each key can only pick one color',
+    colorTaken: 'Each color can only appear once',
+    newShelf: 'New Shelf',
+    editShelf: 'Edit Shelf',
+    shelfName: 'Shelf Name...',
+    shelfColor: 'Color',
+    shelfIcon: 'Icon',
+    shelfType: 'Type',
+    regularShelf: 'Regular',
+    smartShelf: 'Smart',
+    shelfRule: 'Shows every work that is',
+    rule_unread: 'Unread',
+    rule_inProgress: 'In Progress',
+    rule_stars: '{stars}+ Stars',
+    rule_tag: 'Tagged',
+    tagName: 'Tag...',
+    tags: 'Tags',
+    tagsHint: 'Comma separated',
+    moveBooksTo: 'Move its {count} works to',
+    confirmSmartShelfDelete: 'The smart shelf is removed; its works stay where they are.',
+    readingStatus: 'Reading Status',
+    statusAuto: 'Auto ({status})',
+    status_toRead: 'To Read',
+    status_reading: 'Reading',
+    status_finished: 'Finished',
+    status_abandoned: 'Abandoned',
+    allBooks: 'All',
+    allTags: 'All Tags',
+    sort_added: 'Recently Added',
+    sort_recent: 'Recently Read',
+    sort_time: 'Most Time',
+    sort_stars: 'Most Stars',
+    sort_progress: 'Progress',
+    sort_title: 'Title',
+    coverFlow: 'Cover Flow',
+    gridView: 'Grid',
+    noShelfMatches: 'No works match these filters.',
+    unsupportedFile: 'Not a PDF, EPUB, text or Markdown file',
     nextStar: 'Next star in {min}m',
     emptyShelf: 'The sanctuary is quiet. Upload a PDF manuscript to begin.',
     bookTitle: 'Manuscript Title',
     author: 'Scribe / Author',
     save: 'Extract Wisdom',
-    uploadHint: 'Drop your PDF here',
+    uploadHint: 'Drop PDFs, EPUBs, text files or a folder here',
     language: 'Language',
     settings: 'Settings',
     menu: 'Menu',
@@ -80,7 +251,7 @@ export const translations = {
     knowledgeVelocity: 'Knowledge Velocity',
     retentionRate: 'Wisdom Retention',
     deleteShelf: 'Wipe Collection',
-    confirmShelfDelete: 'Warning: This will dissolve the collection and its historical associations.',
+    confirmShelfDelete: 'The collection is dissolved; its works are moved, never deleted.',
     shelfDominance: 'Shelf Dominance Ratio',
     focusIntensity: 'Focus Intensity',
     cognitiveBalance: 'Cognitive Balance',
@@ -115,12 +286,183 @@ export const translations = {
     backToShelf: 'العودة للرف',
     zenMode: 'وضع الزن',
     createFlashcard: 'إنشاء بطاقة',
+    makeCard: 'صنع بطاقة',
+    cardCreated: 'حُفظت البطاقة في الخزنة',
+    vaultEmpty: 'الخزنة فارغة. ظلّل المعرفة لتحفظها هنا.',
+    startReview: 'بدء المراجعة',
+    showAnswer: 'كشف الإجابة',
+    again: 'مجدداً',
+    hard: 'صعب',
+    good: 'جيد',
+    easy: 'سهل',
+    dueNow: 'مستحقة الآن',
+    dueIn: 'مستحقة بعد {time}',
+    dueCards: 'بطاقات مستحقة',
+    totalCards: 'البطاقات المحفوظة',
+    reviewComplete: 'اكتملت المراجعة. الخزنة في سكون حتى تستحق البطاقات التالية.',
+    endReview: 'إنهاء المراجعة',
+    lapses: 'الإخفاقات',
+    archive: 'الأرشيف',
+    exportLibrary: 'تصدير المكتبة',
+    importLibrary: 'استعادة أرشيف',
+    restoreLibrary: 'استعادة المحراب',
+    archiveSummary: '{books} مخطوطة، {cards} بطاقة — صُدّر في {date}',
+    mergeMode: 'دمج',
+    mergeHint: 'الإبقاء على المكتبة الحالية ودمج الأرشيف فيها.',
+    replaceMode: 'استبدال',
+    replaceHint: 'مسح المكتبة الحالية واستعادة الأرشيف كما كان.',
+    restoreReport: 'تقرير الاستعادة',
+    statusAdded: 'أُضيف',
+    statusReplaced: 'استُعيد',
+    statusMerged: 'دُمج',
+    statusUnchanged: 'دون تغيير',
+    annotationsAdded: '+{count} تعديل',
+    fileMissing: 'ملف PDF مفقود',
+    archiveInvalid: 'هذا الملف ليس أرشيفاً صالحاً للمحراب.',
+    done: 'تم',
+    stillReading: 'هل ما زلت تقرأ؟',
+    stillReadingHint: 'توقفت ساعة الجلسة مؤقتاً حتى لا يُحتسب إلا وقت القراءة الفعلي في النجوم والمسار اليومي.',
+    storageBlocked: 'أغلق علامات تبويب Sanctuary الأخرى',
+    storageBlockedHint: 'علامة تبويب أخرى ما زالت تستخدم نسخة أقدم من مكتبتك. ستُفتح هنا فور إغلاق تلك العلامة.',
+    resumeReading: 'مواصلة القراءة',
+    idlePause: 'إيقاف عند الخمول',
+    idleOff: 'معطل',
+    dayStartsAt: 'بداية اليوم',
+    midnight: 'منتصف الليل',
+    searchBook: 'ابحث في هذه المخطوطة...',
+    searchLibrary: 'البحث في المكتبة',
+    searchLibraryHint: 'المقاطع والعناوين والملاحظات في كل المخطوطات...',
+    searching: 'جارٍ البحث...',
+    indexingBooks: 'فهرسة المخطوطات {done}/{total}',
+    noResults: 'لا توجد مقاطع مطابقة.',
+    passages: 'المقاطع',
+    notes: 'الملاحظات',
+    tableOfContents: 'الفهرس',
+    noOutline: 'لا تحتوي هذه المخطوطة على فهرس.',
+    subject: 'الموضوع',
+    pageCount: '{count} صفحة',
+    importedAnnotations: '{count} تعليق',
+    replaceCover: 'تغيير الغلاف',
+    chapter: 'الفصل',
+    typography: 'الخط والتنسيق',
+    fontSize: 'حجم الخط',
+    lineHeight: 'تباعد الأسطر',
+    fontFamily: 'نوع الخط',
+    margins: 'الهوامش',
+    margin_narrow: 'ضيقة',
+    margin_normal: 'عادية',
+    margin_wide: 'واسعة',
+    theme: 'السمة',
+    chooseFolder: 'اختيار مجلد',
+    assignShelf: 'رف للجميع',
+    importProgress: 'تمت قراءة {done}/{total}',
+    importQueued: 'في الانتظار',
+    importReading: 'جارٍ القراءة',
+    importDuplicate: 'موجود في المكتبة: {title}',
+    importEncrypted: 'محمي بكلمة مرور أو مشفر',
+    importCorrupt: 'ملف تالف أو غير قابل للقراءة',
+    importTooLarge: 'أكبر من {size} ميغابايت',
+    importBooks: 'إضافة {count} أعمال',
+    deleteBook: 'حذف العمل',
+    bookDeleted: 'تم حذف "{title}"',
+    undo: 'تراجع',
+    storage: 'التخزين',
+    storageUsed: 'مستخدم {used} من أصل {quota}',
+    storageUnknown: 'هذا المتصفح لا يُبلغ عن استخدام التخزين',
+    orphanedFiles: '{count} ملفات يتيمة · {size}',
+    storageClean: 'لا توجد ملفات يتيمة',
+    storageFreed: 'تم تحرير {size}',
+    cleanUp: 'تنظيف',
+    bookDetails: 'تفاصيل العمل',
+    shelf: 'الرف',
+    annotationCount: 'التعليقات',
+    annotationBreakdown: '{highlights} تظليل · {underlines} تسطير · {boxes} إطار · {notes} ملاحظة · {drawings} رسم',
+    sessionCount: 'الجلسات · المتوسط',
+    addedOn: 'أضيف في {date}',
+    lastReadOn: 'آخر قراءة {date}',
+    duplicateBook: 'نسخ',
+    copyOf: '{title} (نسخة)',
+    resetStats: 'تصفير الإحصائيات',
+    confirmResetStats: 'مسح الوقت والنجوم؟',
+    saveChanges: 'حفظ التغييرات',
+    exportAnnotations: 'تصدير التعليقات',
+    exportMarkdown: 'ماركداون',
+    exportJson: 'JSON',
+    exportAnnotatedPdf: 'PDF مع التعليقات',
+    annotationExportFailed: 'تعذر تصدير التعليقات',
+    kind_highlight: 'تظليل',
+    kind_underline: 'تسطير',
+    kind_box: 'إطار',
+    kind_note: 'ملاحظة',
+    kind_ink: 'حبر',
+    kind_arrow: 'سهم',
+    kind_circle: 'دائرة',
+    strokeWidth: 'سماكة الخط',
+    annotationsView: 'التعليقات',
+    annotationsSubtitle: 'عبر المكتبة',
+    searchAnnotations: 'ابحث في العناوين والملاحظات والمقاطع',
+    withNotes: 'مع ملاحظات',
+    allShelves: 'كل الرفوف',
+    allManuscripts: 'كل الكتب',
+    fromDate: 'من',
+    toDate: 'إلى',
+    clearFilters: 'مسح الفلاتر',
+    annotationsEmpty: 'تجتمع هنا التظليلات والملاحظات التي تدونها أثناء القراءة.',
+    noAnnotationMatches: 'لا توجد تعليقات تطابق هذه الفلاتر.',
+    undated: 'بدون تاريخ',
+    showMore: 'عرض المزيد',
+    byLocation: 'حسب الموضع',
+    byColor: 'حسب اللون',
+    annotationPalette: 'ألوان التعليقات',
+    editPalette: 'تعديل الألوان',
+    colorLabel: 'المعنى',
+    colorShortcut: 'مفتاح',
+    addColor: 'إضافة لون',
+    resetPalette: 'استعادة الافتراضي',
+    shortcutTaken: 'كل مفتاح يختار لوناً واحداً فقط',
+    colorTaken: 'كل لون يظهر مرة واحدة فقط',
+    newShelf: 'إنشاء رف',
+    editShelf: 'تعديل الرف',
+    shelfName: 'اسم الرف...',
+    shelfColor: 'اللون',
+    shelfIcon: 'الأيقونة',
+    shelfType: 'النوع',
+    regularShelf: 'عادي',
+    smartShelf: 'ذكي',
+    shelfRule: 'يعرض كل عمل',
+    rule_unread: 'غير مقروء',
+    rule_inProgress: 'قيد القراءة',
+    rule_stars: '{stars}+ نجوم',
+    rule_tag: 'موسوم',
+    tagName: 'الوسم...',
+    tags: 'الوسوم',
+    tagsHint: 'مفصولة بفواصل',
+    moveBooksTo: 'نقل أعماله الـ {count} إلى',
+    confirmSmartShelfDelete: 'سيُحذف الرف الذكي وتبقى أعماله في أماكنها.',
+    readingStatus: 'حالة القراءة',
+    statusAuto: 'تلقائي ({status})',
+    status_toRead: 'للقراءة',
+    status_reading: 'قيد القراءة',
+    status_finished: 'مكتمل',
+    status_abandoned: 'متروك',
+    allBooks: 'الكل',
+    allTags: 'كل الوسوم',
+    sort_added: 'الأحدث إضافة',
+    sort_recent: 'الأحدث قراءة',
+    sort_time: 'الأكثر وقتاً',
+    sort_stars: 'الأكثر نجوماً',
+    sort_progress: 'التقدم',
+    sort_title: 'العنوان',
+    coverFlow: 'عرض الأغلفة',
+    gridView: 'شبكة',
+    noShelfMatches: 'لا توجد أعمال تطابق هذه المرشحات.',
+    unsupportedFile: 'ليس ملف PDF أو EPUB أو نص أو Markdown',
     nextStar: 'النجمة التالية بعد {min} دقيقة',
     emptyShelf: 'المحراب هادئ. ارفع مخطوطة PDF للبدء.',
     bookTitle: 'عنوان المخطوطة',
     author: 'المؤلف / الكاتب',
     save: 'استخلاص الحكمة',
-    uploadHint: 'أسقط ملف الـ PDF هنا',
+    uploadHint: 'أسقط ملفات PDF أو EPUB أو نصوص أو مجلداً هنا',
     language: 'العربية',
     settings: 'الإعدادات',
     menu: 'القائمة',
@@ -182,7 +524,7 @@ export const translations = {
     knowledgeVelocity: 'سرعة تحصيل المعرفة',
     retentionRate: 'معدل الاحتفاظ بالحكمة',
     deleteShelf: 'مسح الرف',
-    confirmShelfDelete: 'تحذير: سيتم حذف الرف وجميع الارتباطات التاريخية الخاصة به.',
+    confirmShelfDelete: 'سيتم حذف الرف ونقل أعماله دون حذفها.',
     shelfDominance: 'نسبة هيمنة الرف',
     focusIntensity: 'كثافة التركيز',
     cognitiveBalance: 'التوازن المعرفي',
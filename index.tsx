@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { storageService } from './services/storageService';
+import { db } from './services/db';
+import { StorageBlockedNotice } from './components/StorageBlockedNotice';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +12,12 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+const stopWatchingBlocked = db.onBlocked(() => root.render(<StorageBlockedNotice />));
+storageService.init().then(() => {
+  stopWatchingBlocked();
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,251 @@
+import { PDFDocument, PDFPage, PDFString, PDFHexString } from 'pdf-lib';
+import { Annotation, AnnotationRect, AnnotationType, Book, BookFormat, PaletteColor } from '../types';
+import { pdfStorage } from './pdfStorage';
+import { dateUtils } from './dateUtils';
+import { palette as paletteUtils } from './palette';
+import { DEFAULT_STROKE_WIDTH } from './drawing';
+
+// Headings are written in the reader's language, so the caller supplies the words
+export interface MarkdownLabels {
+  page: string;
+  chapter: string;
+  kinds: Record<AnnotationType, string>;
+}
+
+export type MarkdownGrouping = 'location' | 'color';
+
+export interface AnnotationExportFile {
+  format: 'sanctuary-annotations';
+  version: number;
+  exportedAt: number;
+  // The colors' meanings at the time of export
+  palette: PaletteColor[];
+  books: {
+    id: string;
+    title: string;
+    author: string;
+    format: BookFormat;
+    annotations: (Annotation & { colorLabel?: string })[];
+  }[];
+}
+
+const EXPORT_VERSION = 1;
+const NOTE_ICON_SIZE = 24;
+
+// Plain-text swatches so colors survive in any Markdown viewer
+const SWATCHES: [string, [number, number, number]][] = [
+  ['🟥', [239, 68, 68]],
+  ['🟧', [249, 115, 22]],
+  ['🟨', [251, 191, 36]],
+  ['🟩', [34, 197, 94]],
+  ['🟦', [59, 130, 246]],
+  ['🟪', [168, 85, 247]],
+  ['🟫', [146, 64, 14]],
+  ['⬛', [0, 0, 0]],
+  ['⬜', [255, 255, 255]]
+];
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const n = parseInt(full, 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const swatch = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex);
+  return SWATCHES.reduce((best, entry) => {
+    const [er, eg, eb] = entry[1];
+    const distance = (r - er) ** 2 + (g - eg) ** 2 + (b - eb) ** 2;
+    return distance < best.distance ? { emoji: entry[0], distance } : best;
+  }, { emoji: SWATCHES[0][0], distance: Infinity }).emoji;
+};
+
+const isPdfBook = (book: Book) => !book.format || book.format === 'pdf';
+
+const inReadingOrder = (annotations: Annotation[]) =>
+  [...annotations].sort((a, b) => a.pageIndex - b.pageIndex || (a.startOffset ?? 0) - (b.startOffset ?? 0) || (a.y ?? 0) - (b.y ?? 0));
+
+const locationOf = (book: Book, anno: Annotation, labels: MarkdownLabels) =>
+  isPdfBook(book) ? `${labels.page} ${anno.pageIndex + 1}` : anno.chapter || `${labels.chapter} ${anno.pageIndex + 1}`;
+
+const entryToMarkdown = (anno: Annotation, labels: MarkdownLabels, colors: PaletteColor[], location?: string): string[] => {
+  const heading = [`**${labels.kinds[anno.type || 'note']}**`, paletteUtils.labelFor(colors, anno.color), location, anno.title].filter(Boolean).join(' · ');
+  const lines = ['', `${swatch(anno.color)} ${heading}`];
+  if (anno.quote) lines.push('', ...anno.quote.split('\n').map(line => `> ${line}`));
+  const note = anno.text || anno.content;
+  if (note) lines.push('', note);
+  return lines;
+};
+
+const bookToMarkdown = (book: Book, labels: MarkdownLabels, colors: PaletteColor[], groupBy: MarkdownGrouping): string => {
+  const lines = [`# ${book.title}`];
+  if (book.author) lines.push('', `*${book.author}*`);
+  const annotations = inReadingOrder(book.annotations || []);
+
+  if (groupBy === 'color') {
+    paletteUtils.groupByColor(annotations, colors).forEach(group => {
+      lines.push('', `## ${swatch(group.hex)} ${group.label || group.hex}`);
+      group.annotations.forEach(anno => lines.push(...entryToMarkdown(anno, labels, colors, locationOf(book, anno, labels))));
+    });
+    return lines.join('\n');
+  }
+
+  // PDFs are grouped by outline chapter and then page; reflowable books by chapter alone
+  let section: string | undefined;
+  let page = -1;
+  for (const anno of annotations) {
+    if (isPdfBook(book)) {
+      if (anno.chapter !== section) {
+        section = anno.chapter;
+        page = -1;
+        if (section) lines.push('', `## ${section}`);
+      }
+      if (anno.pageIndex !== page) {
+        page = anno.pageIndex;
+        lines.push('', `${section ? '###' : '##'} ${labels.page} ${page + 1}`);
+      }
+    } else if (anno.pageIndex !== page) {
+      page = anno.pageIndex;
+      lines.push('', `## ${locationOf(book, anno, labels)}`);
+    }
+    lines.push(...entryToMarkdown(anno, labels, colors));
+  }
+  return lines.join('\n');
+};
+
+// Maps a point given in percent of the displayed page into PDF user space,
+// undoing the page's /Rotate the way pdf.js applied it on screen
+const toPdfPoint = (page: PDFPage, x: number, y: number): [number, number] => {
+  const box = page.getCropBox();
+  const u = x / 100;
+  const v = y / 100;
+  switch (((page.getRotation().angle % 360) + 360) % 360) {
+    case 90: return [box.x + v * box.width, box.y + u * box.height];
+    case 180: return [box.x + (1 - u) * box.width, box.y + v * box.height];
+    case 270: return [box.x + (1 - v) * box.width, box.y + (1 - u) * box.height];
+    default: return [box.x + u * box.width, box.y + (1 - v) * box.height];
+  }
+};
+
+// Upper-left, upper-right, lower-left, lower-right as seen on screen
+const quadOf = (page: PDFPage, r: AnnotationRect) => [
+  ...toPdfPoint(page, r.x, r.y), ...toPdfPoint(page, r.x + r.w, r.y),
+  ...toPdfPoint(page, r.x, r.y + r.h), ...toPdfPoint(page, r.x + r.w, r.y + r.h)
+];
+
+const boundsOf = (points: number[]) => {
+  const xs = points.filter((_, i) => i % 2 === 0);
+  const ys = points.filter((_, i) => i % 2 === 1);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+const rectsOf = (anno: Annotation): AnnotationRect[] => {
+  if (anno.rects?.length) return anno.rects;
+  if (anno.x !== undefined && anno.y !== undefined && anno.width !== undefined && anno.height !== undefined) {
+    return [{ x: anno.x, y: anno.y, w: anno.width, h: anno.height }];
+  }
+  return anno.rect ? [anno.rect] : [];
+};
+
+const addPdfAnnotation = (doc: PDFDocument, page: PDFPage, anno: Annotation, colors: PaletteColor[]) => {
+  const kind = anno.type || 'note';
+  const [r, g, b] = hexToRgb(anno.color).map(c => c / 255);
+  const contents = [anno.title, anno.text || anno.content].filter(Boolean).join('\n\n');
+  const common = {
+    Type: 'Annot',
+    C: [r, g, b],
+    F: 4,
+    NM: PDFString.of(anno.id),
+    M: PDFString.fromDate(new Date(anno.timestamp || Date.now())),
+    Contents: PDFHexString.fromText(contents),
+    // Other readers list the subject as the annotation's category
+    Subj: PDFHexString.fromText(paletteUtils.labelFor(colors, anno.color))
+  };
+
+  let dict;
+  if (kind === 'note') {
+    if (anno.x === undefined || anno.y === undefined) return;
+    const [x, y] = toPdfPoint(page, anno.x, anno.y);
+    dict = doc.context.obj({ ...common, Subtype: 'Text', Name: 'Comment', Open: false, Rect: [x - NOTE_ICON_SIZE / 2, y - NOTE_ICON_SIZE / 2, x + NOTE_ICON_SIZE / 2, y + NOTE_ICON_SIZE / 2] });
+  } else if (kind === 'ink' || kind === 'arrow') {
+    const points = (anno.points || []).map(p => toPdfPoint(page, p.x, p.y));
+    if (!points.length) return;
+    const width = anno.strokeWidth ?? DEFAULT_STROKE_WIDTH;
+    // Room for the line caps and the arrowhead
+    const pad = kind === 'arrow' ? Math.max(10, width * 4) : width;
+    const [x1, y1, x2, y2] = boundsOf(points.flat());
+    const rect = [x1 - pad, y1 - pad, x2 + pad, y2 + pad];
+    dict = kind === 'ink'
+      // PDF ink strokes have a single width, so pen pressure is not kept
+      ? doc.context.obj({ ...common, Subtype: 'Ink', Rect: rect, InkList: [(points.length === 1 ? [points[0], points[0]] : points).flat()], BS: { W: width } })
+      : doc.context.obj({ ...common, Subtype: 'Line', Rect: rect, L: [...points[0], ...points[points.length - 1]], LE: ['None', 'OpenArrow'], BS: { W: width } });
+  } else {
+    const rects = rectsOf(anno);
+    if (!rects.length) return;
+    const quads = rects.flatMap(rect => quadOf(page, rect));
+    if (kind === 'box' || kind === 'circle') {
+      const width = kind === 'box' ? 2 : anno.strokeWidth ?? DEFAULT_STROKE_WIDTH;
+      dict = doc.context.obj({ ...common, Subtype: kind === 'box' ? 'Square' : 'Circle', Rect: boundsOf(quads), BS: { W: width } });
+    } else {
+      dict = doc.context.obj({ ...common, Subtype: kind === 'underline' ? 'Underline' : 'Highlight', Rect: boundsOf(quads), QuadPoints: quads });
+    }
+  }
+  page.node.addAnnot(doc.context.register(dict));
+};
+
+const safeFileName = (title: string) => title.replace(/[\\/:*?"<>|]+/g, '').trim() || 'annotations';
+
+export const annotationExport = {
+  libraryFileName: (extension: string) => `sanctuary-annotations-${dateUtils.today()}.${extension}`,
+
+  bookFileName: (book: Book, extension: string) => `${safeFileName(book.title)} - annotations.${extension}`,
+
+  // Books without annotations are left out
+  toMarkdown: (books: Book[], labels: MarkdownLabels, colors: PaletteColor[], groupBy: MarkdownGrouping = 'location'): string =>
+    books
+      .filter(book => book.annotations?.length)
+      .map(book => bookToMarkdown(book, labels, colors, groupBy))
+      .join('\n\n---\n\n') + '\n',
+
+  toJson: (books: Book[], colors: PaletteColor[]): string => {
+    const file: AnnotationExportFile = {
+      format: 'sanctuary-annotations',
+      version: EXPORT_VERSION,
+      exportedAt: Date.now(),
+      palette: colors,
+      books: books
+        .filter(book => book.annotations?.length)
+        .map(book => ({
+          id: book.id, title: book.title, author: book.author, format: book.format || 'pdf',
+          annotations: inReadingOrder(book.annotations).map(anno => ({ ...anno, colorLabel: paletteUtils.find(colors, anno.color)?.label }))
+        }))
+    };
+    return JSON.stringify(file, null, 2);
+  },
+
+  // A copy of the book's PDF with its annotations written as standard PDF annotations
+  // that other readers can show and edit; the stored file is left untouched
+  toAnnotatedPdf: async (book: Book, colors: PaletteColor[]): Promise<Uint8Array> => {
+    if (!isPdfBook(book)) throw new Error('Only PDF books can be exported with annotations');
+    const data = await pdfStorage.getFile(book.id);
+    if (!data) throw new Error('The file for this book is missing');
+    const doc = await PDFDocument.load(data, { updateMetadata: false });
+    const pages = doc.getPages();
+    for (const anno of book.annotations || []) {
+      const page = pages[anno.pageIndex];
+      if (page) addPdfAnnotation(doc, page, anno, colors);
+    }
+    doc.setModificationDate(new Date());
+    return doc.save();
+  },
+
+  download: (data: BlobPart, type: string, fileName: string) => {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+};
@@ -0,0 +1,69 @@
+import { Annotation, AnnotationType, Book, PaletteColor, ShelfData } from '../types';
+import { shelfRules } from './shelfRules';
+import { palette } from './palette';
+import { dateUtils } from './dateUtils';
+
+export interface AnnotationEntry {
+  book: Book;
+  annotation: Annotation;
+}
+
+export interface AnnotationFilter {
+  query: string;
+  // Empty matches every color
+  colors: string[];
+  type: AnnotationType | 'all';
+  bookId: string | null;
+  shelfId: string | null;
+  // Inclusive YYYY-MM-DD calendar days; annotations made before dates were kept never match a range
+  from: string | null;
+  to: string | null;
+  hasNote: boolean;
+}
+
+export const EMPTY_ANNOTATION_FILTER: AnnotationFilter = {
+  query: '', colors: [], type: 'all', bookId: null, shelfId: null, from: null, to: null, hasNote: false
+};
+
+const noteOf = (anno: Annotation) => (anno.text || anno.content || '').trim();
+
+export const annotationIndex = {
+  noteOf,
+
+  // Newest first; undated annotations follow in book and page order
+  entries: (books: Book[]): AnnotationEntry[] =>
+    books
+      .flatMap(book => (book.annotations || []).map(annotation => ({ book, annotation })))
+      .sort((a, b) => (b.annotation.timestamp || 0) - (a.annotation.timestamp || 0)
+        || a.book.title.localeCompare(b.book.title)
+        || a.annotation.pageIndex - b.annotation.pageIndex),
+
+  // Colors in use, in palette order with former palette colors last
+  colorsOf: (entries: AnnotationEntry[], colors: PaletteColor[]): string[] =>
+    palette.groupByColor(entries.map(e => e.annotation), colors).map(group => group.hex.toLowerCase()),
+
+  filter: (entries: AnnotationEntry[], filter: AnnotationFilter, shelves: ShelfData[]): AnnotationEntry[] => {
+    const shelf = filter.shelfId ? shelves.find(s => s.id === filter.shelfId) : undefined;
+    const books = Array.from(new Map(entries.map(e => [e.book.id, e.book])).values());
+    const shelfBookIds = shelf ? new Set(shelfRules.booksOn(shelf, books).map(b => b.id)) : null;
+    const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+
+    return entries.filter(({ book, annotation: anno }) => {
+      if (filter.bookId && book.id !== filter.bookId) return false;
+      if (shelfBookIds && !shelfBookIds.has(book.id)) return false;
+      if (filter.type !== 'all' && (anno.type || 'note') !== filter.type) return false;
+      if (filter.colors.length && !filter.colors.includes(anno.color.toLowerCase())) return false;
+      if (filter.hasNote && !noteOf(anno)) return false;
+      if (filter.from || filter.to) {
+        if (!anno.timestamp) return false;
+        const day = dateUtils.dayKey(anno.timestamp, 0);
+        if ((filter.from && day < filter.from) || (filter.to && day > filter.to)) return false;
+      }
+      if (terms.length) {
+        const haystack = [anno.title, noteOf(anno), anno.quote].join(' ').toLowerCase();
+        if (!terms.every(term => haystack.includes(term))) return false;
+      }
+      return true;
+    });
+  }
+};
@@ -0,0 +1,77 @@
+import { Annotation, Book } from '../types';
+import { pdfStorage } from './pdfStorage';
+import { createPageRenderer, PageRenderer } from './pageRenderer';
+import { pageSnapshot } from './pageSnapshot';
+
+// pdf.js is loaded globally from index.html
+declare const pdfjsLib: any;
+
+const RENDER_SCALE = 1;
+// Browsing the library jumps between books, so a few stay open to avoid reparsing them
+const MAX_OPEN_BOOKS = 3;
+
+export interface AnnotationThumbnails {
+  // A crop of the annotated region as a data URL; null for books without pages
+  get: (book: Book, anno: Annotation) => Promise<string | null>;
+  destroy: () => void;
+}
+
+export const createAnnotationThumbnails = (): AnnotationThumbnails => {
+  const thumbnails = new Map<string, string>();
+  // Least recently used first
+  const open = new Map<string, PageRenderer>();
+  let queue: Promise<unknown> = Promise.resolve();
+  let destroyed = false;
+
+  const rendererFor = async (book: Book): Promise<PageRenderer | null> => {
+    const existing = open.get(book.id);
+    if (existing) {
+      open.delete(book.id);
+      open.set(book.id, existing);
+      return existing;
+    }
+    const data = await pdfStorage.getFile(book.id);
+    if (!data || destroyed) return null;
+    const renderer = createPageRenderer(await pdfjsLib.getDocument({ data }).promise);
+    if (destroyed) { renderer.destroy(); return null; }
+    open.set(book.id, renderer);
+    while (open.size > MAX_OPEN_BOOKS) {
+      const [oldestId, oldest] = open.entries().next().value as [string, PageRenderer];
+      open.delete(oldestId);
+      oldest.destroy();
+    }
+    return renderer;
+  };
+
+  const render = async (book: Book, anno: Annotation): Promise<string | null> => {
+    const renderer = destroyed ? null : await rendererFor(book);
+    if (!renderer || anno.pageIndex >= renderer.numPages) return null;
+    const [pageSrc, size] = await Promise.all([renderer.getPage(anno.pageIndex, RENDER_SCALE), renderer.getPageSize(anno.pageIndex)]);
+    return pageSnapshot.captureRegion(pageSrc, pageSnapshot.regionForAnnotation(anno), { annotation: anno, pageWidth: size.width });
+  };
+
+  return {
+    get: (book, anno) => {
+      if (book.format && book.format !== 'pdf') return Promise.resolve(null);
+      const cached = thumbnails.get(anno.id);
+      if (cached) return Promise.resolve(cached);
+      // Rendered one at a time so scrolling never floods pdf.js with pages
+      const job = queue.then(() => render(book, anno)).then(url => {
+        if (url) thumbnails.set(anno.id, url);
+        return url;
+      }).catch(err => {
+        console.warn('Unable to render annotation thumbnail:', err);
+        return null;
+      });
+      queue = job;
+      return job;
+    },
+
+    destroy: () => {
+      destroyed = true;
+      open.forEach(renderer => renderer.destroy());
+      open.clear();
+      thumbnails.clear();
+    }
+  };
+};
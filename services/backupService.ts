@@ -0,0 +1,237 @@
+import { Book, ShelfData, FlashCard, HabitData, Annotation, AppSettings, ReadingSession } from '../types';
+import { storageService } from './storageService';
+import { pdfStorage } from './pdfStorage';
+import { dateUtils } from './dateUtils';
+
+// Archive layout: MAGIC | uint32 version | uint32 manifest length | manifest JSON | raw file payloads
+const MAGIC = 'SNCT';
+// Version 2 added reading sessions
+export const BACKUP_VERSION = 2;
+
+interface BackupFileEntry {
+  id: string;
+  offset: number;
+  length: number;
+}
+
+export interface BackupManifest {
+  version: number;
+  exportedAt: number;
+  books: Book[];
+  shelves: ShelfData[];
+  cards: FlashCard[];
+  habit: HabitData;
+  settings?: AppSettings;
+  // Missing from version 1 archives
+  sessions?: ReadingSession[];
+  files: BackupFileEntry[];
+}
+
+export interface LibraryBackup {
+  manifest: BackupManifest;
+  files: Map<string, ArrayBuffer>;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type BookRestoreStatus = 'added' | 'replaced' | 'merged' | 'unchanged';
+
+export interface BookRestoreResult {
+  bookId: string;
+  title: string;
+  status: BookRestoreStatus;
+  annotationsAdded: number;
+  fileMissing: boolean;
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  books: BookRestoreResult[];
+  shelvesAdded: number;
+  cardsAdded: number;
+}
+
+const mergeAnnotations = (local: Annotation[], incoming: Annotation[]) => {
+  const known = new Set(local.map(a => a.id));
+  const added = incoming.filter(a => !known.has(a.id));
+  return { annotations: [...local, ...added], added: added.length };
+};
+
+// Keeps the furthest progress of both copies so no reading time is lost
+const mergeBook = (local: Book, incoming: Book): Book => {
+  const incomingIsNewer = (incoming.lastReadAt || 0) > (local.lastReadAt || 0);
+  const newer = incomingIsNewer ? incoming : local;
+  return {
+    ...local,
+    timeSpentSeconds: Math.max(local.timeSpentSeconds, incoming.timeSpentSeconds),
+    stars: Math.max(local.stars || 0, incoming.stars || 0),
+    lastPage: newer.lastPage,
+    lastReadAt: newer.lastReadAt,
+    lastReadDate: newer.lastReadDate,
+    dailyTimeSeconds: newer.dailyTimeSeconds,
+    annotations: mergeAnnotations(local.annotations, incoming.annotations).annotations
+  };
+};
+
+const mergeHabit = (local: HabitData, incoming: HabitData): HabitData => {
+  const newer = incoming.lastUpdated > local.lastUpdated ? incoming : local;
+  const history = Array.from(new Set([...local.history, ...incoming.history])).sort();
+  const missedDays = Array.from(new Set([...local.missedDays, ...incoming.missedDays]))
+    .filter(d => !history.includes(d))
+    .sort();
+  return { ...newer, history, missedDays };
+};
+
+export const backupService = {
+  createArchive: async (): Promise<Blob> => {
+    const books = storageService.getBooks();
+    const payloads: ArrayBuffer[] = [];
+    const files: BackupFileEntry[] = [];
+    let offset = 0;
+
+    for (const book of books) {
+      const data = await pdfStorage.getFile(book.id);
+      if (!data) continue;
+      files.push({ id: book.id, offset, length: data.byteLength });
+      payloads.push(data);
+      offset += data.byteLength;
+    }
+
+    const manifest: BackupManifest = {
+      version: BACKUP_VERSION,
+      exportedAt: Date.now(),
+      books,
+      shelves: storageService.getShelves(),
+      cards: storageService.getCards(),
+      habit: storageService.getHabitData(),
+      settings: storageService.getSettings(),
+      sessions: storageService.getSessions(),
+      files
+    };
+
+    const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+    const header = new Uint8Array(12);
+    header.set(new TextEncoder().encode(MAGIC), 0);
+    const view = new DataView(header.buffer);
+    view.setUint32(4, BACKUP_VERSION);
+    view.setUint32(8, manifestBytes.byteLength);
+
+    return new Blob([header, manifestBytes, ...payloads], { type: 'application/octet-stream' });
+  },
+
+  exportLibrary: async () => {
+    const archive = await backupService.createArchive();
+    const url = URL.createObjectURL(archive);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `sanctuary-backup-${dateUtils.today()}.sanctuary`;
+    link.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  },
+
+  readArchive: async (file: Blob): Promise<LibraryBackup> => {
+    const buffer = await file.arrayBuffer();
+    if (buffer.byteLength < 12) throw new Error('Archive is too small');
+
+    const magic = new TextDecoder().decode(new Uint8Array(buffer, 0, 4));
+    if (magic !== MAGIC) throw new Error('Not a Sanctuary archive');
+
+    const view = new DataView(buffer);
+    const version = view.getUint32(4);
+    if (version > BACKUP_VERSION) throw new Error(`Archive version ${version} is newer than this app supports`);
+
+    const manifestLength = view.getUint32(8);
+    const payloadStart = 12 + manifestLength;
+    if (payloadStart > buffer.byteLength) throw new Error('Archive manifest is truncated');
+
+    let manifest: BackupManifest;
+    try {
+      manifest = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 12, manifestLength)));
+    } catch (err) {
+      throw new Error('Archive manifest is corrupt');
+    }
+
+    const files = new Map<string, ArrayBuffer>();
+    for (const entry of manifest.files || []) {
+      const start = payloadStart + entry.offset;
+      if (start + entry.length > buffer.byteLength) continue;
+      files.set(entry.id, buffer.slice(start, start + entry.length));
+    }
+
+    return { manifest, files };
+  },
+
+  restore: async (backup: LibraryBackup, mode: RestoreMode): Promise<RestoreReport> => {
+    const { manifest, files } = backup;
+    const localBooks = mode === 'replace' ? [] : storageService.getBooks();
+    const localShelves = mode === 'replace' ? [] : storageService.getShelves();
+    const localCards = mode === 'replace' ? [] : storageService.getCards();
+    const results: BookRestoreResult[] = [];
+    const books = [...localBooks];
+
+    for (const incoming of manifest.books) {
+      const file = files.get(incoming.id);
+      if (file) await pdfStorage.saveFile(incoming.id, file);
+      // Text and Markdown books carry their content in the record and never have a stored file
+      const hasStoredFile = incoming.format !== 'text' && incoming.format !== 'markdown';
+      const fileMissing = hasStoredFile && !file && !(await pdfStorage.getFile(incoming.id));
+      const index = books.findIndex(b => b.id === incoming.id);
+      const normalized = { ...incoming, annotations: incoming.annotations || [] };
+
+      if (index === -1) {
+        books.push(normalized);
+        results.push({
+          bookId: incoming.id,
+          title: incoming.title,
+          status: mode === 'replace' ? 'replaced' : 'added',
+          annotationsAdded: normalized.annotations.length,
+          fileMissing
+        });
+        continue;
+      }
+
+      const local = books[index];
+      const { added } = mergeAnnotations(local.annotations, normalized.annotations);
+      const merged = mergeBook(local, normalized);
+      const changed = added > 0 || merged.timeSpentSeconds !== local.timeSpentSeconds || merged.lastPage !== local.lastPage;
+      books[index] = merged;
+      results.push({
+        bookId: incoming.id,
+        title: local.title,
+        status: changed ? 'merged' : 'unchanged',
+        annotationsAdded: added,
+        fileMissing
+      });
+    }
+
+    const knownShelves = new Set(localShelves.map(s => s.id));
+    const newShelves = manifest.shelves.filter(s => !knownShelves.has(s.id));
+    const shelves = [...localShelves, ...newShelves];
+
+    const cardsById = new Map(localCards.map(c => [c.id, c]));
+    let cardsAdded = 0;
+    for (const card of manifest.cards || []) {
+      const local = cardsById.get(card.id);
+      if (!local) cardsAdded++;
+      if (!local || (card.lastReviewedAt || 0) > (local.lastReviewedAt || 0)) cardsById.set(card.id, card);
+    }
+
+    storageService.saveBooks(books);
+    storageService.saveShelves(shelves.length > 0 ? shelves : storageService.getShelves());
+    storageService.saveCards(Array.from(cardsById.values()));
+
+    // Sessions keep running after a backup, so the copy that ended later wins
+    const sessionsById = new Map((mode === 'replace' ? [] : storageService.getSessions()).map(s => [s.id, s]));
+    for (const session of manifest.sessions || []) {
+      const local = sessionsById.get(session.id);
+      if (!local || session.endedAt > local.endedAt) sessionsById.set(session.id, session);
+    }
+    storageService.saveSessions(Array.from(sessionsById.values()).sort((a, b) => a.startedAt - b.startedAt));
+    if (manifest.settings && mode === 'replace') storageService.saveSettings(manifest.settings);
+    if (manifest.habit) {
+      storageService.saveHabitData(mode === 'replace' ? manifest.habit : mergeHabit(storageService.getHabitData(), manifest.habit));
+    }
+
+    return { mode, books: results, shelvesAdded: newShelves.length, cardsAdded };
+  }
+};
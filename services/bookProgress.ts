@@ -0,0 +1,27 @@
+import { Book, ReadingStatus } from '../types';
+
+export const bookProgress = {
+  // Share of the book read, from 0 to 1; null until its length is known
+  fraction: (book: Book): number | null => {
+    if (book.status === 'finished') return 1;
+    if (!book.format || book.format === 'pdf') {
+      return book.pageCount ? Math.min(1, (book.lastPage + 1) / book.pageCount) : null;
+    }
+    if (!book.chapterCount) return null;
+    // The saved position is where the current page starts, so reflowable books only
+    // reach 1 when marked finished
+    const withinChapter = book.readingPosition?.chapter === book.lastPage ? book.readingPosition.progress : 0;
+    return Math.min(1, (book.lastPage + withinChapter) / book.chapterCount);
+  },
+
+  percent: (book: Book): number | null => {
+    const fraction = bookProgress.fraction(book);
+    return fraction === null ? null : Math.round(fraction * 100);
+  },
+
+  status: (book: Book): ReadingStatus => {
+    if (book.status) return book.status;
+    if (book.timeSpentSeconds === 0) return 'toRead';
+    return bookProgress.fraction(book) === 1 ? 'finished' : 'reading';
+  }
+};
@@ -0,0 +1,45 @@
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Hour of the local day at which a new reading day begins (e.g. 4 = reading at 1am still counts for yesterday)
+let rolloverHour = 0;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDay = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+const keyToUTC = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+// All day keys are YYYY-MM-DD strings on the reader's local calendar
+export const dateUtils = {
+  setRolloverHour: (hour: number) => {
+    rolloverHour = Math.max(0, Math.min(23, Math.floor(hour) || 0));
+  },
+
+  dayKey: (time: number | Date = Date.now(), hourOffset: number = rolloverHour): string => {
+    const ms = typeof time === 'number' ? time : time.getTime();
+    return formatDay(new Date(ms - hourOffset * HOUR_MS));
+  },
+
+  today: (): string => dateUtils.dayKey(),
+
+  // Local midnight of the given day key
+  parseDayKey: (key: string): Date => {
+    const [y, m, d] = key.split('-').map(Number);
+    return new Date(y, m - 1, d);
+  },
+
+  addDays: (key: string, days: number): string => {
+    const d = dateUtils.parseDayKey(key);
+    d.setDate(d.getDate() + days);
+    return formatDay(d);
+  },
+
+  // Whole calendar days from one key to another, unaffected by DST shifts
+  daysBetween: (from: string, to: string): number => {
+    return Math.round((keyToUTC(to) - keyToUTC(from)) / DAY_MS);
+  }
+};
@@ -0,0 +1,234 @@
+import { Book, ShelfData, FlashCard, HabitData } from '../types';
+import { dateUtils } from './dateUtils';
+
+export const DB_NAME = 'SanctuaryDB';
+
+export const STORES = {
+  MANUSCRIPTS: 'Manuscripts',
+  BOOKS: 'books',
+  SHELVES: 'shelves',
+  ANNOTATIONS: 'annotations',
+  CARDS: 'cards',
+  HABIT: 'habit',
+  SESSIONS: 'sessions',
+  META: 'meta',
+  TEXT_INDEX: 'textIndex'
+};
+
+// Keys used by the localStorage-only releases
+export const LEGACY_KEYS = {
+  BOOKS: 'sanctuary_books',
+  SHELVES: 'sanctuary_shelves',
+  CARDS: 'sanctuary_cards',
+  SETTINGS: 'sanctuary_settings',
+  HABIT: 'sanctuary_habit'
+};
+
+export interface LegacyLibrary {
+  books: Book[];
+  shelves: ShelfData[] | null;
+  cards: FlashCard[];
+  habit: HabitData | null;
+  settings: unknown;
+}
+
+const readLegacyKey = <T>(key: string): T | null => {
+  try {
+    const data = localStorage.getItem(key);
+    return data ? JSON.parse(data) : null;
+  } catch (err) {
+    return null;
+  }
+};
+
+export const readLegacyLibrary = (): LegacyLibrary => ({
+  books: readLegacyKey<Book[]>(LEGACY_KEYS.BOOKS) || [],
+  shelves: readLegacyKey<ShelfData[]>(LEGACY_KEYS.SHELVES),
+  cards: readLegacyKey<FlashCard[]>(LEGACY_KEYS.CARDS) || [],
+  habit: readLegacyKey<HabitData>(LEGACY_KEYS.HABIT),
+  settings: readLegacyKey(LEGACY_KEYS.SETTINGS)
+});
+
+interface MigrationContext {
+  db: IDBDatabase;
+  tx: IDBTransaction;
+  legacyImported: boolean;
+}
+
+// Each migration upgrades the schema by exactly one version. Shipped migrations
+// must never be edited: append a new one and the version bumps with it.
+const MIGRATIONS: ((ctx: MigrationContext) => void)[] = [
+  // v1: raw manuscript files
+  ({ db }) => {
+    db.createObjectStore(STORES.MANUSCRIPTS);
+  },
+
+  // v2: library metadata moves out of localStorage
+  (ctx) => {
+    const { db, tx } = ctx;
+    const books = db.createObjectStore(STORES.BOOKS, { keyPath: 'id' });
+    books.createIndex('shelfId', 'shelfId');
+    books.createIndex('lastReadAt', 'lastReadAt');
+    db.createObjectStore(STORES.SHELVES, { keyPath: 'id' });
+    const annotations = db.createObjectStore(STORES.ANNOTATIONS, { keyPath: 'id' });
+    annotations.createIndex('bookId', 'bookId');
+    const cards = db.createObjectStore(STORES.CARDS, { keyPath: 'id' });
+    cards.createIndex('bookId', 'bookId');
+    cards.createIndex('dueAt', 'dueAt');
+    db.createObjectStore(STORES.HABIT);
+    const sessions = db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+    sessions.createIndex('bookId', 'bookId');
+    sessions.createIndex('startedAt', 'startedAt');
+    db.createObjectStore(STORES.META);
+
+    const legacy = readLegacyLibrary();
+    legacy.books.forEach(book => {
+      const { annotations: bookAnnotations, ...record } = book;
+      tx.objectStore(STORES.BOOKS).put({ ...record, shelfId: record.shelfId || 'default' });
+      (bookAnnotations || []).forEach(a => tx.objectStore(STORES.ANNOTATIONS).put({ ...a, bookId: book.id }));
+    });
+    (legacy.shelves || []).forEach((shelf, position) => tx.objectStore(STORES.SHELVES).put({ ...shelf, position }));
+    legacy.cards.forEach(card => tx.objectStore(STORES.CARDS).put(card));
+    if (legacy.habit) tx.objectStore(STORES.HABIT).put(legacy.habit, 'habit');
+    if (legacy.settings) tx.objectStore(STORES.META).put(legacy.settings, 'settings');
+    tx.objectStore(STORES.META).put(Date.now(), 'legacyImportedAt');
+    ctx.legacyImported = true;
+  },
+
+  // v3: day keys were UTC dates; re-key them on the local calendar
+  ({ tx }) => {
+    const utcDay = (time: number) => new Date(time).toISOString().split('T')[0];
+    let latestReadAt = 0;
+
+    const cursorRequest = tx.objectStore(STORES.BOOKS).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        const book = cursor.value;
+        if (book.lastReadAt) {
+          latestReadAt = Math.max(latestReadAt, book.lastReadAt);
+          if (book.lastReadDate === utcDay(book.lastReadAt)) {
+            cursor.update({ ...book, lastReadDate: dateUtils.dayKey(book.lastReadAt, 0) });
+          }
+        }
+        cursor.continue();
+        return;
+      }
+
+      // Only the most recent habit day can be tied to a real timestamp
+      const habitStore = tx.objectStore(STORES.HABIT);
+      const habitRequest = habitStore.get('habit');
+      habitRequest.onsuccess = () => {
+        const habit: HabitData | undefined = habitRequest.result;
+        if (!habit) return;
+        const history = Array.from(new Set(habit.history)).sort();
+        const missedDays = Array.from(new Set(habit.missedDays)).filter(d => !history.includes(d)).sort();
+        let lastUpdated = habit.lastUpdated;
+        if (latestReadAt && lastUpdated === utcDay(latestReadAt)) {
+          const localDay = dateUtils.dayKey(latestReadAt, 0);
+          const lastIndex = history.lastIndexOf(lastUpdated);
+          if (lastIndex !== -1 && !history.includes(localDay)) history[lastIndex] = localDay;
+          lastUpdated = localDay;
+        }
+        habitStore.put({ ...habit, history: history.sort(), missedDays, lastUpdated }, 'habit');
+      };
+    };
+  },
+
+  // v4: extracted page text for library-wide search
+  ({ db }) => {
+    db.createObjectStore(STORES.TEXT_INDEX, { keyPath: 'bookId' });
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+let connection: Promise<IDBDatabase> | null = null;
+const blockedListeners = new Set<() => void>();
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const db = {
+  open: (): Promise<IDBDatabase> => {
+    if (connection) return connection;
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let legacyImported = false;
+
+      request.onupgradeneeded = (event) => {
+        const ctx: MigrationContext = { db: request.result, tx: request.transaction!, legacyImported: false };
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](ctx);
+        }
+        legacyImported = ctx.legacyImported;
+      };
+      request.onsuccess = () => {
+        const database = request.result;
+        // Let a newer tab upgrade the schema instead of blocking it
+        database.onversionchange = () => { database.close(); connection = null; };
+        if (legacyImported) Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+        resolve(database);
+      };
+      request.onerror = () => { connection = null; reject(request.error); };
+      // An older tab still holds the database open; the upgrade goes ahead once it closes
+      request.onblocked = () => blockedListeners.forEach(listener => listener());
+    });
+    return connection;
+  },
+
+  // Called while opening waits on other tabs, so the app can say why nothing shows yet
+  onBlocked: (listener: () => void) => {
+    blockedListeners.add(listener);
+    return () => { blockedListeners.delete(listener); };
+  },
+
+  getAll: async <T>(storeName: string): Promise<T[]> => {
+    const database = await db.open();
+    return requestToPromise(database.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+  },
+
+  get: async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+    const database = await db.open();
+    return requestToPromise(database.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+  },
+
+  getAllByIndex: async <T>(storeName: string, indexName: string, key: IDBValidKey | IDBKeyRange): Promise<T[]> => {
+    const database = await db.open();
+    return requestToPromise(database.transaction(storeName, 'readonly').objectStore(storeName).index(indexName).getAll(key));
+  },
+
+  put: async (storeName: string, value: unknown, key?: IDBValidKey): Promise<void> => {
+    const database = await db.open();
+    const tx = database.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(value, key);
+    return transactionDone(tx);
+  },
+
+  delete: async (storeName: string, key: IDBValidKey): Promise<void> => {
+    const database = await db.open();
+    const tx = database.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).delete(key);
+    return transactionDone(tx);
+  },
+
+  // Runs several store operations atomically
+  write: async (storeNames: string[], run: (tx: IDBTransaction) => void): Promise<void> => {
+    const database = await db.open();
+    const tx = database.transaction(storeNames, 'readwrite');
+    run(tx);
+    return transactionDone(tx);
+  }
+};
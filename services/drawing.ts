@@ -0,0 +1,129 @@
+import { Annotation, AnnotationType, InkPoint } from '../types';
+import { PageSize } from './pageRenderer';
+
+export type DrawingType = Extract<AnnotationType, 'ink' | 'arrow' | 'circle'>;
+
+// One stroked SVG path; a pen stroke is split per segment so its width can follow the pressure
+export interface DrawingPath {
+  d: string;
+  width: number;
+}
+
+const DRAWING_TYPES: string[] = ['ink', 'arrow', 'circle'];
+
+// Widths offered by the Reader, in PDF points
+export const STROKE_WIDTHS = [1, 2, 4, 8];
+export const DEFAULT_STROKE_WIDTH = 2;
+
+// How far from a stroke the eraser still catches it, in PDF points
+export const ERASER_RADIUS = 6;
+
+// Pointer moves closer than this (in percent of the page) to the last point are dropped
+const MIN_POINT_DISTANCE = 0.15;
+// Arrows and circles smaller than this (in PDF points) were taps, not drawings
+const MIN_SHAPE_SIZE = 4;
+const ARROWHEAD_ANGLE = Math.PI / 7;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toPage = (p: { x: number, y: number }, size: PageSize) => ({ x: p.x / 100 * size.width, y: p.y / 100 * size.height });
+
+// A pen pressed halfway draws at the chosen width, from half of it up to one and a half times
+const widthAt = (width: number, pressure?: number) => pressure === undefined ? width : width * (0.5 + pressure);
+
+const distanceToSegment = (p: { x: number, y: number }, a: { x: number, y: number }, b: { x: number, y: number }) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const ellipseOf = (anno: Annotation, size: PageSize) => {
+  const rx = (anno.width ?? 0) / 200 * size.width;
+  const ry = (anno.height ?? 0) / 200 * size.height;
+  return { cx: (anno.x ?? 0) / 100 * size.width + rx, cy: (anno.y ?? 0) / 100 * size.height + ry, rx, ry };
+};
+
+export const drawing = {
+  isDrawingType: (type?: string): type is DrawingType => !!type && DRAWING_TYPES.includes(type),
+
+  // Appends a pointer position to a stroke in progress
+  addPoint: (points: InkPoint[], point: InkPoint): InkPoint[] => {
+    const last = points[points.length - 1];
+    if (last && Math.hypot(point.x - last.x, point.y - last.y) < MIN_POINT_DISTANCE) return points;
+    return [...points, point];
+  },
+
+  // Fills in the bounding box, which snapshots, sorting and exports rely on; circles keep only the box
+  complete: (anno: Annotation): Annotation => {
+    const points = anno.points || [];
+    if (!points.length) return anno;
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    const bounds = { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+    return anno.type === 'circle' ? { ...anno, ...bounds, points: undefined } : { ...anno, ...bounds };
+  },
+
+  // Ink taps are kept as dots; arrows and circles need some extent
+  isTooSmall: (anno: Annotation, size: PageSize) => {
+    if (anno.type === 'ink') return false;
+    return Math.max((anno.width ?? 0) / 100 * size.width, (anno.height ?? 0) / 100 * size.height) < MIN_SHAPE_SIZE;
+  },
+
+  // Paths in the units of size; scale converts PDF points to those units for the stroke widths
+  paths: (anno: Annotation, size: PageSize, scale = 1): DrawingPath[] => {
+    const width = (anno.strokeWidth ?? DEFAULT_STROKE_WIDTH) * scale;
+
+    if (anno.type === 'circle') {
+      const { cx, cy, rx, ry } = ellipseOf(anno, size);
+      return [{ d: `M${round(cx - rx)} ${round(cy)}A${round(rx)} ${round(ry)} 0 1 0 ${round(cx + rx)} ${round(cy)}A${round(rx)} ${round(ry)} 0 1 0 ${round(cx - rx)} ${round(cy)}`, width }];
+    }
+
+    const points = (anno.points || []).map(p => ({ ...toPage(p, size), pressure: p.pressure }));
+    if (!points.length) return [];
+
+    if (anno.type === 'arrow') {
+      const from = points[0];
+      const to = points[points.length - 1];
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      // Heads grow with the stroke but stay visible on thin ones
+      const head = Math.max(10 * scale, width * 4);
+      const wing = (side: number) => `${round(to.x - head * Math.cos(angle + side * ARROWHEAD_ANGLE))} ${round(to.y - head * Math.sin(angle + side * ARROWHEAD_ANGLE))}`;
+      return [
+        { d: `M${round(from.x)} ${round(from.y)}L${round(to.x)} ${round(to.y)}`, width },
+        { d: `M${wing(1)}L${round(to.x)} ${round(to.y)}L${wing(-1)}`, width }
+      ];
+    }
+
+    // A single point is drawn as a zero-length line, which round caps turn into a dot
+    if (points.length === 1) return [{ d: `M${round(points[0].x)} ${round(points[0].y)}l0 0`, width: widthAt(width, points[0].pressure) }];
+    if (points.every(p => p.pressure === undefined)) {
+      return [{ d: points.map((p, i) => `${i ? 'L' : 'M'}${round(p.x)} ${round(p.y)}`).join(''), width }];
+    }
+    return points.slice(1).map((p, i) => {
+      const prev = points[i];
+      const pressure = ((prev.pressure ?? 0.5) + (p.pressure ?? 0.5)) / 2;
+      return { d: `M${round(prev.x)} ${round(prev.y)}L${round(p.x)} ${round(p.y)}`, width: widthAt(width, pressure) };
+    });
+  },
+
+  // Whether the eraser at point (in percent of the page) touches the drawing
+  hits: (anno: Annotation, point: { x: number, y: number }, size: PageSize, radius = ERASER_RADIUS): boolean => {
+    const p = toPage(point, size);
+    const tolerance = radius + (anno.strokeWidth ?? DEFAULT_STROKE_WIDTH) / 2;
+
+    if (anno.type === 'circle') {
+      const { cx, cy, rx, ry } = ellipseOf(anno, size);
+      const distance = Math.hypot((p.x - cx) / Math.max(rx, 1), (p.y - cy) / Math.max(ry, 1));
+      return Math.abs(distance - 1) * Math.min(Math.max(rx, 1), Math.max(ry, 1)) <= tolerance;
+    }
+
+    const points = (anno.points || []).map(q => toPage(q, size));
+    if (anno.type === 'arrow' && points.length > 1) return distanceToSegment(p, points[0], points[points.length - 1]) <= tolerance;
+    if (points.length === 1) return Math.hypot(p.x - points[0].x, p.y - points[0].y) <= tolerance;
+    return points.slice(1).some((q, i) => distanceToSegment(p, points[i], q) <= tolerance);
+  }
+};
@@ -0,0 +1,311 @@
+import { openZip, ZipArchive } from './zipReader';
+import { OutlineItem } from './outline';
+import type { ReflowChapter, ReflowDocument } from './reflowDocument';
+
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const OPS_NS = 'http://www.idpf.org/2007/ops';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+// Chapters are rebuilt from these elements only. None of them has raw text content, so the
+// markup they serialize to parses back into the same tree.
+const ALLOWED_TAGS = [
+  'p', 'div', 'span', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'code',
+  'a', 'em', 'strong', 'b', 'i', 'u', 's', 'sub', 'sup', 'small', 'big', 'mark', 'del', 'ins', 'q', 'cite',
+  'abbr', 'dfn', 'kbd', 'samp', 'var', 'time', 'address', 'ruby', 'rb', 'rt', 'rp', 'bdi', 'bdo', 'wbr',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'caption', 'colgroup', 'col', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'figure', 'figcaption', 'img', 'section', 'article', 'aside', 'header', 'footer', 'nav', 'main', 'center'
+];
+// Enough SVG for the image wrappers many EPUBs use for covers and plates
+const ALLOWED_SVG_TAGS = ['svg', 'g', 'image'];
+// Copied as they are; links and image sources are rewritten separately
+const ALLOWED_ATTRIBUTES = ['id', 'title', 'lang', 'dir', 'alt', 'colspan', 'rowspan', 'span', 'start', 'reversed', 'scope', 'width', 'height', 'viewBox', 'preserveAspectRatio'];
+// Left out with their content, which is code or markup rather than text to read
+const DROPPED_TAGS = ['head', 'title', 'script', 'style', 'template', 'noscript', 'xmp', 'noembed', 'noframes', 'plaintext', 'iframe', 'object', 'embed', 'textarea', 'select'];
+// Relative references resolve against this base, so only absolute ones can bring another scheme
+const URL_BASE = 'https://epub.invalid/';
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+// Font obfuscation is listed in encryption.xml too but leaves the text readable
+const FONT_OBFUSCATION = ['http://www.idpf.org/2008/embedding', 'http://ns.adobe.com/pdf/enc#RC'];
+
+interface ManifestItem {
+  id: string;
+  path: string;
+  mediaType: string;
+  properties: string[];
+}
+
+export interface EpubDetails {
+  title: string;
+  author: string;
+  subject: string;
+  language: string;
+  chapterCount: number;
+  cover: Blob | null;
+  // DRM-protected content cannot be read
+  encrypted: boolean;
+}
+
+export interface EpubDocument extends ReflowDocument, Omit<EpubDetails, 'cover' | 'encrypted'> {}
+
+// OPF and NCX elements live in their own default namespaces, so match on local names
+const byTag = (root: Document | Element, name: string) => Array.from(root.getElementsByTagNameNS('*', name));
+const firstText = (root: Document | Element, name: string) => byTag(root, name)[0]?.textContent?.trim() || '';
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml') => {
+  const doc = new DOMParser().parseFromString(text, type);
+  if (type !== 'text/html' && doc.getElementsByTagName('parsererror').length > 0) {
+    // Plenty of EPUBs ship chapters that are not well-formed XML
+    return new DOMParser().parseFromString(text, 'text/html');
+  }
+  return doc;
+};
+
+const splitHref = (href: string) => {
+  const hash = href.indexOf('#');
+  return hash === -1 ? { file: href, fragment: '' } : { file: href.slice(0, hash), fragment: href.slice(hash + 1) };
+};
+
+// Resolves an href against the archive path of the file that contains it
+const resolvePath = (from: string, href: string) => {
+  const parts = from.split('/').slice(0, -1);
+  decodeURIComponent(href).split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const isExternal = (href: string) => /^[a-z][a-z0-9+.-]*:/i.test(href);
+
+// Parsed the way the browser will follow it, so tabs or entities inside a scheme cannot hide it
+const isSafeUrl = (value: string) => {
+  try {
+    const { protocol } = new URL(value, URL_BASE);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const readPackage = async (zip: ZipArchive) => {
+  const container = parseXml(await zip.readText('META-INF/container.xml'));
+  const opfPath = byTag(container, 'rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath || !zip.has(opfPath)) throw new Error('EPUB package document not found');
+  const opf = parseXml(await zip.readText(opfPath));
+
+  const manifest = new Map<string, ManifestItem>();
+  byTag(opf, 'item').forEach(el => {
+    const id = el.getAttribute('id');
+    const href = el.getAttribute('href');
+    if (!id || !href) return;
+    manifest.set(id, {
+      id,
+      path: resolvePath(opfPath, href),
+      mediaType: el.getAttribute('media-type') || '',
+      properties: (el.getAttribute('properties') || '').split(/\s+/)
+    });
+  });
+
+  const spineEl = byTag(opf, 'spine')[0];
+  const spine = byTag(opf, 'itemref')
+    .filter(el => el.getAttribute('linear') !== 'no')
+    .map(el => manifest.get(el.getAttribute('idref') || ''))
+    .filter((item): item is ManifestItem => !!item && zip.has(item.path));
+
+  const items = Array.from(manifest.values());
+  const coverId = byTag(opf, 'meta').find(el => el.getAttribute('name') === 'cover')?.getAttribute('content');
+  const coverItem = items.find(i => i.properties.includes('cover-image')) || (coverId ? manifest.get(coverId) : undefined);
+
+  const language = firstText(opf, 'language');
+  const isRtl = spineEl?.getAttribute('page-progression-direction') === 'rtl'
+    || RTL_LANGUAGES.includes(language.toLowerCase().split('-')[0]);
+
+  return {
+    title: opf.getElementsByTagNameNS(DC_NS, 'title')[0]?.textContent?.trim() || '',
+    author: Array.from(opf.getElementsByTagNameNS(DC_NS, 'creator')).map(el => el.textContent?.trim()).filter(Boolean).join(', '),
+    subject: Array.from(opf.getElementsByTagNameNS(DC_NS, 'subject')).map(el => el.textContent?.trim()).filter(Boolean).join(', '),
+    language,
+    direction: (isRtl ? 'rtl' : 'ltr') as ReflowDocument['direction'],
+    spine,
+    nav: items.find(i => i.properties.includes('nav')),
+    ncx: manifest.get(spineEl?.getAttribute('toc') || '') || items.find(i => i.mediaType === 'application/x-dtbncx+xml'),
+    coverItem: coverItem && zip.has(coverItem.path) ? coverItem : undefined,
+    manifest: items
+  };
+};
+
+type PackageInfo = Awaited<ReturnType<typeof readPackage>>;
+
+const isEncrypted = async (zip: ZipArchive) => {
+  if (!zip.has('META-INF/encryption.xml')) return false;
+  const doc = parseXml(await zip.readText('META-INF/encryption.xml'));
+  return byTag(doc, 'EncryptionMethod').some(el => !FONT_OBFUSCATION.includes(el.getAttribute('Algorithm') || ''));
+};
+
+// The EPUB 3 navigation document, falling back to the EPUB 2 NCX
+const readToc = async (zip: ZipArchive, pkg: PackageInfo, chapterOf: (path: string) => number | null): Promise<OutlineItem[]> => {
+  const target = (from: string, href: string | null) => href ? chapterOf(resolvePath(from, splitHref(href).file)) : null;
+
+  if (pkg.nav && zip.has(pkg.nav.path)) {
+    const doc = parseXml(await zip.readText(pkg.nav.path), 'application/xhtml+xml');
+    const navs = byTag(doc, 'nav');
+    const toc = navs.find(n => (n.getAttributeNS(OPS_NS, 'type') || n.getAttribute('epub:type')) === 'toc') || navs[0];
+    const walk = (list: Element | undefined): OutlineItem[] => Array.from(list?.children || [])
+      .filter(li => li.localName === 'li')
+      .map(li => {
+        const label = Array.from(li.children).find(c => c.localName === 'a' || c.localName === 'span');
+        return {
+          title: label?.textContent?.replace(/\s+/g, ' ').trim() || '',
+          pageIndex: label?.localName === 'a' ? target(pkg.nav!.path, label.getAttribute('href')) : null,
+          items: walk(Array.from(li.children).find(c => c.localName === 'ol'))
+        };
+      })
+      .filter(item => item.title);
+    const items = walk(toc && Array.from(toc.children).find(c => c.localName === 'ol'));
+    if (items.length > 0) return items;
+  }
+
+  if (pkg.ncx && zip.has(pkg.ncx.path)) {
+    const doc = parseXml(await zip.readText(pkg.ncx.path));
+    const walk = (parent: Element | undefined): OutlineItem[] => Array.from(parent?.children || [])
+      .filter(el => el.localName === 'navPoint')
+      .map(point => ({
+        title: firstText(point, 'text'),
+        pageIndex: target(pkg.ncx!.path, byTag(point, 'content')[0]?.getAttribute('src') || null),
+        items: walk(point)
+      }))
+      .filter(item => item.title);
+    return walk(byTag(doc, 'navMap')[0]);
+  }
+
+  return [];
+};
+
+export const epubParser = {
+  // Metadata and cover for the upload form, without touching the chapters
+  readDetails: async (data: ArrayBuffer): Promise<EpubDetails> => {
+    const zip = openZip(data);
+    const pkg = await readPackage(zip);
+    const cover = pkg.coverItem
+      ? new Blob([await zip.read(pkg.coverItem.path)], { type: pkg.coverItem.mediaType })
+      : null;
+    return {
+      title: pkg.title,
+      author: pkg.author,
+      subject: pkg.subject,
+      language: pkg.language,
+      chapterCount: pkg.spine.length,
+      cover,
+      encrypted: await isEncrypted(zip)
+    };
+  },
+
+  // Spine documents become sanitized HTML chapters. Images are served from object URLs
+  // (revoked by dispose) unless withImages is false, as when only the text is needed.
+  parse: async (data: ArrayBuffer, withImages: boolean = true): Promise<EpubDocument> => {
+    const zip = openZip(data);
+    const pkg = await readPackage(zip);
+    const chapterIndex = new Map(pkg.spine.map((item, i) => [item.path, i]));
+    const chapterOf = (path: string) => chapterIndex.get(path) ?? null;
+    const mediaTypes = new Map(pkg.manifest.map(item => [item.path, item.mediaType]));
+
+    const urls = new Map<string, string>();
+    const resourceUrl = async (path: string) => {
+      if (!urls.has(path)) {
+        const blob = new Blob([await zip.read(path)], { type: mediaTypes.get(path) || '' });
+        urls.set(path, URL.createObjectURL(blob));
+      }
+      return urls.get(path)!;
+    };
+
+    const toc = await readToc(zip, pkg, chapterOf);
+    const tocTitles = new Map<number, string>();
+    const collectTitles = (items: OutlineItem[]) => items.forEach(item => {
+      if (item.pageIndex !== null && !tocTitles.has(item.pageIndex)) tocTitles.set(item.pageIndex, item.title);
+      collectTitles(item.items);
+    });
+    collectTitles(toc);
+
+    const output = document.implementation.createHTMLDocument('');
+    const chapters: ReflowChapter[] = [];
+    for (let i = 0; i < pkg.spine.length; i++) {
+      const path = pkg.spine[i].path;
+      const source = parseXml(await zip.readText(path), 'application/xhtml+xml');
+      const body = byTag(source, 'body')[0];
+      if (!body) {
+        chapters.push({ title: tocTitles.get(i) || '', html: '' });
+        continue;
+      }
+
+      // Nothing from the source document is imported: each allowed node is created afresh
+      const copyChildren = async (from: Node, to: Node): Promise<void> => {
+        for (const node of Array.from(from.childNodes)) {
+          if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+            to.appendChild(output.createTextNode(node.textContent || ''));
+            continue;
+          }
+          if (node.nodeType !== Node.ELEMENT_NODE) continue;
+          const source = node as Element;
+          const isSvg = source.namespaceURI === SVG_NS;
+          const tag = isSvg ? source.localName : source.localName.toLowerCase();
+          if (DROPPED_TAGS.includes(tag)) continue;
+          // Any other element is unwrapped: its text stays, the element does not
+          if (!(isSvg ? ALLOWED_SVG_TAGS : ALLOWED_TAGS).includes(tag)) { await copyChildren(source, to); continue; }
+
+          const el = isSvg ? output.createElementNS(SVG_NS, tag) : output.createElement(tag);
+          Array.from(source.attributes).forEach(attr => {
+            if (ALLOWED_ATTRIBUTES.includes(attr.localName)) el.setAttribute(attr.localName, attr.value);
+          });
+          // SVG images and links may use xlink:href instead of href
+          const href = Array.from(source.attributes).find(a => a.localName === 'href')?.value;
+
+          if (tag === 'img' || tag === 'image') {
+            const src = tag === 'img' ? source.getAttribute('src') : href;
+            const resolved = src && !isExternal(src) ? resolvePath(path, src) : null;
+            if (!withImages || !resolved || !zip.has(resolved)) continue;
+            el.setAttribute(tag === 'img' ? 'src' : 'href', await resourceUrl(resolved));
+          } else if (tag === 'a' && href) {
+            if (isExternal(href)) {
+              if (isSafeUrl(href)) {
+                el.setAttribute('href', href);
+                el.setAttribute('target', '_blank');
+                el.setAttribute('rel', 'noopener noreferrer');
+              }
+            } else {
+              // Internal links are followed by the reader rather than the browser
+              const { file, fragment } = splitHref(href);
+              const chapter = file ? chapterOf(resolvePath(path, file)) : i;
+              if (chapter !== null) {
+                el.setAttribute('data-chapter', String(chapter));
+                if (fragment) el.setAttribute('data-anchor', fragment);
+              }
+            }
+          }
+
+          to.appendChild(el);
+          await copyChildren(source, el);
+        }
+      };
+
+      const container = output.createElement('div');
+      await copyChildren(body, container);
+      const heading = container.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim();
+      chapters.push({ title: tocTitles.get(i) || heading || '', html: container.innerHTML });
+    }
+
+    return {
+      title: pkg.title,
+      author: pkg.author,
+      subject: pkg.subject,
+      language: pkg.language,
+      chapterCount: chapters.length,
+      direction: pkg.direction,
+      chapters,
+      toc,
+      dispose: () => {
+        urls.forEach(url => URL.revokeObjectURL(url));
+        urls.clear();
+      }
+    };
+  }
+};
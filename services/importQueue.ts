@@ -0,0 +1,249 @@
+import { Annotation, Book, BookFormat } from '../types';
+import { storageService } from './storageService';
+import { pdfStorage } from './pdfStorage';
+import { pdfMetadata } from './pdfMetadata';
+import { epubParser } from './epubParser';
+import { markdown } from './markdown';
+import { dateUtils } from './dateUtils';
+
+// Files are read whole into memory to be hashed and stored, so very large ones are refused
+export const MAX_IMPORT_MB = 200;
+
+export type ImportFailure = 'unsupported' | 'encrypted' | 'corrupt' | 'tooLarge';
+
+export interface ImportItem {
+  id: string;
+  file: File;
+  status: 'queued' | 'reading' | 'ready' | 'duplicate' | 'failed';
+  failure?: ImportFailure;
+  // Title of the library book or earlier queued file with the same content
+  duplicateOf?: string;
+  format?: BookFormat;
+  hash?: string;
+  title: string;
+  author: string;
+  subject: string;
+  cover: string;
+  pageCount: number;
+  // Markup already saved in a PDF by other readers
+  annotations: Annotation[];
+  shelfId: string;
+}
+
+export interface ImportQueue {
+  add: (files: File[], shelfId: string) => void;
+  update: (id: string, updates: Partial<Pick<ImportItem, 'title' | 'author' | 'subject' | 'cover' | 'shelfId'>>) => void;
+  remove: (id: string) => void;
+  // Drops items whose books were added, remembering their hashes so the same files dropped again are duplicates
+  markImported: (ids: string[]) => void;
+  assignShelf: (shelfId: string) => void;
+  destroy: () => void;
+}
+
+const detectFormat = (file: File): BookFormat | null => {
+  const name = file.name.toLowerCase();
+  if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+  if (file.type === 'application/epub+zip' || name.endsWith('.epub')) return 'epub';
+  if (file.type === 'text/markdown' || /\.(md|markdown)$/.test(name)) return 'markdown';
+  if (file.type === 'text/plain' || name.endsWith('.txt')) return 'text';
+  return null;
+};
+
+const sha256 = async (data: BufferSource) => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Hashes of every book in the library, computing (and saving) the ones imported before hashes were kept
+const libraryHashes = async (): Promise<Map<string, string>> => {
+  const hashes = new Map<string, string>();
+  for (const book of storageService.getBooks()) {
+    let hash = book.contentHash;
+    if (!hash) {
+      try {
+        const data = book.format === 'text' || book.format === 'markdown'
+          ? new TextEncoder().encode(book.content)
+          : await pdfStorage.getFile(book.id);
+        if (!data) continue;
+        hash = await sha256(data);
+        storageService.updateBookDetails(book.id, { contentHash: hash });
+      } catch (err) {
+        console.warn(`Unable to hash "${book.title}":`, err);
+        continue;
+      }
+    }
+    hashes.set(hash, book.title);
+  }
+  return hashes;
+};
+
+const readDetails = async (format: BookFormat, data: ArrayBuffer, fallbackTitle: string) => {
+  if (format === 'pdf') {
+    const details = await pdfMetadata.read(data, true);
+    return { ...details, title: details.title || fallbackTitle };
+  }
+  if (format === 'epub') {
+    const details = await epubParser.readDetails(data);
+    if (details.encrypted) throw new Error('encrypted');
+    if (details.chapterCount === 0) throw new Error('EPUB has no readable chapters');
+    const cover = details.cover ? await pdfMetadata.coverFromImage(details.cover).catch(() => '') : '';
+    return { title: details.title || fallbackTitle, author: details.author, subject: details.subject, pageCount: 0, cover, annotations: [] };
+  }
+  // The first level 1 heading names a Markdown book
+  const heading = format === 'markdown'
+    ? new TextDecoder().decode(data).split('\n').find(line => /^#\s/.test(line))
+    : undefined;
+  return { title: (heading && markdown.headingText(heading)) || fallbackTitle, author: '', subject: '', pageCount: 0, cover: '', annotations: [] };
+};
+
+// pdf.js reports a missing password with a PasswordException
+const classify = (err: unknown): ImportFailure => {
+  const { name, message } = (err || {}) as { name?: string, message?: string };
+  return name === 'PasswordException' || message === 'encrypted' ? 'encrypted' : 'corrupt';
+};
+
+// Files are read one at a time so a large batch never holds more than one file in memory
+export const createImportQueue = (onChange: (items: ImportItem[]) => void): ImportQueue => {
+  let items: ImportItem[] = [];
+  let hashes: Promise<Map<string, string>> | null = null;
+  let isRunning = false;
+  let isDestroyed = false;
+
+  const publish = () => { if (!isDestroyed) onChange(items.map(item => ({ ...item }))); };
+
+  const patch = (id: string, updates: Partial<ImportItem>) => {
+    items = items.map(item => item.id === id ? { ...item, ...updates } : item);
+    publish();
+  };
+
+  const process = async (item: ImportItem) => {
+    const format = detectFormat(item.file);
+    if (!format) { patch(item.id, { status: 'failed', failure: 'unsupported' }); return; }
+    if (item.file.size > MAX_IMPORT_MB * 1024 * 1024) { patch(item.id, { status: 'failed', failure: 'tooLarge', format }); return; }
+
+    patch(item.id, { status: 'reading', format });
+    try {
+      const data = await item.file.arrayBuffer();
+      const hash = await sha256(data);
+      hashes = hashes || libraryHashes();
+      const existing = (await hashes).get(hash)
+        ?? items.find(other => other.id !== item.id && other.hash === hash && other.status !== 'failed')?.title;
+      if (existing !== undefined) { patch(item.id, { status: 'duplicate', duplicateOf: existing, hash }); return; }
+
+      const details = await readDetails(format, data, item.file.name.replace(/\.[^/.]+$/, ''));
+      patch(item.id, { status: 'ready', hash, title: details.title, author: details.author, subject: details.subject, cover: details.cover, pageCount: details.pageCount, annotations: details.annotations });
+    } catch (err) {
+      console.warn(`Unable to import "${item.file.name}":`, err);
+      patch(item.id, { status: 'failed', failure: classify(err) });
+    }
+  };
+
+  const run = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    for (let next = items.find(i => i.status === 'queued'); next && !isDestroyed; next = items.find(i => i.status === 'queued')) {
+      await process(next);
+    }
+    isRunning = false;
+  };
+
+  return {
+    add: (files: File[], shelfId: string) => {
+      items = [...items, ...files.map(file => ({
+        id: Math.random().toString(36).substr(2, 9),
+        file,
+        status: 'queued' as const,
+        title: file.name.replace(/\.[^/.]+$/, ''),
+        author: '',
+        subject: '',
+        cover: '',
+        pageCount: 0,
+        annotations: [],
+        shelfId
+      }))];
+      publish();
+      run();
+    },
+
+    update: (id, updates) => patch(id, updates),
+
+    remove: (id: string) => {
+      items = items.filter(item => item.id !== id);
+      publish();
+    },
+
+    markImported: (ids: string[]) => {
+      const imported = items.filter(item => ids.includes(item.id));
+      items = items.filter(item => !ids.includes(item.id));
+      // Before the library hashes are first loaded they are read from storage, which then has the new books
+      if (hashes) {
+        hashes = hashes.then(known => {
+          imported.forEach(item => { if (item.hash) known.set(item.hash, item.title.trim() || item.file.name); });
+          return known;
+        });
+      }
+      publish();
+    },
+
+    assignShelf: (shelfId: string) => {
+      items = items.map(item => ({ ...item, shelfId }));
+      publish();
+    },
+
+    destroy: () => { isDestroyed = true; }
+  };
+};
+
+// Stores each ready file and returns the new book records, in queue order
+export const importReadyItems = async (items: ImportItem[], defaults: { author: string }): Promise<Book[]> => {
+  const books: Book[] = [];
+  for (const item of items.filter(i => i.status === 'ready' && i.format)) {
+    const data = await item.file.arrayBuffer();
+    const isTextBook = item.format === 'text' || item.format === 'markdown';
+    const bookId = Math.random().toString(36).substr(2, 9);
+    if (!isTextBook) await pdfStorage.saveFile(bookId, data);
+    books.push({
+      id: bookId, shelfId: item.shelfId, title: item.title.trim() || item.file.name,
+      author: item.author.trim() || defaults.author,
+      cover: item.cover,
+      content: isTextBook ? new TextDecoder().decode(data) : item.format === 'epub' ? "[EPUB_MODE]" : "[VISUAL_PDF_MODE]",
+      timeSpentSeconds: 0, dailyTimeSeconds: 0,
+      lastReadDate: dateUtils.today(), stars: 0,
+      addedAt: Date.now(), lastPage: 0, annotations: item.annotations,
+      subject: item.subject.trim() || undefined,
+      pageCount: item.pageCount || undefined,
+      format: item.format,
+      contentHash: item.hash
+    });
+  }
+  return books;
+};
+
+export const isImportable = (file: File) => detectFormat(file) !== null;
+
+// Walks dropped folders, which browsers only expose through the entries API. Files found
+// inside folders are kept only when they can be imported; dropped files are all kept.
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  const walk = async (entry: FileSystemEntry, inFolder: boolean): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      if (!inFolder || (!file.name.startsWith('.') && isImportable(file))) files.push(file);
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns the directory in batches until an empty one
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        for (const child of batch) await walk(child, true);
+      }
+    }
+  };
+  for (const entry of entries) await walk(entry, false);
+  return files;
+};
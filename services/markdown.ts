@@ -0,0 +1,119 @@
+// A small CommonMark subset for reading notes and drafts: headings, paragraphs, lists,
+// quotes, fenced code, rules and inline emphasis, code and links. Raw HTML is shown as text.
+
+const ENTITIES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?(.*)$/;
+const LIST_ITEM = /^\s{0,3}([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const FENCE = /^\s{0,3}(```|~~~)/;
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => ENTITIES[c]);
+
+const inline = (text: string): string => {
+  // Code spans are set aside first so nothing inside them is formatted
+  const codes: string[] = [];
+  const html = escapeHtml(text)
+    .replace(/`([^`]+)`/g, (_, code) => `\u0000${codes.push(code) - 1}\u0000`)
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)[^)]*\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '<strong>$2</strong>')
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '<del>$1</del>');
+  return html.replace(/\u0000(\d+)\u0000/g, (_, i) => `<code>${codes[Number(i)]}</code>`);
+};
+
+export const markdown = {
+  // Heading text without its markers or inline formatting
+  headingText: (line: string): string | null => {
+    const match = line.match(HEADING);
+    return match ? match[2].replace(/[*_`~]/g, '').trim() : null;
+  },
+
+  toHtml: (source: string): string => {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const html: string[] = [];
+    let paragraph: string[] = [];
+    let quote: string[] = [];
+    let list: { ordered: boolean, items: string[] } | null = null;
+
+    const flush = () => {
+      if (paragraph.length) html.push(`<p>${inline(paragraph.join(' '))}</p>`);
+      if (quote.length) html.push(`<blockquote>${markdown.toHtml(quote.join('\n'))}</blockquote>`);
+      if (list) {
+        const tag = list.ordered ? 'ol' : 'ul';
+        html.push(`<${tag}>${list.items.map(item => `<li>${inline(item)}</li>`).join('')}</${tag}>`);
+      }
+      paragraph = [];
+      quote = [];
+      list = null;
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+
+      const fence = line.match(FENCE);
+      if (fence) {
+        flush();
+        const code: string[] = [];
+        for (i++; i < lines.length && !lines[i].trim().startsWith(fence[1]); i++) code.push(lines[i]);
+        html.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+        continue;
+      }
+
+      if (!line.trim()) { flush(); continue; }
+
+      const heading = line.match(HEADING);
+      if (heading) {
+        flush();
+        const level = heading[1].length;
+        html.push(`<h${level}>${inline(heading[2])}</h${level}>`);
+        continue;
+      }
+
+      if (RULE.test(line)) { flush(); html.push('<hr>'); continue; }
+
+      const quoted = line.match(QUOTE);
+      if (quoted) {
+        if (!quote.length) flush();
+        quote.push(quoted[1]);
+        continue;
+      }
+
+      const item = line.match(LIST_ITEM);
+      if (item) {
+        const ordered = /\d/.test(item[1]);
+        if (!list || list.ordered !== ordered) {
+          flush();
+          list = { ordered, items: [] };
+        }
+        list.items.push(item[2]);
+        continue;
+      }
+
+      // Indented lines continue the previous list item, anything else the open block
+      if (list && /^\s/.test(line)) {
+        list.items[list.items.length - 1] += ` ${line.trim()}`;
+      } else if (quote.length) {
+        quote.push(line);
+      } else {
+        if (list) flush();
+        paragraph.push(line.trim());
+      }
+    }
+    flush();
+    return html.join('\n');
+  },
+
+  // Plain text: blank lines separate paragraphs, single line breaks are kept
+  textToHtml: (source: string): string => {
+    return source.replace(/\r\n?/g, '\n').split(/\n\s*\n/)
+      .map(block => block.trim())
+      .filter(Boolean)
+      .map(block => `<p>${block.split('\n').map(escapeHtml).join('<br>')}</p>`)
+      .join('\n');
+  }
+};
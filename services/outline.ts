@@ -0,0 +1,31 @@
+export interface OutlineItem {
+  title: string;
+  // Null when the destination could not be resolved to a page
+  pageIndex: number | null;
+  items: OutlineItem[];
+}
+
+export interface OutlineEntry {
+  title: string;
+  pageIndex: number;
+  depth: number;
+}
+
+export const outline = {
+  // Depth-first, keeping only entries that point at a page
+  flatten: (items: OutlineItem[], depth: number = 0): OutlineEntry[] => {
+    return items.flatMap(item => [
+      ...(item.pageIndex === null ? [] : [{ title: item.title, pageIndex: item.pageIndex, depth }]),
+      ...outline.flatten(item.items, depth + 1)
+    ]);
+  },
+
+  // The last entry starting at or before the page; on a shared page the deeper, later entry wins
+  chapterAt: (entries: OutlineEntry[], pageIndex: number): OutlineEntry | null => {
+    let current: OutlineEntry | null = null;
+    entries.forEach(entry => {
+      if (entry.pageIndex <= pageIndex && (!current || entry.pageIndex >= current.pageIndex)) current = entry;
+    });
+    return current;
+  }
+};
@@ -0,0 +1,216 @@
+import { OutlineItem } from './outline';
+
+// pdf.js is loaded globally from index.html
+declare const pdfjsLib: any;
+type PdfDocument = any;
+type TextContent = { items: { str: string }[] };
+
+const PAGE_CACHE_SIZE = 8;
+const THUMBNAIL_CACHE_SIZE = 120;
+const THUMBNAIL_SCALE = 0.25;
+const PREFETCH_RADIUS = 2;
+const TEXT_CACHE_SIZE = 24;
+// Guard against huge canvases when zooming far into large pages
+const MAX_CANVAS_PIXELS = 16_000_000;
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export interface PageRenderer {
+  numPages: number;
+  getPageSize: (index: number) => Promise<PageSize>;
+  getPage: (index: number, scale: number) => Promise<string>;
+  getThumbnail: (index: number) => Promise<string>;
+  getTextContent: (index: number) => Promise<TextContent>;
+  getPageText: (index: number) => Promise<string>;
+  renderTextLayer: (index: number) => Promise<HTMLDivElement>;
+  getOutline: () => Promise<OutlineItem[]>;
+  prefetch: (center: number, scale: number) => void;
+  destroy: () => void;
+}
+
+// Object URLs in least-recently-used order; evicted entries are revoked
+const createUrlCache = (limit: number) => {
+  const entries = new Map<string, string>();
+  return {
+    get: (key: string) => {
+      const url = entries.get(key);
+      if (url !== undefined) {
+        entries.delete(key);
+        entries.set(key, url);
+      }
+      return url;
+    },
+    set: (key: string, url: string) => {
+      entries.set(key, url);
+      while (entries.size > limit) {
+        const [oldestKey, oldestUrl] = entries.entries().next().value as [string, string];
+        entries.delete(oldestKey);
+        URL.revokeObjectURL(oldestUrl);
+      }
+    },
+    clear: () => {
+      entries.forEach(url => URL.revokeObjectURL(url));
+      entries.clear();
+    }
+  };
+};
+
+// Render scales are snapped so small zoom changes reuse the cached bitmap
+export const quantizeScale = (scale: number) => Math.max(0.25, Math.ceil(scale * 4) / 4);
+
+export const createPageRenderer = (pdf: PdfDocument): PageRenderer => {
+  const pages = createUrlCache(PAGE_CACHE_SIZE);
+  const thumbnails = createUrlCache(THUMBNAIL_CACHE_SIZE);
+  const inflight = new Map<string, Promise<string>>();
+  const sizes = new Map<number, PageSize>();
+  const texts = new Map<number, Promise<TextContent>>();
+  let outlineJob: Promise<OutlineItem[]> | null = null;
+  let destroyed = false;
+  let prefetchToken = 0;
+
+  const renderToUrl = async (index: number, scale: number): Promise<string> => {
+    const page = await pdf.getPage(index + 1);
+    let viewport = page.getViewport({ scale });
+    const pixels = viewport.width * viewport.height;
+    if (pixels > MAX_CANVAS_PIXELS) viewport = page.getViewport({ scale: scale * Math.sqrt(MAX_CANVAS_PIXELS / pixels) });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    // Release the bitmap memory right away instead of waiting for GC
+    canvas.width = 0;
+    canvas.height = 0;
+    page.cleanup();
+    if (!blob) throw new Error(`Unable to render page ${index + 1}`);
+    return URL.createObjectURL(blob);
+  };
+
+  const cached = (cache: ReturnType<typeof createUrlCache>, key: string, index: number, scale: number) => {
+    const hit = cache.get(key);
+    if (hit) return Promise.resolve(hit);
+    const pending = inflight.get(key);
+    if (pending) return pending;
+
+    const job = renderToUrl(index, scale)
+      .then(url => {
+        if (destroyed) {
+          URL.revokeObjectURL(url);
+          throw new Error('Renderer destroyed');
+        }
+        cache.set(key, url);
+        return url;
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, job);
+    return job;
+  };
+
+  const renderer: PageRenderer = {
+    numPages: pdf.numPages,
+
+    getPageSize: async (index: number) => {
+      const known = sizes.get(index);
+      if (known) return known;
+      const page = await pdf.getPage(index + 1);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const size = { width, height };
+      sizes.set(index, size);
+      return size;
+    },
+
+    getPage: (index: number, scale: number) => {
+      const q = quantizeScale(scale);
+      return cached(pages, `${index}@${q}`, index, q);
+    },
+
+    getThumbnail: (index: number) => cached(thumbnails, `${index}`, index, THUMBNAIL_SCALE),
+
+    getTextContent: (index: number) => {
+      const known = texts.get(index);
+      if (known) {
+        texts.delete(index);
+        texts.set(index, known);
+        return known;
+      }
+      const job = pdf.getPage(index + 1).then((page: any) => page.getTextContent());
+      job.catch(() => texts.delete(index));
+      texts.set(index, job);
+      if (texts.size > TEXT_CACHE_SIZE) texts.delete(texts.keys().next().value as number);
+      return job;
+    },
+
+    // Joined exactly as the text layer lays out its spans, so offsets into it address the rendered text
+    getPageText: async (index: number) => {
+      const { items } = await renderer.getTextContent(index);
+      return items.map(item => item.str || '').join('');
+    },
+
+    // Laid out at scale 1: the caller sizes it through the --scale-factor CSS variable
+    renderTextLayer: async (index: number) => {
+      const [page, textContent] = await Promise.all([pdf.getPage(index + 1), renderer.getTextContent(index)]);
+      const layer = document.createElement('div');
+      layer.className = 'textLayer';
+      await pdfjsLib.renderTextLayer({
+        textContentSource: textContent,
+        container: layer,
+        viewport: page.getViewport({ scale: 1 }),
+        textDivs: []
+      }).promise;
+      return layer;
+    },
+
+    // Renders the neighbours one at a time; a newer prefetch request cancels the remaining work
+    prefetch: (center: number, scale: number) => {
+      const token = ++prefetchToken;
+      const order: number[] = [];
+      for (let d = 1; d <= PREFETCH_RADIUS; d++) order.push(center + d, center - d);
+      (async () => {
+        for (const index of order) {
+          if (destroyed || token !== prefetchToken) return;
+          if (index < 0 || index >= pdf.numPages) continue;
+          try {
+            await renderer.getPage(index, scale);
+          } catch (err) {
+            return;
+          }
+        }
+      })();
+    },
+
+    // Named and explicit destinations are resolved to zero-based page indexes
+    getOutline: () => {
+      if (outlineJob) return outlineJob;
+      const resolve = async (dest: any): Promise<number | null> => {
+        try {
+          const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+          if (!Array.isArray(explicit)) return null;
+          const target = explicit[0];
+          return typeof target === 'number' ? target : await pdf.getPageIndex(target);
+        } catch (err) {
+          return null;
+        }
+      };
+      const walk = (items: any[] | null): Promise<OutlineItem[]> => Promise.all((items || []).map(async item => ({
+        title: item.title,
+        pageIndex: await resolve(item.dest),
+        items: await walk(item.items)
+      })));
+      outlineJob = pdf.getOutline().then(walk);
+      return outlineJob!;
+    },
+
+    destroy: () => {
+      destroyed = true;
+      pages.clear();
+      thumbnails.clear();
+      pdf.destroy();
+    }
+  };
+
+  return renderer;
+};
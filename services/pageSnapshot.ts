@@ -0,0 +1,85 @@
+import { Annotation } from '../types';
+import { drawing } from './drawing';
+
+// Region of a page in percentages (0-100) of its width/height
+export interface PageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A drawing to paint over the crop, since drawings are not part of the rendered page;
+// the page width in PDF points converts its stroke width to pixels
+export interface SnapshotOverlay {
+  annotation: Annotation;
+  pageWidth: number;
+}
+
+const MAX_SNAPSHOT_WIDTH = 900;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Unable to load page image'));
+    img.src = src;
+  });
+};
+
+const clampRegion = (r: PageRegion): PageRegion => {
+  const x = Math.max(0, Math.min(100, r.x));
+  const y = Math.max(0, Math.min(100, r.y));
+  return { x, y, width: Math.max(1, Math.min(100 - x, r.width)), height: Math.max(1, Math.min(100 - y, r.height)) };
+};
+
+export const pageSnapshot = {
+  // Area worth capturing for an annotation: notes are points and underlines are
+  // a thin line under the text, so both are widened to include the passage itself.
+  regionForAnnotation: (anno: Annotation): PageRegion => {
+    const x = anno.x ?? anno.rect?.x ?? 0;
+    const y = anno.y ?? anno.rect?.y ?? 0;
+    const width = anno.width ?? anno.rect?.w ?? 0;
+    const height = anno.height ?? anno.rect?.h ?? 0;
+    const pad = 1.5;
+
+    if (anno.type === 'note' || width === 0) {
+      return clampRegion({ x: x - 20, y: y - 6, width: 40, height: 12 });
+    }
+    if (anno.type === 'underline') {
+      return clampRegion({ x: x - pad, y: y - 4, width: width + pad * 2, height: height + 4 + pad });
+    }
+    return clampRegion({ x: x - pad, y: y - pad, width: width + pad * 2, height: height + pad * 2 });
+  },
+
+  captureRegion: async (pageSrc: string, region: PageRegion, overlay?: SnapshotOverlay): Promise<string> => {
+    const img = await loadImage(pageSrc);
+    const r = clampRegion(region);
+    const sx = (r.x / 100) * img.naturalWidth;
+    const sy = (r.y / 100) * img.naturalHeight;
+    const sw = (r.width / 100) * img.naturalWidth;
+    const sh = (r.height / 100) * img.naturalHeight;
+    const scale = Math.min(1, MAX_SNAPSHOT_WIDTH / sw);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+    if (overlay && drawing.isDrawingType(overlay.annotation.type)) {
+      ctx.scale(canvas.width / sw, canvas.height / sh);
+      ctx.translate(-sx, -sy);
+      ctx.strokeStyle = overlay.annotation.color;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      const size = { width: img.naturalWidth, height: img.naturalHeight };
+      drawing.paths(overlay.annotation, size, img.naturalWidth / overlay.pageWidth).forEach(path => {
+        ctx.lineWidth = path.width;
+        ctx.stroke(new Path2D(path.d));
+      });
+    }
+    return canvas.toDataURL('image/jpeg', 0.85);
+  }
+};
@@ -0,0 +1,44 @@
+import { Annotation, PaletteColor } from '../types';
+
+export const DEFAULT_PALETTE: PaletteColor[] = [
+  { hex: '#fbbf24', label: 'Yellow', shortcut: '1' },
+  { hex: '#ef4444', label: 'Red', shortcut: '2' },
+  { hex: '#22c55e', label: 'Green', shortcut: '3' },
+  { hex: '#3b82f6', label: 'Blue', shortcut: '4' },
+  { hex: '#a855f7', label: 'Purple', shortcut: '5' }
+];
+
+export interface ColorGroup {
+  hex: string;
+  // Undefined for colors that are no longer in the palette
+  label?: string;
+  annotations: Annotation[];
+}
+
+const sameColor = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export const palette = {
+  find: (colors: PaletteColor[], hex: string): PaletteColor | undefined => colors.find(c => sameColor(c.hex, hex)),
+
+  labelFor: (colors: PaletteColor[], hex: string): string => palette.find(colors, hex)?.label || hex,
+
+  // Shortcuts are matched case-insensitively and never with modifier keys, which belong to the browser
+  forKey: (colors: PaletteColor[], e: KeyboardEvent): PaletteColor | undefined => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return undefined;
+    return colors.find(c => c.shortcut && c.shortcut.toLowerCase() === e.key.toLowerCase());
+  },
+
+  // Groups in palette order, followed by colors no longer in the palette; annotations keep their order
+  groupByColor: (annotations: Annotation[], colors: PaletteColor[]): ColorGroup[] => {
+    const groups: ColorGroup[] = colors.map(c => ({ hex: c.hex, label: c.label, annotations: [] }));
+    annotations.forEach(anno => {
+      let group = groups.find(g => sameColor(g.hex, anno.color));
+      if (!group) {
+        group = { hex: anno.color, annotations: [] };
+        groups.push(group);
+      }
+      group.annotations.push(anno);
+    });
+    return groups.filter(g => g.annotations.length > 0);
+  }
+};
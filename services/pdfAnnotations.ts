@@ -0,0 +1,121 @@
+import { Annotation, AnnotationRect, AnnotationType, InkPoint } from '../types';
+import { drawing } from './drawing';
+
+// pdf.js is loaded globally from index.html
+declare const pdfjsLib: any;
+
+// The PDF markup Sanctuary has a counterpart for. Lines are left out: pdf.js 3 sorts
+// their end points, which loses both the direction and which way they slant.
+const KINDS: Record<string, AnnotationType> = {
+  Highlight: 'highlight',
+  Underline: 'underline',
+  Square: 'box',
+  Text: 'note',
+  Ink: 'ink',
+  Circle: 'circle'
+};
+
+// Used when an annotation carries no color of its own
+const DEFAULT_COLOR = '#fbbf24';
+
+const toHex = (color: ArrayLike<number> | null | undefined) => {
+  if (!color || color.length < 3) return DEFAULT_COLOR;
+  return '#' + Array.from(color).slice(0, 3).map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+};
+
+// A rectangle in PDF user space as percent of the page as the Reader displays it,
+// so crop box offsets and /Rotate are applied the same way as when rendering
+const toPercentRect = (viewport: any, rect: number[]): AnnotationRect => {
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(rect);
+  return {
+    x: Math.min(x1, x2) / viewport.width * 100,
+    y: Math.min(y1, y2) / viewport.height * 100,
+    w: Math.abs(x2 - x1) / viewport.width * 100,
+    h: Math.abs(y2 - y1) / viewport.height * 100
+  };
+};
+
+// pdf.js 3 lists quads as arrays of {x, y} points; later versions use a flat number array
+const quadBounds = (quadPoints: any): number[][] => {
+  if (!quadPoints?.length) return [];
+  const quads: number[][] = typeof quadPoints[0] === 'number'
+    ? Array.from({ length: Math.floor(quadPoints.length / 8) }, (_, i) => Array.from(quadPoints.slice(i * 8, i * 8 + 8) as ArrayLike<number>))
+    : quadPoints.map((quad: { x: number, y: number }[]) => quad.flatMap(p => [p.x, p.y]));
+  return quads.map(quad => {
+    const xs = quad.filter((_, i) => i % 2 === 0);
+    const ys = quad.filter((_, i) => i % 2 === 1);
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+  });
+};
+
+// Ink lists come as arrays of {x, y} points in pdf.js 3 and as flat number arrays later
+const inkStrokes = (viewport: any, inkLists: any): InkPoint[][] =>
+  (inkLists || []).map((list: any) => {
+    const coords: number[] = typeof list[0] === 'number' ? Array.from(list) : list.flatMap((p: { x: number, y: number }) => [p.x, p.y]);
+    return Array.from({ length: Math.floor(coords.length / 2) }, (_, i) => {
+      const [x, y] = viewport.convertToViewportPoint(coords[i * 2], coords[i * 2 + 1]);
+      return { x: x / viewport.width * 100, y: y / viewport.height * 100 };
+    });
+  }).filter((points: InkPoint[]) => points.length > 0);
+
+const parseDate = (value: unknown) => {
+  if (typeof value !== 'string') return undefined;
+  return pdfjsLib.PDFDateString?.toDateObject(value)?.getTime() ?? undefined;
+};
+
+const convert = (item: any, viewport: any, pageIndex: number): Annotation[] => {
+  const type = KINDS[item.subtype];
+  // Replies belong to the comment thread of another annotation
+  if (!type || item.inReplyTo || !item.rect) return [];
+
+  const base: Annotation = {
+    id: Math.random().toString(36).substr(2, 9),
+    type,
+    pageIndex,
+    title: '',
+    text: (item.contentsObj?.str ?? item.contents ?? '').trim(),
+    color: toHex(item.color),
+    timestamp: parseDate(item.modificationDate) ?? parseDate(item.creationDate)
+  };
+  const bounds = toPercentRect(viewport, item.rect);
+
+  // Notes are pinned by their center, where the Reader draws the marker
+  if (type === 'note') return [{ ...base, x: bounds.x + bounds.w / 2, y: bounds.y + bounds.h / 2 }];
+
+  const strokeWidth = item.borderStyle?.width || undefined;
+  if (type === 'circle') return [{ ...base, strokeWidth, x: bounds.x, y: bounds.y, width: bounds.w, height: bounds.h }];
+  // Sanctuary keeps one stroke per drawing, so the strokes of one ink annotation are split up
+  if (type === 'ink') {
+    return inkStrokes(viewport, item.inkLists).map((points, i) => drawing.complete({
+      ...base,
+      id: i ? Math.random().toString(36).substr(2, 9) : base.id,
+      points,
+      strokeWidth
+    }));
+  }
+
+  const rects = type === 'box' ? [] : quadBounds(item.quadPoints).map(quad => toPercentRect(viewport, quad));
+  return [{
+    ...base,
+    rects: rects.length ? rects : undefined,
+    x: bounds.x, y: bounds.y, width: bounds.w, height: bounds.h
+  }];
+};
+
+export const pdfAnnotations = {
+  // Reads highlights, underlines, boxes, notes, ink and circles that other readers saved in the file
+  read: async (pdf: any): Promise<Annotation[]> => {
+    const annotations: Annotation[] = [];
+    for (let i = 0; i < pdf.numPages; i++) {
+      const page = await pdf.getPage(i + 1);
+      try {
+        const viewport = page.getViewport({ scale: 1 });
+        const items = await page.getAnnotations({ intent: 'display' });
+        items.forEach((item: any) => annotations.push(...convert(item, viewport, i)));
+      } finally {
+        page.cleanup();
+      }
+    }
+    return annotations;
+  }
+};
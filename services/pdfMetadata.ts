@@ -0,0 +1,88 @@
+import { Annotation } from '../types';
+import { pdfAnnotations } from './pdfAnnotations';
+
+// pdf.js is loaded globally from index.html
+declare const pdfjsLib: any;
+
+// Covers are stored inline with the book record, so keep them small
+const COVER_WIDTH = 400;
+const COVER_QUALITY = 0.8;
+
+export interface PdfDetails {
+  title: string;
+  author: string;
+  subject: string;
+  pageCount: number;
+  cover: string;
+  // Only read on request, since it visits every page
+  annotations: Annotation[];
+}
+
+const infoString = (value: unknown) => typeof value === 'string' ? value.replace(/\0/g, '').trim() : '';
+
+const canvasToCover = (canvas: HTMLCanvasElement) => {
+  const url = canvas.toDataURL('image/jpeg', COVER_QUALITY);
+  canvas.width = 0;
+  canvas.height = 0;
+  return url;
+};
+
+export const pdfMetadata = {
+  // pdf.js takes ownership of the buffer it is given, so it reads from a copy
+  read: async (data: ArrayBuffer, withAnnotations: boolean = false): Promise<PdfDetails> => {
+    const pdf = await pdfjsLib.getDocument({ data: data.slice(0) }).promise;
+    try {
+      const [{ info }, cover, annotations] = await Promise.all([
+        pdf.getMetadata().catch(() => ({ info: {} })),
+        pdfMetadata.renderCover(pdf),
+        withAnnotations
+          ? pdfAnnotations.read(pdf).catch(err => { console.warn('Unable to read PDF annotations:', err); return []; })
+          : Promise.resolve([])
+      ]);
+      return {
+        title: infoString(info?.Title),
+        author: infoString(info?.Author),
+        subject: infoString(info?.Subject),
+        pageCount: pdf.numPages,
+        cover,
+        annotations
+      };
+    } finally {
+      pdf.destroy();
+    }
+  },
+
+  // The first page, scaled down to a shelf-sized JPEG data URL
+  renderCover: async (pdf: any): Promise<string> => {
+    const page = await pdf.getPage(1);
+    const viewport = page.getViewport({ scale: COVER_WIDTH / page.getViewport({ scale: 1 }).width });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+    page.cleanup();
+    return canvasToCover(canvas);
+  },
+
+  // Custom covers are resized the same way so records stay small
+  coverFromImage: (file: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const url = URL.createObjectURL(file);
+      const img = new Image();
+      img.onload = () => {
+        const scale = Math.min(1, COVER_WIDTH / img.naturalWidth);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.naturalWidth * scale);
+        canvas.height = Math.round(img.naturalHeight * scale);
+        canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+        URL.revokeObjectURL(url);
+        resolve(canvasToCover(canvas));
+      };
+      img.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('Unable to read cover image'));
+      };
+      img.src = url;
+    });
+  }
+};
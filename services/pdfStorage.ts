@@ -1,38 +1,42 @@
+import { db, STORES, transactionDone } from './db';
+
+export interface StoredFile {
+  id: string;
+  size: number;
+}
 
 export const pdfStorage = {
-  dbName: 'SanctuaryDB',
-  storeName: 'Manuscripts',
+  storeName: STORES.MANUSCRIPTS,
 
-  init: (): Promise<IDBDatabase> => {
-    return new Promise((resolve, reject) => {
-      const request = indexedDB.open(pdfStorage.dbName, 1);
-      request.onupgradeneeded = () => {
-        request.result.createObjectStore(pdfStorage.storeName);
-      };
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
-  },
+  init: (): Promise<IDBDatabase> => db.open(),
 
   saveFile: async (id: string, data: ArrayBuffer): Promise<void> => {
-    const db = await pdfStorage.init();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(pdfStorage.storeName, 'readwrite');
-      const store = transaction.objectStore(pdfStorage.storeName);
-      const request = store.put(data, id);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    return db.put(pdfStorage.storeName, data, id);
   },
 
   getFile: async (id: string): Promise<ArrayBuffer | null> => {
-    const db = await pdfStorage.init();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(pdfStorage.storeName, 'readonly');
-      const store = transaction.objectStore(pdfStorage.storeName);
-      const request = store.get(id);
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
+    const data = await db.get<ArrayBuffer>(pdfStorage.storeName, id);
+    return data ?? null;
+  },
+
+  deleteFile: async (id: string): Promise<void> => {
+    return db.delete(pdfStorage.storeName, id);
+  },
+
+  // Walks the store with a cursor so only one file is held in memory at a time
+  listFiles: async (): Promise<StoredFile[]> => {
+    const database = await db.open();
+    const tx = database.transaction(pdfStorage.storeName, 'readonly');
+    const files: StoredFile[] = [];
+    const request = tx.objectStore(pdfStorage.storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const value = cursor.value;
+      files.push({ id: String(cursor.key), size: value instanceof Blob ? value.size : value?.byteLength || 0 });
+      cursor.continue();
+    };
+    await transactionDone(tx);
+    return files;
   }
 };
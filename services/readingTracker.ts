@@ -0,0 +1,161 @@
+import { ReadingSession } from '../types';
+import { storageService } from './storageService';
+
+// Reading seconds are buffered in memory and written at most this often
+const FLUSH_DELAY_MS = 5000;
+
+export interface ReadingTracker {
+  tick: (seconds?: number) => void;
+  setPage: (pageIndex: number) => void;
+  setZenMode: (isZen: boolean) => void;
+  setSoundscape: (soundId: string) => void;
+  addIdleSeconds: (seconds: number) => void;
+  flush: () => void;
+  stop: () => void;
+}
+
+export const createReadingTracker = (bookId: string, initialPage: number, onStarReached: (star: number) => void): ReadingTracker => {
+  let pendingSeconds = 0;
+  let flushTimer: number | null = null;
+  let currentPage = initialPage;
+  let isZenMode = false;
+
+  const startedAt = Date.now();
+  const session: ReadingSession = {
+    id: `${bookId}-${startedAt.toString(36)}`,
+    bookId,
+    startedAt,
+    endedAt: startedAt,
+    activeSeconds: 0,
+    pages: [],
+    zenSeconds: 0,
+    idleSeconds: 0,
+    soundscapes: []
+  };
+  // Dwell time per page, in visiting order
+  const dwell = new Map<number, number>([[initialPage, 0]]);
+
+  const save = () => {
+    storageService.saveSession({
+      ...session,
+      endedAt: Date.now(),
+      pages: Array.from(dwell, ([pageIndex, dwellSeconds]) => ({ pageIndex, dwellSeconds })),
+      soundscapes: [...session.soundscapes]
+    });
+  };
+
+  const flush = () => {
+    if (flushTimer !== null) {
+      window.clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    if (pendingSeconds === 0) return;
+    const seconds = pendingSeconds;
+    pendingSeconds = 0;
+    const { starReached } = storageService.updateBookStats(bookId, seconds);
+    save();
+    if (starReached) onStarReached(starReached);
+  };
+
+  const tick = (seconds: number = 1) => {
+    pendingSeconds += seconds;
+    session.activeSeconds += seconds;
+    if (isZenMode) session.zenSeconds += seconds;
+    dwell.set(currentPage, (dwell.get(currentPage) || 0) + seconds);
+    if (flushTimer === null) flushTimer = window.setTimeout(flush, FLUSH_DELAY_MS);
+  };
+
+  // The tab may never come back (mobile app switch, closed window), so persist right away
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flush();
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('pagehide', flush);
+
+  return {
+    tick,
+    flush,
+    setPage: (pageIndex: number) => {
+      currentPage = pageIndex;
+      if (!dwell.has(pageIndex)) dwell.set(pageIndex, 0);
+    },
+    setZenMode: (isZen: boolean) => {
+      isZenMode = isZen;
+    },
+    setSoundscape: (soundId: string) => {
+      if (soundId !== 'none' && !session.soundscapes.includes(soundId)) session.soundscapes.push(soundId);
+    },
+    addIdleSeconds: (seconds: number) => {
+      if (seconds <= 0) return;
+      session.idleSeconds = (session.idleSeconds || 0) + seconds;
+      save();
+    },
+    stop: () => {
+      flush();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    }
+  };
+};
+
+export interface ReadingClock {
+  resume: () => void;
+  stop: () => void;
+}
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+
+// Ticks the tracker once a second while the reader is present: the tab is visible, the
+// window focused and there was input within the idle timeout (0 disables the timeout).
+// Going idle flushes the tracker and waits for resume(); the time spent waiting is
+// recorded as idle time when the reader resumes or leaves.
+export const startReadingClock = (
+  tracker: ReadingTracker,
+  idleTimeoutMinutes: number,
+  handlers: { onTick: () => void; onIdle: () => void }
+): ReadingClock => {
+  const idleTimeoutMs = idleTimeoutMinutes * 60 * 1000;
+  let lastActivity = Date.now();
+  let isIdle = false;
+  let idleSince = 0;
+
+  const markActivity = () => { lastActivity = Date.now(); };
+  const markVisible = () => { if (!document.hidden) markActivity(); };
+  ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, markActivity, { passive: true }));
+  window.addEventListener('focus', markActivity);
+  document.addEventListener('visibilitychange', markVisible);
+
+  const timer = window.setInterval(() => {
+    if (document.hidden || !document.hasFocus() || isIdle) return;
+    if (idleTimeoutMs > 0 && Date.now() - lastActivity > idleTimeoutMs) {
+      isIdle = true;
+      idleSince = Date.now();
+      tracker.flush();
+      handlers.onIdle();
+      return;
+    }
+    tracker.tick();
+    handlers.onTick();
+  }, 1000);
+
+  const endIdle = () => {
+    if (!isIdle) return;
+    isIdle = false;
+    tracker.addIdleSeconds(Math.round((Date.now() - idleSince) / 1000));
+  };
+
+  return {
+    resume: () => {
+      lastActivity = Date.now();
+      endIdle();
+    },
+    stop: () => {
+      endIdle();
+      window.clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, markActivity));
+      window.removeEventListener('focus', markActivity);
+      document.removeEventListener('visibilitychange', markVisible);
+    }
+  };
+};
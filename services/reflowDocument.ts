@@ -0,0 +1,104 @@
+import { Book } from '../types';
+import { pdfStorage } from './pdfStorage';
+import { epubParser } from './epubParser';
+import { markdown } from './markdown';
+import { OutlineItem } from './outline';
+
+export interface ReflowChapter {
+  title: string;
+  // Sanitized markup, safe to assign to innerHTML
+  html: string;
+}
+
+// A book laid out by the browser rather than in fixed pages. Chapters play the role
+// pages have for PDFs: annotations, bookmarks and search hits point at a chapter index.
+export interface ReflowDocument {
+  direction: 'ltr' | 'rtl';
+  chapters: ReflowChapter[];
+  toc: OutlineItem[];
+  dispose: () => void;
+}
+
+// Plain text has no structure to split on, so long texts are cut into sections of about this many characters
+const TEXT_SECTION_LENGTH = 40000;
+
+// Right-to-left when Arabic or Hebrew letters outnumber Latin ones near the start
+const textDirection = (text: string): ReflowDocument['direction'] => {
+  const sample = text.slice(0, 4000);
+  const rtl = (sample.match(/[\u0590-\u08FF]/g) || []).length;
+  const ltr = (sample.match(/[A-Za-z\u00C0-\u024F]/g) || []).length;
+  return rtl > ltr ? 'rtl' : 'ltr';
+};
+
+const textSections = (text: string): string[] => {
+  const sections: string[] = [];
+  let current = '';
+  text.replace(/\r\n?/g, '\n').split(/\n\s*\n/).forEach(block => {
+    if (current && current.length + block.length > TEXT_SECTION_LENGTH) {
+      sections.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${block}` : block;
+  });
+  if (current.trim() || sections.length === 0) sections.push(current);
+  return sections;
+};
+
+// Markdown chapters start at level 1 and 2 headings; the outline nests level 2 under level 1
+const markdownDocument = (source: string): ReflowDocument => {
+  const chapters: { title: string, level: number, lines: string[] }[] = [];
+  let inFence = false;
+  source.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    if (/^\s{0,3}(```|~~~)/.test(line)) inFence = !inFence;
+    const title = inFence ? null : markdown.headingText(line);
+    const level = title === null ? 0 : line.match(/^#+/)![0].length;
+    if (title !== null && level <= 2) chapters.push({ title, level, lines: [line] });
+    else if (chapters.length === 0) chapters.push({ title: '', level: 0, lines: [line] });
+    else chapters[chapters.length - 1].lines.push(line);
+  });
+
+  // Blank lines before the first heading do not make a chapter
+  if (chapters.length > 1 && !chapters[0].title && !chapters[0].lines.join('').trim()) chapters.shift();
+
+  const toc: OutlineItem[] = [];
+  chapters.forEach((chapter, index) => {
+    if (!chapter.title) return;
+    const item: OutlineItem = { title: chapter.title, pageIndex: index, items: [] };
+    const parent = toc[toc.length - 1];
+    if (chapter.level === 2 && parent && chapters[parent.pageIndex!].level === 1) parent.items.push(item);
+    else toc.push(item);
+  });
+
+  return {
+    direction: textDirection(source),
+    chapters: chapters.map(c => ({ title: c.title, html: markdown.toHtml(c.lines.join('\n')) })),
+    toc,
+    dispose: () => {}
+  };
+};
+
+export const reflowDocument = {
+  // Every format other than PDF is laid out by the reflowable reader
+  isReflowable: (book: Book): boolean => !!book.format && book.format !== 'pdf',
+
+  load: async (book: Book, withImages: boolean = true): Promise<ReflowDocument | null> => {
+    if (book.format === 'markdown') return markdownDocument(book.content);
+    if (book.format === 'text') {
+      return {
+        direction: textDirection(book.content),
+        chapters: textSections(book.content).map(section => ({ title: '', html: markdown.textToHtml(section) })),
+        toc: [],
+        dispose: () => {}
+      };
+    }
+    const data = await pdfStorage.getFile(book.id);
+    return data ? epubParser.parse(data, withImages) : null;
+  },
+
+  // The text offsets of annotations and search hits count characters of exactly this string
+  chapterText: (chapter: ReflowChapter): string => {
+    // Parsed into a document that is never rendered, so nothing in it loads or runs
+    const doc = new DOMParser().parseFromString(chapter.html, 'text/html');
+    return doc.body.textContent || '';
+  }
+};
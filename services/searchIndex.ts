@@ -0,0 +1,126 @@
+import { Book, Annotation } from '../types';
+import { db, STORES } from './db';
+import { pdfStorage } from './pdfStorage';
+import { createPageRenderer } from './pageRenderer';
+import { reflowDocument } from './reflowDocument';
+import { textSearch, TextMatch } from './textSearch';
+
+declare const pdfjsLib: any;
+
+// Bump to rebuild every stored index after a change to how page text is extracted
+const INDEX_VERSION = 1;
+const HITS_PER_BOOK = 25;
+
+export interface PageTextSource {
+  numPages: number;
+  getPageText: (index: number) => Promise<string>;
+}
+
+interface BookTextIndex {
+  bookId: string;
+  version: number;
+  pages: string[];
+  indexedAt: number;
+}
+
+export interface PageHit {
+  pageIndex: number;
+  match: TextMatch;
+  snippet: ReturnType<typeof textSearch.snippet>;
+}
+
+export interface LibrarySearchResult {
+  book: Book;
+  pageHits: PageHit[];
+  annotationHits: Annotation[];
+}
+
+// Page text plus its normalized form, kept in memory once loaded so each query is a plain scan
+const loaded = new Map<string, { pages: string[], normalized: string[] }>();
+
+const remember = (bookId: string, pages: string[]) => {
+  loaded.set(bookId, { pages, normalized: pages.map(textSearch.normalize) });
+  return pages;
+};
+
+export const searchIndex = {
+  getPages: async (bookId: string): Promise<string[] | null> => {
+    const known = loaded.get(bookId);
+    if (known) return known.pages;
+    const record = await db.get<BookTextIndex>(STORES.TEXT_INDEX, bookId);
+    return record && record.version === INDEX_VERSION ? remember(bookId, record.pages) : null;
+  },
+
+  indexBook: async (bookId: string, source: PageTextSource): Promise<string[]> => {
+    const pages: string[] = [];
+    for (let i = 0; i < source.numPages; i++) {
+      pages.push(await source.getPageText(i));
+    }
+    const record: BookTextIndex = { bookId, version: INDEX_VERSION, pages, indexedAt: Date.now() };
+    await db.put(STORES.TEXT_INDEX, record);
+    return remember(bookId, pages);
+  },
+
+  // Opens the stored file just long enough to extract its text; reflowable chapters are indexed as pages
+  indexStoredBook: async (book: Book): Promise<string[] | null> => {
+    if (reflowDocument.isReflowable(book)) {
+      const doc = await reflowDocument.load(book, false);
+      if (!doc) return null;
+      doc.dispose();
+      return searchIndex.indexBook(book.id, {
+        numPages: doc.chapters.length,
+        getPageText: async (index) => reflowDocument.chapterText(doc.chapters[index])
+      });
+    }
+
+    const data = await pdfStorage.getFile(book.id);
+    if (!data) return null;
+    const renderer = createPageRenderer(await pdfjsLib.getDocument({ data }).promise);
+    try {
+      return await searchIndex.indexBook(book.id, renderer);
+    } finally {
+      renderer.destroy();
+    }
+  },
+
+  // Loads every stored index and builds the missing ones, one book at a time
+  prepare: async (books: Book[], onProgress?: (done: number, total: number) => void) => {
+    const records = await db.getAll<BookTextIndex>(STORES.TEXT_INDEX);
+    records.filter(r => r.version === INDEX_VERSION && !loaded.has(r.bookId)).forEach(r => remember(r.bookId, r.pages));
+
+    const missing = books.filter(b => !loaded.has(b.id));
+    for (let i = 0; i < missing.length; i++) {
+      onProgress?.(i, missing.length);
+      try {
+        await searchIndex.indexStoredBook(missing[i]);
+      } catch (err) {
+        console.warn(`Unable to index "${missing[i].title}":`, err);
+      }
+    }
+    onProgress?.(missing.length, missing.length);
+  },
+
+  // Searches loaded page text and every annotation's title, note and quoted passage
+  search: (books: Book[], query: string): LibrarySearchResult[] => {
+    const needle = textSearch.normalize(query);
+    if (!needle) return [];
+
+    return books
+      .map(book => {
+        const pageHits: PageHit[] = [];
+        const index = loaded.get(book.id);
+        index?.normalized.forEach((text, pageIndex) => {
+          if (pageHits.length >= HITS_PER_BOOK || !text.includes(needle)) return;
+          const page = index.pages[pageIndex];
+          textSearch.findMatches(page, query, HITS_PER_BOOK - pageHits.length).forEach(match => {
+            pageHits.push({ pageIndex, match, snippet: textSearch.snippet(page, match) });
+          });
+        });
+        const annotationHits = (book.annotations || []).filter(a =>
+          [a.title, a.text, a.quote].some(field => field && textSearch.normalize(field).includes(needle))
+        );
+        return { book, pageHits, annotationHits };
+      })
+      .filter(r => r.pageHits.length > 0 || r.annotationHits.length > 0);
+  }
+};
@@ -0,0 +1,50 @@
+import { Book, ShelfData, ShelfRule, ShelfSort, ReadingStatus } from '../types';
+import { bookProgress } from './bookProgress';
+
+export interface ShelfFilter {
+  status: ReadingStatus | 'all';
+  tag: string | null;
+}
+
+const SORTS: Record<ShelfSort, (a: Book, b: Book) => number> = {
+  added: (a, b) => b.addedAt - a.addedAt,
+  recent: (a, b) => (b.lastReadAt || 0) - (a.lastReadAt || 0),
+  time: (a, b) => b.timeSpentSeconds - a.timeSpentSeconds,
+  stars: (a, b) => (b.stars || 0) - (a.stars || 0),
+  progress: (a, b) => (bookProgress.fraction(b) ?? -1) - (bookProgress.fraction(a) ?? -1),
+  title: (a, b) => a.title.localeCompare(b.title)
+};
+
+export const shelfRules = {
+  isSmart: (shelf: ShelfData): boolean => !!shelf.rule,
+
+  matches: (book: Book, rule: ShelfRule): boolean => {
+    switch (rule.kind) {
+      case 'unread':
+        return bookProgress.status(book) === 'toRead';
+      case 'inProgress':
+        return bookProgress.status(book) === 'reading';
+      case 'stars':
+        return (book.stars || 0) >= (rule.minStars ?? 5);
+      case 'tag': {
+        const tag = (rule.tag || '').trim().toLowerCase();
+        return !!tag && (book.tags || []).some(t => t.toLowerCase() === tag);
+      }
+    }
+  },
+
+  booksOn: (shelf: ShelfData, books: Book[]): Book[] => {
+    const rule = shelf.rule;
+    return rule ? books.filter(b => shelfRules.matches(b, rule)) : books.filter(b => b.shelfId === shelf.id);
+  },
+
+  // Array.sort is stable, so ties keep the library order
+  sort: (books: Book[], sort: ShelfSort): Book[] => [...books].sort(SORTS[sort]),
+
+  filter: (books: Book[], filter: ShelfFilter): Book[] => books.filter(book =>
+    (filter.status === 'all' || bookProgress.status(book) === filter.status)
+    && (!filter.tag || (book.tags || []).includes(filter.tag))
+  ),
+
+  tagsOf: (books: Book[]): string[] => Array.from(new Set(books.flatMap(b => b.tags || []))).sort((a, b) => a.localeCompare(b))
+};
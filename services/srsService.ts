@@ -0,0 +1,78 @@
+import { FlashCard, ReviewGrade } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+// A failed card comes back within the same session instead of tomorrow
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+
+// SM-2 quality score for each grade button
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+// Cards that were never scheduled are due from when they were made
+const dueTime = (card: FlashCard) => card.dueAt ?? card.createdAt ?? card.addedAt;
+
+export const srsService = {
+  isDue: (card: FlashCard, now: number = Date.now()): boolean => {
+    return dueTime(card) <= now;
+  },
+
+  getDueCards: (cards: FlashCard[], now: number = Date.now()): FlashCard[] => {
+    return cards
+      .filter(c => srsService.isDue(c, now))
+      .sort((a, b) => dueTime(a) - dueTime(b));
+  },
+
+  gradeCard: (card: FlashCard, grade: ReviewGrade, now: number = Date.now()): FlashCard => {
+    const quality = GRADE_QUALITY[grade];
+    const ease = card.ease ?? DEFAULT_EASE;
+    const repetitions = card.repetitions ?? 0;
+    const interval = card.intervalDays ?? 0;
+
+    if (grade === 'again') {
+      return {
+        ...card,
+        ease: Math.max(MIN_EASE, ease - 0.2),
+        repetitions: 0,
+        intervalDays: 0,
+        lapses: (card.lapses ?? 0) + (repetitions > 0 ? 1 : 0),
+        lastReviewedAt: now,
+        dueAt: now + RELEARN_DELAY_MS
+      };
+    }
+
+    // Classic SM-2 ease adjustment
+    const nextEase = Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    let nextInterval: number;
+    if (repetitions === 0) nextInterval = grade === 'easy' ? 4 : 1;
+    else if (repetitions === 1) nextInterval = grade === 'hard' ? 3 : 6;
+    else if (grade === 'hard') nextInterval = interval * HARD_FACTOR;
+    else nextInterval = interval * nextEase;
+
+    if (grade === 'easy' && repetitions > 0) nextInterval *= EASY_BONUS;
+    nextInterval = Math.max(1, Math.round(nextInterval));
+
+    return {
+      ...card,
+      ease: nextEase,
+      repetitions: repetitions + 1,
+      intervalDays: nextInterval,
+      lastReviewedAt: now,
+      dueAt: now + nextInterval * DAY_MS
+    };
+  },
+
+  // Milliseconds until the card would come back if graded this way
+  previewInterval: (card: FlashCard, grade: ReviewGrade, now: number = Date.now()): number => {
+    const next = srsService.gradeCard(card, grade, now);
+    return (next.dueAt ?? now) - now;
+  }
+};
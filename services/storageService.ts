@@ -1,13 +1,7 @@
-
-import { Book, FlashCard, ShelfData, Annotation, HabitData } from '../types';
-
-const STORAGE_KEYS = {
-  BOOKS: 'sanctuary_books',
-  SHELVES: 'sanctuary_shelves',
-  CARDS: 'sanctuary_cards',
-  SETTINGS: 'sanctuary_settings',
-  HABIT: 'sanctuary_habit'
-};
+import { Book, FlashCard, ShelfData, Annotation, HabitData, ReadingSession, AppSettings } from '../types';
+import { db, STORES, readLegacyLibrary } from './db';
+import { dateUtils } from './dateUtils';
+import { DEFAULT_PALETTE } from './palette';
 
 const DEFAULT_SHELF: ShelfData = {
   id: 'default',
@@ -15,60 +9,203 @@ const DEFAULT_SHELF: ShelfData = {
   color: '#ff0000'
 };
 
+const DEFAULT_SETTINGS: AppSettings = {
+  idleTimeoutMinutes: 5,
+  dayStartHour: 0,
+  reflow: { fontFamily: 'serif', fontSize: 18, lineHeight: 1.7, margin: 'normal', theme: 'paper' },
+  shelf: { sort: 'added', layout: 'flow' },
+  palette: DEFAULT_PALETTE
+};
+
 // New non-linear thresholds in seconds: 15m, 30m, 50m, 140m, 200m, 260m, 320m
 const STAR_THRESHOLDS = [900, 1800, 3000, 8400, 12000, 15600, 19200];
 
+type BookRecord = Omit<Book, 'annotations'>;
+type StoredAnnotation = Annotation & { bookId: string };
+type StoredShelf = ShelfData & { position: number };
+
+// In-memory mirror of the IndexedDB library. Reads are synchronous and served from
+// here; writes update the mirror immediately and are persisted in order behind it.
+const cache: {
+  books: Book[];
+  shelves: ShelfData[];
+  cards: FlashCard[];
+  habit: HabitData | null;
+  sessions: ReadingSession[];
+  settings: Partial<AppSettings>;
+} = {
+  books: [],
+  shelves: [],
+  cards: [],
+  habit: null,
+  sessions: [],
+  settings: {}
+};
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+const persist = (write: () => Promise<void>) => {
+  writeQueue = writeQueue
+    .then(write)
+    .catch(err => console.error('Sanctuary storage write failed:', err));
+};
+
+const sameRecord = (a: Book, b: Book) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof Book)[]);
+  keys.delete('annotations');
+  for (const key of keys) {
+    if (a[key] !== b[key]) return false;
+  }
+  return true;
+};
+
+const toRecord = ({ annotations, ...record }: Book): BookRecord => record;
+
+type BooksListener = (changed: Book[]) => void;
+const bookListeners = new Set<BooksListener>();
+
+// Applies an in-place edit to a single book, persists it and notifies subscribers
+const updateBook = (bookId: string, apply: (book: Book) => void): Book | null => {
+  const current = cache.books.find(b => b.id === bookId);
+  if (!current) return null;
+  const book = { ...current };
+  apply(book);
+  storageService.saveBooks(cache.books.map(b => b.id === bookId ? book : b));
+  bookListeners.forEach(listener => listener([{ ...book }]));
+  return book;
+};
+
 export const storageService = {
+  // Loads the library into memory; must resolve before the app renders
+  init: async () => {
+    try {
+      const [books, annotations, shelves, cards, habit, sessions, settings] = await Promise.all([
+        db.getAll<BookRecord>(STORES.BOOKS),
+        db.getAll<StoredAnnotation>(STORES.ANNOTATIONS),
+        db.getAll<StoredShelf>(STORES.SHELVES),
+        db.getAll<FlashCard>(STORES.CARDS),
+        db.get<HabitData>(STORES.HABIT, 'habit'),
+        db.getAllByIndex<ReadingSession>(STORES.SESSIONS, 'startedAt', IDBKeyRange.lowerBound(0)),
+        db.get<Partial<AppSettings>>(STORES.META, 'settings')
+      ]);
+
+      const byBook = new Map<string, Annotation[]>();
+      annotations.forEach(({ bookId, ...anno }) => {
+        if (!byBook.has(bookId)) byBook.set(bookId, []);
+        byBook.get(bookId)!.push(anno);
+      });
+
+      cache.books = books
+        .map(b => ({ ...b, shelfId: b.shelfId || 'default', annotations: byBook.get(b.id) || [] }))
+        .sort((a, b) => b.addedAt - a.addedAt);
+      cache.shelves = shelves
+        .sort((a, b) => a.position - b.position)
+        .map(({ position, ...shelf }) => shelf);
+      cache.cards = cards.sort((a, b) => (b.createdAt || b.addedAt) - (a.createdAt || a.addedAt));
+      cache.habit = habit || null;
+      cache.sessions = sessions;
+      cache.settings = settings || {};
+      dateUtils.setRolloverHour(storageService.getSettings().dayStartHour);
+    } catch (err) {
+      // IndexedDB unavailable (e.g. some private modes): fall back to the legacy data read-only
+      console.error('Sanctuary storage unavailable, using legacy data:', err);
+      const legacy = readLegacyLibrary();
+      cache.books = legacy.books.map(b => ({ ...b, shelfId: b.shelfId || 'default', annotations: b.annotations || [] }));
+      cache.shelves = legacy.shelves || [];
+      cache.cards = legacy.cards;
+      cache.habit = legacy.habit;
+    }
+  },
+
+  // Resolves once every pending write has reached IndexedDB
+  flush: (): Promise<void> => writeQueue,
+
+  getSettings: (): AppSettings => {
+    // Nested groups are merged too, so options added later get their defaults
+    return {
+      ...DEFAULT_SETTINGS,
+      ...cache.settings,
+      reflow: { ...DEFAULT_SETTINGS.reflow, ...cache.settings.reflow },
+      shelf: { ...DEFAULT_SETTINGS.shelf, ...cache.settings.shelf }
+    };
+  },
+
+  saveSettings: (updates: Partial<AppSettings>) => {
+    cache.settings = { ...cache.settings, ...updates };
+    const settings = cache.settings;
+    dateUtils.setRolloverHour(storageService.getSettings().dayStartHour);
+    persist(() => db.put(STORES.META, settings, 'settings'));
+  },
+
   getShelves: (): ShelfData[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.SHELVES);
-    const shelves = data ? JSON.parse(data) : [DEFAULT_SHELF];
-    return shelves;
+    return cache.shelves.length > 0 ? cache.shelves.map(s => ({ ...s })) : [DEFAULT_SHELF];
   },
 
   saveShelves: (shelves: ShelfData[]) => {
-    localStorage.setItem(STORAGE_KEYS.SHELVES, JSON.stringify(shelves));
+    cache.shelves = shelves.map(s => ({ ...s }));
+    const records: StoredShelf[] = shelves.map((shelf, position) => ({ ...shelf, position }));
+    persist(() => db.write([STORES.SHELVES], tx => {
+      const store = tx.objectStore(STORES.SHELVES);
+      store.clear();
+      records.forEach(r => store.put(r));
+    }));
   },
 
   getBooks: (): Book[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.BOOKS);
-    const books: Book[] = data ? JSON.parse(data) : [];
-    return books.map(b => ({ 
-      ...b, 
-      shelfId: b.shelfId || 'default',
-      annotations: b.annotations || [] 
-    }));
+    return cache.books.map(b => ({ ...b }));
   },
   
+  // Only books whose fields or annotation list changed are written back
   saveBooks: (books: Book[]) => {
-    localStorage.setItem(STORAGE_KEYS.BOOKS, JSON.stringify(books));
+    const previous = new Map(cache.books.map(b => [b.id, b]));
+    const changed = books.filter(b => !previous.has(b.id) || !sameRecord(previous.get(b.id)!, b));
+    const annotated = books.filter(b => previous.get(b.id)?.annotations !== b.annotations);
+    const nextIds = new Set(books.map(b => b.id));
+    const removed = cache.books.filter(b => !nextIds.has(b.id)).map(b => b.id);
+    cache.books = books.map(b => ({ ...b }));
+
+    if (changed.length === 0 && annotated.length === 0 && removed.length === 0) return;
+    persist(async () => {
+      const stale = await Promise.all([...annotated.map(b => b.id), ...removed].map(id =>
+        db.getAllByIndex<StoredAnnotation>(STORES.ANNOTATIONS, 'bookId', id)
+      ));
+      await db.write([STORES.BOOKS, STORES.ANNOTATIONS, STORES.TEXT_INDEX], tx => {
+        const bookStore = tx.objectStore(STORES.BOOKS);
+        const annoStore = tx.objectStore(STORES.ANNOTATIONS);
+        removed.forEach(id => {
+          bookStore.delete(id);
+          tx.objectStore(STORES.TEXT_INDEX).delete(id);
+        });
+        stale.flat().forEach(a => annoStore.delete(a.id));
+        changed.forEach(b => bookStore.put(toRecord(b)));
+        annotated.forEach(b => (b.annotations || []).forEach(a => annoStore.put({ ...a, bookId: b.id })));
+      });
+    });
+  },
+
+  // Subscribers receive fresh copies of the books touched by the update* helpers
+  subscribeToBooks: (listener: BooksListener) => {
+    bookListeners.add(listener);
+    return () => { bookListeners.delete(listener); };
+  },
+
+  updateBookDetails: (bookId: string, updates: Partial<Omit<Book, 'id' | 'annotations'>>) => {
+    updateBook(bookId, book => { Object.assign(book, updates); });
   },
 
   updateBookAnnotations: (bookId: string, annotations: Annotation[]) => {
-    const books = storageService.getBooks();
-    const index = books.findIndex(b => b.id === bookId);
-    if (index !== -1) {
-      books[index].annotations = annotations;
-      storageService.saveBooks(books);
-    }
+    updateBook(bookId, book => { book.annotations = annotations; });
   },
 
   updateBookPage: (bookId: string, page: number) => {
-    const books = storageService.getBooks();
-    const index = books.findIndex(b => b.id === bookId);
-    if (index !== -1) {
-      books[index].lastPage = page;
-      storageService.saveBooks(books);
-    }
+    updateBook(bookId, book => { book.lastPage = page; });
   },
 
   updateBookStats: (bookId: string, seconds: number): { starReached: number | null } => {
-    const books = storageService.getBooks();
-    const index = books.findIndex(b => b.id === bookId);
     let starReached: number | null = null;
 
-    if (index !== -1) {
-      const today = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-      const book = books[index];
+    const updated = updateBook(bookId, book => {
+      const today = dateUtils.today();
       const oldStars = book.stars || 0;
 
       // Reset daily counter if date changed
@@ -96,20 +233,93 @@ export const storageService = {
 
       book.stars = stars;
       book.lastReadAt = Date.now();
-      storageService.saveBooks(books);
-      storageService.recordReadingDay();
-    }
+    });
+
+    if (updated) storageService.recordReadingDay();
     return { starReached };
   },
 
+  // Clears a book's reading time, stars and session history; annotations and cards are kept
+  resetBookStats: (bookId: string) => {
+    updateBook(bookId, book => {
+      book.timeSpentSeconds = 0;
+      book.dailyTimeSeconds = 0;
+      book.stars = 0;
+    });
+    storageService.deleteSessions(bookId);
+  },
+
+  deleteSessions: (bookId: string) => {
+    const removed = cache.sessions.filter(s => s.bookId === bookId).map(s => s.id);
+    if (removed.length === 0) return;
+    cache.sessions = cache.sessions.filter(s => s.bookId !== bookId);
+    persist(() => db.write([STORES.SESSIONS], tx => {
+      const store = tx.objectStore(STORES.SESSIONS);
+      removed.forEach(id => store.delete(id));
+    }));
+  },
+
+  getSessions: (bookId?: string): ReadingSession[] => {
+    return bookId ? cache.sessions.filter(s => s.bookId === bookId) : [...cache.sessions];
+  },
+
+  // Sessions are saved repeatedly while they run, so this upserts by id
+  saveSession: (session: ReadingSession) => {
+    const index = cache.sessions.findIndex(s => s.id === session.id);
+    if (index === -1) cache.sessions = [...cache.sessions, session];
+    else cache.sessions = cache.sessions.map(s => s.id === session.id ? session : s);
+    persist(() => db.put(STORES.SESSIONS, session));
+  },
+
+  // Replaces the whole history, as restoring a backup does
+  saveSessions: (sessions: ReadingSession[]) => {
+    cache.sessions = [...sessions];
+    persist(() => db.write([STORES.SESSIONS], tx => {
+      const store = tx.objectStore(STORES.SESSIONS);
+      store.clear();
+      sessions.forEach(session => store.put(session));
+    }));
+  },
+
   getCards: (): FlashCard[] => {
-    const data = localStorage.getItem(STORAGE_KEYS.CARDS);
-    return data ? JSON.parse(data) : [];
+    return [...cache.cards];
+  },
+
+  saveCards: (cards: FlashCard[]) => {
+    const previous = new Map(cache.cards.map(c => [c.id, c]));
+    const changed = cards.filter(c => previous.get(c.id) !== c);
+    const nextIds = new Set(cards.map(c => c.id));
+    const removed = cache.cards.filter(c => !nextIds.has(c.id)).map(c => c.id);
+    cache.cards = [...cards];
+
+    if (changed.length === 0 && removed.length === 0) return;
+    persist(() => db.write([STORES.CARDS], tx => {
+      const store = tx.objectStore(STORES.CARDS);
+      removed.forEach(id => store.delete(id));
+      changed.forEach(c => store.put(c));
+    }));
+  },
+
+  addCard: (card: FlashCard) => {
+    const cards = storageService.getCards();
+    storageService.saveCards([card, ...cards]);
+  },
+
+  updateCard: (card: FlashCard) => {
+    const cards = storageService.getCards();
+    const index = cards.findIndex(c => c.id === card.id);
+    if (index !== -1) {
+      cards[index] = card;
+      storageService.saveCards(cards);
+    }
+  },
+
+  deleteCard: (cardId: string) => {
+    storageService.saveCards(storageService.getCards().filter(c => c.id !== cardId));
   },
 
   getHabitData: (): HabitData => {
-    const data = localStorage.getItem(STORAGE_KEYS.HABIT);
-    return data ? JSON.parse(data) : { 
+    return cache.habit ? { ...cache.habit, history: [...cache.habit.history], missedDays: [...cache.habit.missedDays] } : { 
       history: [], 
       missedDays: [], 
       shields: 2, 
@@ -120,14 +330,15 @@ export const storageService = {
   },
 
   saveHabitData: (habit: HabitData) => {
-    localStorage.setItem(STORAGE_KEYS.HABIT, JSON.stringify(habit));
+    cache.habit = habit;
+    persist(() => db.put(STORES.HABIT, habit, 'habit'));
   },
 
   recordReadingDay: () => {
-    const today = new Date().toISOString().split('T')[0];
+    const today = dateUtils.today();
     const books = storageService.getBooks();
     const totalTodaySeconds = books.reduce((acc, b) => {
-      const bDate = b.lastReadDate || (b.lastReadAt ? new Date(b.lastReadAt).toISOString().split('T')[0] : '');
+      const bDate = b.lastReadDate || (b.lastReadAt ? dateUtils.dayKey(b.lastReadAt) : '');
       if (bDate === today) return acc + (b.dailyTimeSeconds || 0);
       return acc;
     }, 0);
@@ -151,10 +362,10 @@ export const storageService = {
         habit.shields = 2;
         habit.consecutiveFullDays = isFullDay ? 1 : 0;
       } else {
-        const lastDate = new Date(habit.lastUpdated);
-        const todayDate = new Date(today);
-        const diffTime = Math.abs(todayDate.getTime() - lastDate.getTime());
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+        const diffDays = dateUtils.daysBetween(habit.lastUpdated, today);
+
+        // The day boundary moved backwards (e.g. rollover hour changed): nothing to record yet
+        if (diffDays < 1) return;
 
         if (diffDays === 1) {
           habit.streak += 1;
@@ -163,10 +374,8 @@ export const storageService = {
         } else {
           let streakBroken = false;
           for (let i = 1; i < diffDays; i++) {
-            const gapDay = new Date(lastDate);
-            gapDay.setDate(gapDay.getDate() + i);
-            const gapDayStr = gapDay.toISOString().split('T')[0];
-            
+            const gapDayStr = dateUtils.addDays(habit.lastUpdated, i);
+
             if (habit.shields > 0) {
               habit.shields -= 1;
               habit.history.push(gapDayStr); // Shielded day counts as full for path
@@ -0,0 +1,62 @@
+import { Book } from '../types';
+import { storageService } from './storageService';
+import { pdfStorage, StoredFile } from './pdfStorage';
+
+export interface BookUsage {
+  book: Book;
+  bytes: number;
+}
+
+export interface StorageReport {
+  // Origin-wide figures from the browser; null where the Storage API is unavailable
+  usage: number | null;
+  quota: number | null;
+  books: BookUsage[];
+  // Stored files whose book no longer exists
+  orphans: StoredFile[];
+}
+
+const UNITS = ['B', 'KB', 'MB', 'GB'];
+
+export const storageUsage = {
+  formatBytes: (bytes: number): string => {
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < UNITS.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return `${unit === 0 ? value : value.toFixed(value < 10 ? 1 : 0)} ${UNITS[unit]}`;
+  },
+
+  // Books are sized by their stored file, or by their text for text and Markdown books
+  report: async (): Promise<StorageReport> => {
+    const [estimate, files] = await Promise.all([
+      navigator.storage?.estimate ? navigator.storage.estimate().catch(() => null) : Promise.resolve(null),
+      pdfStorage.listFiles()
+    ]);
+    const fileSizes = new Map(files.map(f => [f.id, f.size]));
+    const books = storageService.getBooks();
+    const bookIds = new Set(books.map(b => b.id));
+    const encoder = new TextEncoder();
+
+    return {
+      usage: estimate?.usage ?? null,
+      quota: estimate?.quota ?? null,
+      books: books
+        .map(book => ({ book, bytes: fileSizes.get(book.id) ?? (book.format === 'text' || book.format === 'markdown' ? encoder.encode(book.content).length : 0) }))
+        .sort((a, b) => b.bytes - a.bytes),
+      orphans: files.filter(f => !bookIds.has(f.id))
+    };
+  },
+
+  // Deletes every stored file without a book. Ids in keep are spared, e.g. a
+  // deleted book that can still be restored.
+  collectGarbage: async (keep: string[] = []): Promise<{ removed: number, freedBytes: number }> => {
+    await storageService.flush();
+    const bookIds = new Set([...storageService.getBooks().map(b => b.id), ...keep]);
+    const orphans = (await pdfStorage.listFiles()).filter(f => !bookIds.has(f.id));
+    for (const file of orphans) await pdfStorage.deleteFile(file.id);
+    return { removed: orphans.length, freedBytes: orphans.reduce((sum, f) => sum + f.size, 0) };
+  }
+};
@@ -0,0 +1,69 @@
+// Harakat, Quranic marks and tatweel are ignored when matching
+const ARABIC_MARKS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/;
+
+// Letter variants that readers type interchangeably
+const ARABIC_FOLDS: Record<string, string> = {
+  'أ': 'ا', 'إ': 'ا', 'آ': 'ا', 'ٱ': 'ا',
+  'ى': 'ي', 'ئ': 'ي',
+  'ؤ': 'و',
+  'ة': 'ه'
+};
+
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+interface NormalizedText {
+  text: string;
+  // Index in the original string of every normalized character
+  map: number[];
+}
+
+const normalizeWithMap = (input: string): NormalizedText => {
+  let text = '';
+  const map: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (ARABIC_MARKS.test(char)) continue;
+    const folded = (ARABIC_FOLDS[char] ?? char).normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    for (const c of folded) {
+      if (/\s/.test(c)) {
+        if (text.endsWith(' ')) continue;
+        text += ' ';
+      } else {
+        text += c;
+      }
+      map.push(i);
+    }
+  }
+  return { text, map };
+};
+
+export const textSearch = {
+  normalize: (input: string): string => normalizeWithMap(input).text.trim(),
+
+  // Ranges in the original text, so callers can highlight or quote the exact passage
+  findMatches: (input: string, query: string, limit: number = Infinity): TextMatch[] => {
+    const needle = textSearch.normalize(query);
+    if (!needle) return [];
+    const { text, map } = normalizeWithMap(input);
+    const matches: TextMatch[] = [];
+    let from = text.indexOf(needle);
+    while (from !== -1 && matches.length < limit) {
+      matches.push({ start: map[from], end: map[from + needle.length - 1] + 1 });
+      from = text.indexOf(needle, from + needle.length);
+    }
+    return matches;
+  },
+
+  snippet: (input: string, match: TextMatch, radius: number = 60) => {
+    const start = Math.max(0, match.start - radius);
+    const end = Math.min(input.length, match.end + radius);
+    return {
+      before: (start > 0 ? '…' : '') + input.slice(start, match.start).replace(/\s+/g, ' '),
+      match: input.slice(match.start, match.end),
+      after: input.slice(match.end, end).replace(/\s+/g, ' ') + (end < input.length ? '…' : '')
+    };
+  }
+};
@@ -0,0 +1,146 @@
+import { AnnotationRect } from '../types';
+
+export interface TextOffsets {
+  quote: string;
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface TextAnchor extends TextOffsets {
+  rects: AnnotationRect[];
+  // Union of the line rectangles, used wherever a single region is needed
+  bounds: AnnotationRect;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Offsets count characters of the layer's text, which is the page's text items joined without separators
+const offsetWithin = (layer: HTMLElement, node: Node, offset: number) => {
+  const range = document.createRange();
+  range.setStart(layer, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+};
+
+// pdf.js emits one span per text run; fold runs sharing a line into a single rectangle
+const mergeLines = (rects: DOMRect[]) => {
+  const lines: { left: number, top: number, right: number, bottom: number }[] = [];
+  [...rects].sort((a, b) => a.top - b.top || a.left - b.left).forEach(r => {
+    const line = lines.find(l => {
+      const overlap = Math.min(l.bottom, r.bottom) - Math.max(l.top, r.top);
+      return overlap > Math.min(l.bottom - l.top, r.height) / 2;
+    });
+    if (line) {
+      line.left = Math.min(line.left, r.left);
+      line.right = Math.max(line.right, r.right);
+      line.top = Math.min(line.top, r.top);
+      line.bottom = Math.max(line.bottom, r.bottom);
+    } else {
+      lines.push({ left: r.left, top: r.top, right: r.right, bottom: r.bottom });
+    }
+  });
+  return lines;
+};
+
+// Line rectangles of a range, in percent of the page box
+const rangeRects = (range: Range, page: HTMLElement): AnnotationRect[] => {
+  const box = page.getBoundingClientRect();
+  return mergeLines(Array.from(range.getClientRects()).filter(r => r.width > 1 && r.height > 1))
+    .map(l => {
+      const x = Math.max(0, ((l.left - box.left) / box.width) * 100);
+      const y = Math.max(0, ((l.top - box.top) / box.height) * 100);
+      return {
+        x: round(x),
+        y: round(y),
+        w: round(Math.min(100, ((l.right - box.left) / box.width) * 100) - x),
+        h: round(Math.min(100, ((l.bottom - box.top) / box.height) * 100) - y)
+      };
+    });
+};
+
+const selectedRange = (root: HTMLElement): Range | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  return root.contains(range.commonAncestorContainer) ? range : null;
+};
+
+export const textSelection = {
+  // Character range of the current selection within the root's text
+  selectionOffsets: (root: HTMLElement): TextOffsets | null => {
+    const range = selectedRange(root);
+    if (!range) return null;
+    const quote = range.toString().replace(/\s+/g, ' ').trim();
+    if (!quote) return null;
+    return {
+      quote,
+      startOffset: offsetWithin(root, range.startContainer, range.startOffset),
+      endOffset: offsetWithin(root, range.endContainer, range.endOffset)
+    };
+  },
+
+  // Anchors the current selection to the text layer, with rectangles in percent of the page box
+  anchorSelection: (layer: HTMLElement, page: HTMLElement): TextAnchor | null => {
+    const range = selectedRange(layer);
+    const offsets = range && textSelection.selectionOffsets(layer);
+    if (!range || !offsets) return null;
+
+    const rects = rangeRects(range, page);
+    if (rects.length === 0) return null;
+
+    const left = Math.min(...rects.map(r => r.x));
+    const top = Math.min(...rects.map(r => r.y));
+    const bounds = {
+      x: left,
+      y: top,
+      w: round(Math.max(...rects.map(r => r.x + r.w)) - left),
+      h: round(Math.max(...rects.map(r => r.y + r.h)) - top)
+    };
+
+    return { ...offsets, rects, bounds };
+  },
+
+  // Inverse of the offsets stored by anchorSelection: rectangles for a character range of the layer's text
+  rectsForOffsets: (layer: HTMLElement, page: HTMLElement, start: number, end: number): AnnotationRect[] => {
+    const walker = document.createTreeWalker(layer, NodeFilter.SHOW_TEXT);
+    const range = document.createRange();
+    let seen = 0;
+    let started = false;
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const length = node.textContent?.length || 0;
+      if (!started && start < seen + length) {
+        range.setStart(node, start - seen);
+        started = true;
+      }
+      if (started && end <= seen + length) {
+        range.setEnd(node, end - seen);
+        return rangeRects(range, page);
+      }
+      seen += length;
+    }
+    return [];
+  },
+
+  // Wraps a character range of the root's text in marks, splitting text nodes at the edges.
+  // The text itself is untouched, so offsets of other ranges stay valid.
+  markOffsets: (root: HTMLElement, start: number, end: number, decorate: (mark: HTMLElement) => void) => {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const targets: { node: Text, from: number, to: number }[] = [];
+    let seen = 0;
+    for (let node = walker.nextNode() as Text | null; node && seen < end; node = walker.nextNode() as Text | null) {
+      const from = Math.max(start, seen);
+      const to = Math.min(end, seen + node.data.length);
+      if (from < to) targets.push({ node, from: from - seen, to: to - seen });
+      seen += node.data.length;
+    }
+    targets.forEach(({ node, from, to }) => {
+      let target = node;
+      if (from > 0) target = target.splitText(from);
+      if (to - from < target.data.length) target.splitText(to - from);
+      const mark = document.createElement('mark');
+      decorate(mark);
+      target.parentNode!.insertBefore(mark, target);
+      mark.appendChild(target);
+    });
+  }
+};
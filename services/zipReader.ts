@@ -0,0 +1,78 @@
+// Just enough of the ZIP format to read EPUB containers: stored and deflated
+// entries listed in the central directory. No encryption, no ZIP64.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+export interface ZipArchive {
+  names: string[];
+  has: (name: string) => boolean;
+  read: (name: string) => Promise<Uint8Array>;
+  readText: (name: string) => Promise<string>;
+}
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const openZip = (buffer: ArrayBuffer): ZipArchive => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) { eocd = i; break; }
+  }
+  if (eocd === -1) throw new Error('Not a ZIP archive');
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) throw new Error('Corrupt ZIP directory');
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const archive: ZipArchive = {
+    names: Array.from(entries.keys()),
+
+    has: (name: string) => entries.has(name),
+
+    read: async (name: string) => {
+      const entry = entries.get(name);
+      if (!entry) throw new Error(`Missing ${name}`);
+      const local = entry.localOffset;
+      if (view.getUint32(local, true) !== LOCAL_SIGNATURE) throw new Error(`Corrupt entry ${name}`);
+      const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+      const data = bytes.subarray(start, start + entry.compressedSize);
+      if (entry.method === 0) return data;
+      if (entry.method === 8) return inflate(data);
+      throw new Error(`Unsupported compression in ${name}`);
+    },
+
+    readText: async (name: string) => decoder.decode(await archive.read(name))
+  };
+
+  return archive;
+};
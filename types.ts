@@ -3,11 +3,28 @@ export enum ViewState {
   SHELF = 'SHELF',
   READER = 'READER',
   DASHBOARD = 'DASHBOARD',
-  VAULT = 'VAULT'
+  VAULT = 'VAULT',
+  ANNOTATIONS = 'ANNOTATIONS'
 }
 
 export type Language = 'en' | 'ar';
 
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export type AnnotationType = 'highlight' | 'underline' | 'box' | 'note' | 'ink' | 'arrow' | 'circle';
+
+// A point of a drawing in percent of the page; pressure (0-1) is only kept for pens
+export interface InkPoint {
+  x: number;
+  y: number;
+  pressure?: number;
+}
+
 export interface Annotation {
   id: string;
   page?: number;
@@ -18,12 +35,40 @@ export interface Annotation {
   text?: string;
   timestamp?: number;
   color: string;
-  type?: 'highlight' | 'underline' | 'box' | 'note';
-  rect?: { x: number, y: number, w: number, h: number };
+  type?: AnnotationType;
+  rect?: AnnotationRect;
+  // Text-anchored highlights and underlines: the selected passage, its character
+  // range in the page text and one rectangle per line (in percent of the page)
+  quote?: string;
+  startOffset?: number;
+  endOffset?: number;
+  rects?: AnnotationRect[];
   x?: number;
   y?: number;
   width?: number;
   height?: number;
+  // Drawings: an ink stroke follows its points and an arrow runs from the first point to the
+  // last, while a circle fills x/y/width/height. The width is in PDF points at 100% zoom.
+  points?: InkPoint[];
+  strokeWidth?: number;
+}
+
+// Where the Reader should open instead of the last read page
+export interface ReaderTarget {
+  pageIndex: number;
+  query?: string;
+  // Opened for editing once the page is shown
+  annotationId?: string;
+}
+
+export type BookFormat = 'pdf' | 'epub' | 'text' | 'markdown';
+
+export type ReadingStatus = 'toRead' | 'reading' | 'finished' | 'abandoned';
+
+export interface ReadingPosition {
+  chapter: number;
+  // Fraction of the chapter already paged through, stable across font and viewport changes
+  progress: number;
 }
 
 export interface Book {
@@ -32,6 +77,7 @@ export interface Book {
   title: string;
   author: string;
   cover: string;
+  // The full text of text and Markdown books; a mode marker for formats kept in the manuscript store
   content: string;
   timeSpentSeconds: number;
   dailyTimeSeconds: number;
@@ -41,14 +87,59 @@ export interface Book {
   lastPage: number;
   annotations: Annotation[];
   lastReadAt?: number;
+  subject?: string;
+  pageCount?: number;
+  // Missing on books added before other formats were supported, which are all PDFs
+  format?: BookFormat;
+  // SHA-256 of the imported file, used to spot duplicate imports
+  contentHash?: string;
+  // Reflowable books have no fixed pages: lastPage holds the chapter and this the place within it
+  readingPosition?: ReadingPosition;
+  // Number of chapters of a reflowable book, recorded when it is first opened
+  chapterCount?: number;
+  tags?: string[];
+  // Set by the reader; when missing the status is derived from reading time and progress
+  status?: ReadingStatus;
+}
+
+export interface PageVisit {
+  pageIndex: number;
+  dwellSeconds: number;
+}
+
+export interface ReadingSession {
+  id: string;
+  bookId: string;
+  startedAt: number;
+  endedAt: number;
+  activeSeconds: number;
+  pages: PageVisit[];
+  zenSeconds: number;
+  // Time the clock stood paused on the idle prompt; missing on sessions saved before it was recorded
+  idleSeconds?: number;
+  soundscapes: string[];
+}
+
+export type ShelfRuleKind = 'unread' | 'inProgress' | 'stars' | 'tag';
+
+export interface ShelfRule {
+  kind: ShelfRuleKind;
+  minStars?: number;
+  tag?: string;
 }
 
 export interface ShelfData {
   id: string;
   name: string;
   color: string;
+  // Key into the shelf icon set; shelves without one show a dot
+  icon?: string;
+  // Smart shelves hold no books of their own: they list every book matching the rule
+  rule?: ShelfRule;
 }
 
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
 export interface FlashCard {
   id: string;
   bookId: string;
@@ -57,6 +148,17 @@ export interface FlashCard {
   content?: string;
   addedAt: number;
   createdAt?: number;
+  // Source passage when the card was made from a Reader annotation
+  annotationId?: string;
+  pageIndex?: number;
+  image?: string;
+  // Spaced repetition state (SM-2)
+  dueAt?: number;
+  ease?: number;
+  intervalDays?: number;
+  repetitions?: number;
+  lapses?: number;
+  lastReviewedAt?: number;
 }
 
 export interface HabitData {
@@ -67,3 +169,43 @@ export interface HabitData {
   lastUpdated: string;
   consecutiveFullDays: number;
 }
+
+export interface AppSettings {
+  // Minutes without page turns, pointer or keyboard activity before the reading clock pauses (0 disables)
+  idleTimeoutMinutes: number;
+  // Local hour at which a new reading day starts, so late-night reading counts for the previous day
+  dayStartHour: number;
+  // Typography of the reflowable (EPUB, text and Markdown) reading mode
+  reflow: ReflowSettings;
+  shelf: ShelfViewSettings;
+  // Annotation colors in the order the Reader offers them
+  palette: PaletteColor[];
+}
+
+// An annotation color with the meaning the reader gives it, e.g. "Definitions"
+export interface PaletteColor {
+  hex: string;
+  label: string;
+  // A single key that picks the color while reading
+  shortcut?: string;
+}
+
+export type ShelfSort = 'added' | 'recent' | 'time' | 'stars' | 'progress' | 'title';
+
+export interface ShelfViewSettings {
+  sort: ShelfSort;
+  // Cover flow for browsing, grid for large shelves
+  layout: 'flow' | 'grid';
+}
+
+export type ReflowFont = 'sans' | 'serif' | 'mono';
+export type ReflowMargin = 'narrow' | 'normal' | 'wide';
+export type ReflowTheme = 'paper' | 'white' | 'sepia' | 'night';
+
+export interface ReflowSettings {
+  fontFamily: ReflowFont;
+  fontSize: number;
+  lineHeight: number;
+  margin: ReflowMargin;
+  theme: ReflowTheme;
+}